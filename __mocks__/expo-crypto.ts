@@ -0,0 +1,6 @@
+// __mocks__/expo-crypto.ts
+import { randomBytes } from 'crypto';
+
+export const getRandomBytes = (size: number): Uint8Array => new Uint8Array(randomBytes(size));
+
+export const CryptoDigestAlgorithm = {};
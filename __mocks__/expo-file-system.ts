@@ -0,0 +1,145 @@
+// __mocks__/expo-file-system.ts
+// In-memory expo-file-system for tests. Files are kept as bytes; directories are paths ending in "/".
+
+const files = new Map<string, Buffer>();
+const dirs = new Set<string>();
+
+export const documentDirectory = 'file:///document/';
+export const cacheDirectory = 'file:///cache/';
+
+export enum EncodingType {
+  UTF8 = 'utf8',
+  Base64 = 'base64',
+}
+
+interface ReadingOptions {
+  encoding?: EncodingType;
+  position?: number;
+  length?: number;
+}
+
+const asDir = (path: string) => (path.endsWith('/') ? path : `${path}/`);
+
+const addDirs = (path: string) => {
+  let dir = asDir(path);
+  while (dir.length > 'file:///'.length) {
+    dirs.add(dir);
+    dir = dir.slice(0, dir.slice(0, -1).lastIndexOf('/') + 1);
+  }
+};
+
+const parentDir = (path: string) => path.slice(0, path.lastIndexOf('/') + 1);
+
+const assertParentExists = (path: string) => {
+  if (!dirs.has(parentDir(path))) {
+    throw new Error(`Directory ${parentDir(path)} does not exist.`);
+  }
+};
+
+export const getInfoAsync = async (path: string) => {
+  const file = files.get(path);
+  if (file) {
+    return { exists: true, isDirectory: false, size: file.length, uri: path, modificationTime: 0 };
+  }
+  if (dirs.has(asDir(path))) {
+    return { exists: true, isDirectory: true, size: 0, uri: path, modificationTime: 0 };
+  }
+  return { exists: false, isDirectory: false, uri: path };
+};
+
+export const makeDirectoryAsync = async (path: string) => {
+  addDirs(path);
+};
+
+export const writeAsStringAsync = async (path: string, contents: string, options: ReadingOptions = {}) => {
+  assertParentExists(path);
+  files.set(path, Buffer.from(contents, options.encoding === EncodingType.Base64 ? 'base64' : 'utf8'));
+};
+
+export const readAsStringAsync = async (path: string, options: ReadingOptions = {}): Promise<string> => {
+  const file = files.get(path);
+  if (!file) {
+    throw new Error(`File ${path} does not exist.`);
+  }
+  if (options.encoding !== EncodingType.Base64) {
+    return file.toString('utf8');
+  }
+  const start = options.position ?? 0;
+  const end = options.length === undefined ? file.length : start + options.length;
+  return file.subarray(start, end).toString('base64');
+};
+
+export const deleteAsync = async (path: string, options: { idempotent?: boolean } = {}) => {
+  if (files.delete(path)) {
+    return;
+  }
+  const dir = asDir(path);
+  if (!dirs.has(dir)) {
+    if (!options.idempotent) {
+      throw new Error(`${path} does not exist.`);
+    }
+    return;
+  }
+  [...files.keys()].filter(key => key.startsWith(dir)).forEach(key => files.delete(key));
+  [...dirs].filter(key => key.startsWith(dir)).forEach(key => dirs.delete(key));
+};
+
+export const moveAsync = async ({ from, to }: { from: string; to: string }) => {
+  const file = files.get(from);
+  if (file) {
+    assertParentExists(to);
+    files.set(to, file);
+    files.delete(from);
+    return;
+  }
+  const fromDir = asDir(from);
+  if (!dirs.has(fromDir)) {
+    throw new Error(`${from} does not exist.`);
+  }
+  const toDir = asDir(to);
+  for (const key of [...files.keys()].filter(key => key.startsWith(fromDir))) {
+    files.set(toDir + key.slice(fromDir.length), files.get(key) as Buffer);
+    files.delete(key);
+  }
+  for (const key of [...dirs].filter(key => key.startsWith(fromDir))) {
+    dirs.delete(key);
+    dirs.add(toDir + key.slice(fromDir.length));
+  }
+};
+
+export const copyAsync = async ({ from, to }: { from: string; to: string }) => {
+  const file = files.get(from);
+  if (!file) {
+    throw new Error(`${from} does not exist.`);
+  }
+  files.set(to, Buffer.from(file));
+};
+
+export const readDirectoryAsync = async (path: string): Promise<string[]> => {
+  const dir = asDir(path);
+  if (!dirs.has(dir)) {
+    throw new Error(`Directory ${path} does not exist.`);
+  }
+  const names = new Set<string>();
+  [...files.keys(), ...dirs]
+    .filter(key => key.startsWith(dir) && key !== dir)
+    .forEach(key => names.add(key.slice(dir.length).split('/')[0]));
+  return [...names];
+};
+
+/**
+ * Returns the backing map of file contents, so tests can inspect or damage files.
+ */
+export const __getFiles = () => files;
+
+/**
+ * Empties the file system except for the document and cache directories; call it before each test.
+ */
+export const __reset = () => {
+  files.clear();
+  dirs.clear();
+  addDirs(documentDirectory);
+  addDirs(cacheDirectory);
+};
+
+__reset();
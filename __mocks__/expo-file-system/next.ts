@@ -0,0 +1,86 @@
+// __mocks__/expo-file-system/next.ts
+// The file handles of expo-file-system/next, over the same in-memory files as the expo-file-system mock.
+import * as FileSystem from 'expo-file-system';
+
+const files = (FileSystem as typeof FileSystem & { __getFiles: () => Map<string, Buffer> }).__getFiles();
+let handlesAvailable = true;
+
+export class FileHandle {
+  offset: number | null = 0;
+  private uri: string | null;
+
+  constructor(uri: string) {
+    this.uri = uri;
+  }
+
+  get size(): number | null {
+    return this.uri === null ? null : (files.get(this.uri)?.length ?? null);
+  }
+
+  private current(): Buffer {
+    const file = this.uri === null ? undefined : files.get(this.uri);
+    if (!file || this.offset === null) {
+      throw new Error('The file handle is closed.');
+    }
+    return file;
+  }
+
+  readBytes(length: number): Uint8Array {
+    const file = this.current();
+    const start = this.offset as number;
+    const bytes = new Uint8Array(file.subarray(start, start + length));
+    this.offset = start + bytes.length;
+    return bytes;
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    const file = this.current();
+    const start = this.offset as number;
+    const head = file.subarray(0, start);
+    const tail = file.subarray(Math.min(file.length, start + bytes.length));
+    files.set(this.uri as string, Buffer.concat([head, Buffer.from(bytes), tail]));
+    this.offset = start + bytes.length;
+  }
+
+  close(): void {
+    this.uri = null;
+    this.offset = null;
+  }
+}
+
+export class File {
+  readonly uri: string;
+
+  constructor(uri: string) {
+    if (!handlesAvailable) {
+      // What Expo Go does
+      throw new Error('`FileSystem.File` is not yet available in the Expo Go managed workflow.');
+    }
+    this.uri = uri;
+  }
+
+  get exists(): boolean {
+    return files.has(this.uri);
+  }
+
+  create(options: { overwrite?: boolean } = {}): void {
+    if (files.has(this.uri) && !options.overwrite) {
+      throw new Error(`${this.uri} already exists.`);
+    }
+    files.set(this.uri, Buffer.alloc(0));
+  }
+
+  open(): FileHandle {
+    if (!files.has(this.uri)) {
+      throw new Error(`${this.uri} does not exist.`);
+    }
+    return new FileHandle(this.uri);
+  }
+}
+
+/**
+ * Makes File unavailable, as in Expo Go, or available again.
+ */
+export const __setHandlesAvailable = (available: boolean) => {
+  handlesAvailable = available;
+};
@@ -0,0 +1,26 @@
+// __mocks__/expo-secure-store.ts
+// In-memory SecureStore for tests. Values are shared by every keychain service.
+
+const store = new Map<string, string>();
+
+export const setItemAsync = async (key: string, value: string) => {
+  store.set(key, value);
+};
+
+export const getItemAsync = async (key: string): Promise<string | null> => store.get(key) ?? null;
+
+export const deleteItemAsync = async (key: string) => {
+  store.delete(key);
+};
+
+export const canUseBiometricAuthentication = () => false;
+
+/**
+ * Returns the backing map, so tests can inspect or tamper with stored values.
+ */
+export const __getStore = () => store;
+
+/**
+ * Empties the store; call it before each test.
+ */
+export const __reset = () => store.clear();
@@ -0,0 +1,3 @@
+// __mocks__/react-native-get-random-values.ts
+// Node already has crypto.getRandomValues
+export {};
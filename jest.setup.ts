@@ -0,0 +1,10 @@
+// jest.setup.ts
+// jest-expo stubs some of these modules itself; the in-memory versions in __mocks__ win.
+jest.mock('expo-crypto', () => jest.requireActual('./__mocks__/expo-crypto'));
+jest.mock('expo-file-system', () => jest.requireActual('./__mocks__/expo-file-system'));
+jest.mock('expo-file-system/next', () => jest.requireActual('./__mocks__/expo-file-system/next'));
+jest.mock('expo-secure-store', () => jest.requireActual('./__mocks__/expo-secure-store'));
+jest.mock('react-native-get-random-values', () => jest.requireActual('./__mocks__/react-native-get-random-values'));
+
+// The app logs every encryption at DEBUG level; keep test output to warnings and errors.
+jest.spyOn(console, 'log').mockImplementation(() => undefined);
@@ -0,0 +1,174 @@
+// src/components/ChecklistEditor.tsx
+import React, { useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { parseChecklist, serializeChecklist, moveCheckedToBottom, Checklist, ChecklistItem } from '../utils/checklist';
+
+interface ChecklistEditorProps {
+  content: string;
+  onChange: (content: string) => void;
+}
+
+/**
+ * Edits a checklist note. The note text stays the single source of truth: every change is
+ * written back as text, so autosave and history treat checklists like any other note.
+ */
+const ChecklistEditor: React.FC<ChecklistEditorProps> = ({ content, onChange }) => {
+  const checklist = useMemo(() => parseChecklist(content), [content]);
+  const [newItemText, setNewItemText] = useState('');
+
+  const update = (changes: Partial<Checklist>) => {
+    onChange(serializeChecklist({ ...checklist, ...changes }));
+  };
+
+  const updateItem = (index: number, changes: Partial<ChecklistItem>) => {
+    update({ items: checklist.items.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    const items = [...checklist.items];
+    const [item] = items.splice(index, 1);
+    items.splice(index + offset, 0, item);
+    update({ items });
+  };
+
+  const removeItem = (index: number) => {
+    update({ items: checklist.items.filter((_, i) => i !== index) });
+  };
+
+  const handleAddItem = () => {
+    if (!newItemText.trim()) {
+      return;
+    }
+    update({ items: [...checklist.items, { text: newItemText.trim(), checked: false }] });
+    setNewItemText('');
+  };
+
+  const doneCount = checklist.items.filter(item => item.checked).length;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <TextInput
+        style={styles.titleInput}
+        value={checklist.title}
+        onChangeText={title => update({ title })}
+        placeholder="Title"
+        placeholderTextColor="#888"
+      />
+
+      <View style={styles.summaryRow}>
+        <Text style={styles.progressText}>
+          {doneCount}/{checklist.items.length} done
+        </Text>
+        {doneCount > 0 && (
+          <TouchableOpacity style={styles.sortButton} onPress={() => update({ items: moveCheckedToBottom(checklist.items) })}>
+            <Ionicons name="arrow-down-circle-outline" size={18} color="#00f2ea" />
+            <Text style={styles.sortButtonText}>Move checked to bottom</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {checklist.items.map((item, index) => (
+        <View key={index} style={styles.itemRow}>
+          <TouchableOpacity style={styles.itemButton} onPress={() => updateItem(index, { checked: !item.checked })}>
+            <Ionicons name={item.checked ? 'checkbox' : 'square-outline'} size={24} color="#00f2ea" />
+          </TouchableOpacity>
+          <TextInput
+            style={[styles.itemInput, item.checked && styles.checkedItemInput]}
+            value={item.text}
+            onChangeText={text => updateItem(index, { text })}
+            placeholder="Item"
+            placeholderTextColor="#888"
+          />
+          <TouchableOpacity style={styles.itemButton} onPress={() => moveItem(index, -1)} disabled={index === 0}>
+            <Ionicons name="chevron-up" size={20} color={index === 0 ? '#333' : '#aaa'} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.itemButton}
+            onPress={() => moveItem(index, 1)}
+            disabled={index === checklist.items.length - 1}
+          >
+            <Ionicons name="chevron-down" size={20} color={index === checklist.items.length - 1 ? '#333' : '#aaa'} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.itemButton} onPress={() => removeItem(index)}>
+            <Ionicons name="close" size={20} color="#ff6347" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={styles.itemRow}>
+        <View style={styles.itemButton}>
+          <Ionicons name="add" size={24} color="#888" />
+        </View>
+        <TextInput
+          style={styles.itemInput}
+          value={newItemText}
+          onChangeText={setNewItemText}
+          onSubmitEditing={handleAddItem}
+          onBlur={handleAddItem}
+          submitBehavior="submit" // Keep the keyboard up to add several items in a row
+          returnKeyType="next"
+          placeholder="Add item"
+          placeholderTextColor="#888"
+        />
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingTop: 15,
+  },
+  titleInput: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+    paddingVertical: 5,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginVertical: 10,
+  },
+  progressText: {
+    color: '#aaa',
+    fontSize: 14,
+  },
+  sortButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sortButtonText: {
+    color: '#00f2ea',
+    fontSize: 14,
+    marginLeft: 5,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: '#1e1e1e',
+  },
+  itemButton: {
+    padding: 6,
+  },
+  itemInput: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 18,
+    paddingVertical: 10,
+    marginHorizontal: 5,
+  },
+  checkedItemInput: {
+    color: '#888',
+    textDecorationLine: 'line-through',
+  },
+});
+
+export default ChecklistEditor;
@@ -0,0 +1,79 @@
+// src/components/MarkdownToolbar.tsx
+import React from 'react';
+import { ScrollView, TouchableOpacity, Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MarkdownFormat } from '../utils/markdown';
+
+interface MarkdownToolbarProps {
+  onFormat: (format: MarkdownFormat) => void;
+}
+
+interface ToolbarItem {
+  format: MarkdownFormat;
+  label?: string;
+  labelStyle?: StyleProp<TextStyle>;
+  icon?: keyof typeof Ionicons.glyphMap;
+}
+
+const TOOLBAR_ITEMS: ToolbarItem[] = [
+  { format: 'heading', label: 'H' },
+  { format: 'bold', label: 'B', labelStyle: { fontWeight: 'bold' } },
+  { format: 'italic', label: 'I', labelStyle: { fontStyle: 'italic' } },
+  { format: 'strike', label: 'S', labelStyle: { textDecorationLine: 'line-through' } },
+  { format: 'code', icon: 'code-slash-outline' },
+  { format: 'bulletList', icon: 'list-outline' },
+  { format: 'numberedList', label: '1.' },
+  { format: 'quote', icon: 'chatbox-ellipses-outline' },
+  { format: 'link', icon: 'link-outline' },
+];
+
+/**
+ * Row of buttons above the keyboard that insert Markdown syntax at the cursor.
+ */
+const MarkdownToolbar: React.FC<MarkdownToolbarProps> = ({ onFormat }) => (
+  <ScrollView
+    horizontal
+    showsHorizontalScrollIndicator={false}
+    keyboardShouldPersistTaps="always" // Tapping a button must not close the keyboard
+    style={styles.toolbar}
+    contentContainerStyle={styles.toolbarContent}
+  >
+    {TOOLBAR_ITEMS.map(item => (
+      <TouchableOpacity key={item.format} style={styles.button} onPress={() => onFormat(item.format)}>
+        {item.icon ? (
+          <Ionicons name={item.icon} size={20} color="#00f2ea" />
+        ) : (
+          <Text style={[styles.label, item.labelStyle]}>{item.label}</Text>
+        )}
+      </TouchableOpacity>
+    ))}
+  </ScrollView>
+);
+
+const styles = StyleSheet.create({
+  toolbar: {
+    flexGrow: 0,
+    borderTopWidth: 1,
+    borderTopColor: '#1e1e1e',
+    backgroundColor: '#121212',
+  },
+  toolbarContent: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  button: {
+    minWidth: 40,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 8,
+    backgroundColor: '#1e1e1e',
+    marginRight: 6,
+  },
+  label: {
+    color: '#00f2ea',
+    fontSize: 17,
+  },
+});
+
+export default MarkdownToolbar;
@@ -0,0 +1,231 @@
+// src/components/MarkdownView.tsx
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, Alert, Linking, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { parseMarkdown, parseInline, InlineNode, MarkdownBlock } from '../utils/markdown';
+
+interface MarkdownViewProps {
+  content: string;
+}
+
+// Only these are handed to the OS; anything else (file:, javascript:, app schemes) is refused
+const OPENABLE_URL_PATTERN = /^(https?:|mailto:)/i;
+
+const HEADING_STYLES = [
+  { fontSize: 28 },
+  { fontSize: 24 },
+  { fontSize: 21 },
+  { fontSize: 19 },
+  { fontSize: 18 },
+  { fontSize: 18 },
+];
+
+/**
+ * Asks before opening a link, so nothing leaves the device without the user choosing it.
+ * @param url The link target as written in the note.
+ */
+const confirmOpenLink = (url: string) => {
+  if (!OPENABLE_URL_PATTERN.test(url)) {
+    Alert.alert('Link Not Opened', `Only web and email links can be opened:\n\n${url}`);
+    return;
+  }
+  Alert.alert('Open Link', `Open this link outside the app?\n\n${url}`, [
+    { text: 'Cancel', style: 'cancel' },
+    {
+      text: 'Open',
+      onPress: () => {
+        Linking.openURL(url).catch(e => {
+          console.error('Error opening link:', e);
+          Alert.alert('Error', 'This link could not be opened.');
+        });
+      },
+    },
+  ]);
+};
+
+const renderInline = (nodes: InlineNode[], keyPrefix = ''): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    const key = `${keyPrefix}${index}`;
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return <Text key={key} style={styles.inlineCode}>{node.text}</Text>;
+      case 'bold':
+        return <Text key={key} style={styles.bold}>{renderInline(node.children, `${key}.`)}</Text>;
+      case 'italic':
+        return <Text key={key} style={styles.italic}>{renderInline(node.children, `${key}.`)}</Text>;
+      case 'strike':
+        return <Text key={key} style={styles.strike}>{renderInline(node.children, `${key}.`)}</Text>;
+      case 'link':
+        return (
+          <Text key={key} style={styles.link} onPress={() => confirmOpenLink(node.url)}>
+            {renderInline(node.children, `${key}.`)}
+          </Text>
+        );
+      case 'image':
+        // Images are never loaded; the placeholder opens like a link if tapped
+        return (
+          <Text key={key} style={styles.image} onPress={() => confirmOpenLink(node.url)}>
+            [Image{node.alt ? `: ${node.alt}` : ''}]
+          </Text>
+        );
+    }
+  });
+
+const renderBlock = (block: MarkdownBlock, key: string): React.ReactNode => {
+  switch (block.type) {
+    case 'heading':
+      return (
+        <Text key={key} style={[styles.text, styles.heading, HEADING_STYLES[block.level - 1]]}>
+          {renderInline(parseInline(block.text))}
+        </Text>
+      );
+    case 'paragraph':
+      return <Text key={key} style={[styles.text, styles.paragraph]}>{renderInline(parseInline(block.text))}</Text>;
+    case 'listItem':
+      return (
+        <View key={key} style={[styles.listItem, { marginLeft: block.depth * 20 }]}>
+          {block.checked !== undefined ? (
+            <Ionicons
+              name={block.checked ? 'checkbox-outline' : 'square-outline'}
+              size={20}
+              color="#00f2ea"
+              style={styles.taskBox}
+            />
+          ) : (
+            <Text style={[styles.text, styles.listMarker]}>{block.ordered ? `${block.number}.` : '•'}</Text>
+          )}
+          <Text style={[styles.text, styles.listText]}>{renderInline(parseInline(block.text))}</Text>
+        </View>
+      );
+    case 'code':
+      return (
+        <ScrollView key={key} horizontal style={styles.codeBlock} contentContainerStyle={styles.codeBlockContent}>
+          <Text style={styles.codeText}>{block.text}</Text>
+        </ScrollView>
+      );
+    case 'quote':
+      return (
+        <View key={key} style={styles.quote}>
+          {block.children.map((child, index) => renderBlock(child, `${key}.${index}`))}
+        </View>
+      );
+    case 'rule':
+      return <View key={key} style={styles.rule} />;
+  }
+};
+
+/**
+ * Renders a note's Markdown. Everything is drawn from the note text itself: images show
+ * as placeholders and links only open after the user confirms.
+ */
+const MarkdownView: React.FC<MarkdownViewProps> = ({ content }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {blocks.length === 0 ? (
+        <Text style={styles.emptyText}>Nothing to preview yet.</Text>
+      ) : (
+        blocks.map((block, index) => renderBlock(block, `${index}`))
+      )}
+    </ScrollView>
+  );
+};
+
+const monospace = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingTop: 15,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 18,
+  },
+  text: {
+    color: '#fff',
+    fontSize: 18,
+  },
+  heading: {
+    fontWeight: 'bold',
+    marginTop: 10,
+    marginBottom: 8,
+  },
+  paragraph: {
+    lineHeight: 26,
+    marginBottom: 12,
+  },
+  bold: {
+    fontWeight: 'bold',
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  strike: {
+    textDecorationLine: 'line-through',
+  },
+  link: {
+    color: '#00f2ea',
+    textDecorationLine: 'underline',
+  },
+  image: {
+    color: '#aaa',
+    fontStyle: 'italic',
+  },
+  inlineCode: {
+    fontFamily: monospace,
+    fontSize: 16,
+    color: '#00f2ea',
+    backgroundColor: '#1e1e1e',
+  },
+  listItem: {
+    flexDirection: 'row',
+    marginBottom: 6,
+  },
+  listMarker: {
+    minWidth: 24,
+    lineHeight: 26,
+    color: '#00f2ea',
+  },
+  taskBox: {
+    width: 28,
+    marginTop: 3,
+  },
+  listText: {
+    flex: 1,
+    lineHeight: 26,
+  },
+  codeBlock: {
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  codeBlockContent: {
+    padding: 12,
+  },
+  codeText: {
+    fontFamily: monospace,
+    fontSize: 14,
+    color: '#ccc',
+  },
+  quote: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#00f2ea',
+    paddingLeft: 12,
+    marginBottom: 12,
+    opacity: 0.85,
+  },
+  rule: {
+    height: 1,
+    backgroundColor: '#888',
+    marginVertical: 15,
+  },
+});
+
+export default MarkdownView;
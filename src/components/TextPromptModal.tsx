@@ -0,0 +1,130 @@
+// src/components/TextPromptModal.tsx
+import React, { useState, useEffect } from 'react';
+import { Modal, View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+
+interface TextPromptModalProps {
+  visible: boolean;
+  title: string;
+  message?: string;
+  initialValue?: string;
+  placeholder?: string;
+  confirmLabel?: string;
+  onSubmit: (value: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks for a single line of text. Alert.prompt only exists on iOS, so this is used instead.
+ */
+const TextPromptModal: React.FC<TextPromptModalProps> = ({
+  visible,
+  title,
+  message,
+  initialValue = '',
+  placeholder,
+  confirmLabel = 'OK',
+  onSubmit,
+  onCancel,
+}) => {
+  const [value, setValue] = useState(initialValue);
+
+  // Start from the initial value every time the prompt opens
+  useEffect(() => {
+    if (visible) {
+      setValue(initialValue);
+    }
+  }, [visible, initialValue]);
+
+  const handleSubmit = () => {
+    if (value.trim()) {
+      onSubmit(value.trim());
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.dialog}>
+          <Text style={styles.title}>{title}</Text>
+          {message && <Text style={styles.message}>{message}</Text>}
+          <TextInput
+            style={styles.input}
+            placeholder={placeholder}
+            placeholderTextColor="#888"
+            value={value}
+            onChangeText={setValue}
+            onSubmitEditing={handleSubmit}
+            autoFocus
+          />
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.button} onPress={onCancel}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.button} onPress={handleSubmit} disabled={!value.trim()}>
+              <Text style={[styles.confirmText, !value.trim() && styles.disabledText]}>{confirmLabel}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    padding: 30,
+  },
+  dialog: {
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: '#00f2ea',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  message: {
+    color: '#aaa',
+    fontSize: 14,
+    marginBottom: 10,
+  },
+  input: {
+    padding: 12,
+    backgroundColor: '#121212',
+    borderRadius: 8,
+    color: '#fff',
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#00f2ea',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 15,
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 15,
+  },
+  cancelText: {
+    color: '#aaa',
+    fontSize: 16,
+  },
+  confirmText: {
+    color: '#00f2ea',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  disabledText: {
+    opacity: 0.4,
+  },
+});
+
+export default TextPromptModal;
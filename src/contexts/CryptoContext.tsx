@@ -1,15 +1,32 @@
 // src/contexts/CryptoContext.tsx
-import React, { createContext, useState, useContext, ReactNode, useEffect, useRef } from 'react';
+import React, { createContext, useState, useContext, ReactNode, useEffect, useRef, useCallback } from 'react';
 import CryptoJS from 'crypto-js';
-import { clearMasterPassword, hasMasterPassword, verifyMasterPassword } from '../utils/crypto';
-import { Alert } from 'react-native';
+import { closeDecoyVault, eraseVault } from '../utils/vault';
+import { clearNoteIndexCache } from '../utils/noteStorage';
+import { clearSearchIndex } from '../utils/search';
+import { AppSettings, DEFAULT_SETTINGS, getSettings, updateSettings as persistSettings } from '../utils/settings';
+import { getActiveVaultId, loadActiveVault, selectVault, VaultInfo } from '../utils/vaultRegistry';
+import { navigationRef } from '../navigation/navigationRef';
+import { Alert, AppState, AppStateStatus, View, StyleSheet } from 'react-native';
+
+// Runs just before the key is dropped, e.g. to flush unsaved editor content.
+// May return the ID of a note to reopen after the next unlock.
+export type LockHandler = () => Promise<string | null | void>;
 
 // Define the shape of the context value
 interface CryptoContextType {
   encryptionKey: CryptoJS.lib.WordArray | null;
   setEncryptionKey: (key: CryptoJS.lib.WordArray | null) => void;
   isAuthenticated: boolean;
-  clearAllCryptoData: () => Promise<void>;
+  clearAllCryptoData: (onProgress?: (done: number, total: number) => void) => Promise<void>;
+  lockVault: () => Promise<void>;
+  notifyActivity: () => void;
+  registerLockHandler: (handler: LockHandler) => () => void;
+  settings: AppSettings;
+  updateSettings: (changes: Partial<AppSettings>) => Promise<void>;
+  activeVault: VaultInfo | null; // Null until the vault registry has been read on launch
+  switchVault: (id: string) => Promise<void>;
+  reloadActiveVault: () => Promise<void>;
 }
 
 // Create the context
@@ -23,44 +40,222 @@ interface CryptoProviderProps {
 export const CryptoProvider: React.FC<CryptoProviderProps> = ({ children }) => {
   const [encryptionKey, setEncryptionKey] = useState<CryptoJS.lib.WordArray | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [activeVault, setActiveVault] = useState<VaultInfo | null>(null);
   const isKeySetRef = useRef(false); // To track if the key has been set in the current session
+  const lockHandlersRef = useRef(new Set<LockHandler>());
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const backgroundedAtRef = useRef<number | null>(null);
+  const lockingRef = useRef(false);
 
   useEffect(() => {
     setIsAuthenticated(encryptionKey !== null);
   }, [encryptionKey]);
 
-  const clearAllCryptoData = async () => {
+  // Settings belong to a vault, so the active one must be known before they are read
+  const reloadActiveVault = useCallback(async () => {
+    const vault = await loadActiveVault();
+    setSettings(await getSettings());
+    setActiveVault(vault);
+  }, []);
+
+  useEffect(() => {
+    reloadActiveVault().catch(error => console.error('ERROR: Could not load the active vault:', error));
+  }, [reloadActiveVault]);
+
+  const updateKey = useCallback((key: CryptoJS.lib.WordArray | null) => {
+    if (!key) {
+      clearNoteIndexCache(); // Decrypted titles and previews must not outlive the key
+      clearSearchIndex(); // Nor the plaintext of every note held for search
+      closeDecoyVault();
+    } else {
+      // The key may have opened a decoy in place of the active vault, with settings of its own
+      getSettings().then(setSettings);
+    }
+    setEncryptionKey(key);
+    isKeySetRef.current = !!key; // Update ref when key is set/cleared
+  }, []);
+
+  /**
+   * Locks the vault: lets registered handlers flush unsaved work, sends every screen
+   * back to Login (remembering the open note), then drops the key.
+   */
+  const lockVault = useCallback(async () => {
+    if (!isKeySetRef.current || lockingRef.current) {
+      return;
+    }
+    lockingRef.current = true;
+    try {
+      let resumeNoteId: string | undefined;
+      for (const handler of Array.from(lockHandlersRef.current)) {
+        try {
+          const noteId = await handler();
+          if (noteId && !resumeNoteId) {
+            resumeNoteId = noteId;
+          }
+        } catch (error) {
+          console.error('ERROR: Lock handler failed:', error);
+        }
+      }
+
+      if (navigationRef.isReady()) {
+        // The note only exists in this vault; Login drops it if another vault is unlocked next
+        const resumeVaultId = getActiveVaultId();
+        navigationRef.reset({ index: 0, routes: [{ name: 'Login', params: { resumeNoteId, resumeVaultId } }] });
+      }
+      updateKey(null);
+      // Back to the active vault's settings; a duress unlock may also have replaced it in the list
+      await reloadActiveVault();
+      console.log('LOG: Vault locked.');
+    } finally {
+      lockingRef.current = false;
+    }
+  }, [updateKey, reloadActiveVault]);
+
+  const notifyActivity = useCallback(() => {
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+    if (isKeySetRef.current && settings.autoLockTimeoutMs !== null) {
+      idleTimerRef.current = setTimeout(() => {
+        console.log('LOG: Locking vault after inactivity.');
+        lockVault();
+      }, settings.autoLockTimeoutMs);
+    }
+  }, [settings.autoLockTimeoutMs, lockVault]);
+
+  // (Re)start the idle timer whenever the key or the timeout changes
+  useEffect(() => {
+    notifyActivity();
+    return () => {
+      if (idleTimerRef.current) {
+        clearTimeout(idleTimerRef.current);
+      }
+    };
+  }, [encryptionKey, notifyActivity]);
+
+  // Lock when the app leaves the foreground, after the configured grace window.
+  // Timers are unreliable while backgrounded, so the grace window is also checked on return.
+  useEffect(() => {
+    const handleAppStateChange = (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        const backgroundedAt = backgroundedAtRef.current;
+        backgroundedAtRef.current = null;
+        if (backgroundedAt !== null && Date.now() - backgroundedAt >= settings.backgroundGraceMs) {
+          lockVault();
+        } else {
+          notifyActivity();
+        }
+        return;
+      }
+      if (nextState === 'background' && backgroundedAtRef.current === null) {
+        backgroundedAtRef.current = Date.now();
+        if (settings.backgroundGraceMs === 0) {
+          lockVault();
+        }
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    return () => subscription.remove();
+  }, [settings.backgroundGraceMs, lockVault, notifyActivity]);
+
+  const registerLockHandler = useCallback((handler: LockHandler) => {
+    lockHandlersRef.current.add(handler);
+    return () => {
+      lockHandlersRef.current.delete(handler);
+    };
+  }, []);
+
+  /**
+   * Switches to another vault. The previous vault's key goes first, taking every cache
+   * decrypted with it along, so nothing of one vault is ever visible in another.
+   * @param id The vault to switch to.
+   */
+  const switchVault = useCallback(async (id: string) => {
+    updateKey(null);
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+    backgroundedAtRef.current = null;
+    const vault = await selectVault(id);
+    setSettings(await getSettings());
+    setActiveVault(vault);
+  }, [updateKey]);
+
+  const updateSettings = useCallback(async (changes: Partial<AppSettings>) => {
     try {
-      await clearMasterPassword();
-      setEncryptionKey(null);
-      isKeySetRef.current = false;
+      setSettings(await persistSettings(changes));
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      Alert.alert('Error', 'Failed to save settings. Please try again.');
+    }
+  }, []);
+
+  /**
+   * Erases the active vault, then returns to the Login screen to set it up again.
+   * Other vaults are untouched. If this fails part-way, the erase is finished on the next launch.
+   */
+  const clearAllCryptoData = async (onProgress?: (done: number, total: number) => void) => {
+    try {
+      const report = await eraseVault(onProgress, { vaultKey: encryptionKey ?? undefined });
+      setSettings(DEFAULT_SETTINGS);
+      if (navigationRef.isReady()) {
+        navigationRef.reset({ index: 0, routes: [{ name: 'Login' }] });
+      }
+      updateKey(null);
       Alert.alert(
         'Data Cleared',
-        'Master password and all notes have been permanently deleted from this device. You will need to set a new master password on next launch.'
+        `Removed from this device:\n` +
+          `• ${report.files} file(s) overwritten and deleted (${report.bytes} bytes)\n` +
+          `• ${report.secureStoreKeys.length} secure storage item(s): keys, settings and counters\n\n` +
+          'You will need to set a new master password for this vault.'
       );
     } catch (error) {
       console.error('Error clearing all crypto data:', error);
-      Alert.alert('Error', 'Failed to clear all data. Please try again.');
+      Alert.alert('Error', 'Failed to clear all data. The erase will be finished the next time the app starts.');
     }
   };
 
   const contextValue: CryptoContextType = {
     encryptionKey,
-    setEncryptionKey: (key) => {
-      setEncryptionKey(key);
-      isKeySetRef.current = !!key; // Update ref when key is set/cleared
-    },
+    setEncryptionKey: updateKey,
     isAuthenticated,
     clearAllCryptoData,
+    lockVault,
+    notifyActivity,
+    registerLockHandler,
+    settings,
+    updateSettings,
+    activeVault,
+    switchVault,
+    reloadActiveVault,
   };
 
   return (
     <CryptoContext.Provider value={contextValue}>
-      {children}
+      {/* Any touch anywhere in the app counts as activity for the idle timer */}
+      <View
+        style={styles.activityCapture}
+        onStartShouldSetResponderCapture={() => {
+          notifyActivity();
+          return false;
+        }}
+      >
+        {children}
+      </View>
     </CryptoContext.Provider>
   );
 };
 
+const styles = StyleSheet.create({
+  activityCapture: {
+    flex: 1,
+  },
+});
+
 // Custom hook to use the CryptoContext
 export const useCrypto = () => {
   const context = useContext(CryptoContext);
@@ -68,4 +263,4 @@ export const useCrypto = () => {
     throw new Error('useCrypto must be used within a CryptoProvider');
   }
   return context;
-};
\ No newline at end of file
+};
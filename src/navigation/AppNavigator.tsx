@@ -4,19 +4,41 @@ import { createStackNavigator } from '@react-navigation/stack';
 import LoginScreen from '../screens/LoginScreen';
 import HomeScreen from '../screens/HomeScreen';
 import NoteEditorScreen from '../screens/NoteEditorScreen';
+import ChangePasswordScreen from '../screens/ChangePasswordScreen';
+import DuressPasswordScreen from '../screens/DuressPasswordScreen';
+import SettingsScreen from '../screens/SettingsScreen';
+import RecoveryPhraseScreen from '../screens/RecoveryPhraseScreen';
+import RecoverAccessScreen from '../screens/RecoverAccessScreen';
+import BackupScreen from '../screens/BackupScreen';
+import NoteHistoryScreen from '../screens/NoteHistoryScreen';
+import TrashScreen from '../screens/TrashScreen';
+import VaultCheckScreen from '../screens/VaultCheckScreen';
+import AttachmentScreen from '../screens/AttachmentScreen';
+import { NoteAttachment } from '../utils/noteStorage';
+import { navigationRef } from './navigationRef';
 
 // Define the types for your navigation parameters
 export type RootStackParamList = {
-  Login: undefined;
-  Home: undefined;
-  NoteEditor: { noteId?: string; initialContent?: string }; 
+  Login: { resumeNoteId?: string; resumeVaultId?: string } | undefined; // resumeNoteId: note to reopen after an auto-lock, in vault resumeVaultId
+  Home: { trashedNoteId?: string } | undefined; // trashedNoteId: offer to undo that note's deletion
+  NoteEditor: { noteId?: string; initialContent?: string; notebookId?: string; restoredAt?: number }; // notebookId: notebook for a new note; restoredAt: reload after a revision restore
+  ChangePassword: undefined;
+  DuressPassword: undefined;
+  Settings: undefined;
+  RecoveryPhrase: { onboarding?: boolean };
+  RecoverAccess: undefined;
+  Backup: undefined;
+  NoteHistory: { noteId: string };
+  Trash: undefined;
+  VaultCheck: undefined;
+  Attachment: { noteId: string; attachment: NoteAttachment };
 };
 
 const Stack = createStackNavigator<RootStackParamList>();
 
 const AppNavigator = () => {
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef}>
       <Stack.Navigator
         initialRouteName="Login" 
         screenOptions={{
@@ -27,6 +49,16 @@ const AppNavigator = () => {
         <Stack.Screen name="Login" component={LoginScreen} />
         <Stack.Screen name="Home" component={HomeScreen} />
         <Stack.Screen name="NoteEditor" component={NoteEditorScreen} />
+        <Stack.Screen name="ChangePassword" component={ChangePasswordScreen} />
+        <Stack.Screen name="DuressPassword" component={DuressPasswordScreen} />
+        <Stack.Screen name="Settings" component={SettingsScreen} />
+        <Stack.Screen name="RecoveryPhrase" component={RecoveryPhraseScreen} />
+        <Stack.Screen name="RecoverAccess" component={RecoverAccessScreen} />
+        <Stack.Screen name="Backup" component={BackupScreen} />
+        <Stack.Screen name="NoteHistory" component={NoteHistoryScreen} />
+        <Stack.Screen name="Trash" component={TrashScreen} />
+        <Stack.Screen name="VaultCheck" component={VaultCheckScreen} />
+        <Stack.Screen name="Attachment" component={AttachmentScreen} />
       </Stack.Navigator>
     </NavigationContainer>
   );
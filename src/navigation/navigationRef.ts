@@ -0,0 +1,6 @@
+// src/navigation/navigationRef.ts
+import { createNavigationContainerRef } from '@react-navigation/native';
+import { RootStackParamList } from './AppNavigator';
+
+// Lets code outside the screens (e.g. auto-lock in CryptoContext) navigate
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
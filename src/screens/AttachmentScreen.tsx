@@ -0,0 +1,247 @@
+// src/screens/AttachmentScreen.tsx
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator, ScrollView, Image } from 'react-native';
+import { StackScreenProps } from '@react-navigation/stack';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import CryptoJS from 'crypto-js';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useCrypto } from '../contexts/CryptoContext';
+import { decryptAttachmentToFile, loadAttachment, removeAttachment } from '../utils/noteStorage';
+import { DecryptionError, randomWordArray } from '../utils/crypto';
+import { Ionicons } from '@expo/vector-icons';
+
+type AttachmentScreenProps = StackScreenProps<RootStackParamList, 'Attachment'>;
+
+const TEXT_MIME_PATTERN = /^text\/|^application\/(json|xml)$/;
+// The only part of the attachment's name that goes into the export's file name
+const FILE_EXTENSION_PATTERN = /\.[A-Za-z0-9]{1,10}$/;
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const AttachmentScreen: React.FC<AttachmentScreenProps> = ({ navigation, route }) => {
+  const { noteId, attachment } = route.params;
+  const { encryptionKey } = useCrypto();
+  // Decrypted contents, base64 encoded. Only ever held in memory.
+  const [data, setData] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      if (!encryptionKey) {
+        return;
+      }
+      try {
+        setData(await loadAttachment(noteId, attachment.id, encryptionKey));
+      } catch (e) {
+        console.error('Error loading attachment:', e);
+        Alert.alert(
+          'Error',
+          e instanceof DecryptionError
+            ? 'This attachment failed its integrity check and cannot be shown.'
+            : 'Failed to load this attachment.'
+        );
+        navigation.goBack();
+      }
+    };
+    load();
+  }, [noteId, attachment.id, encryptionKey, navigation]);
+
+  const handleDelete = () => {
+    Alert.alert('Remove Attachment', `Remove "${attachment.name}" from this note? This cannot be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          if (!encryptionKey) {
+            return;
+          }
+          try {
+            setBusy(true);
+            await removeAttachment(noteId, attachment.id, encryptionKey);
+            navigation.goBack();
+          } catch (e) {
+            console.error('Error removing attachment:', e);
+            Alert.alert('Error', 'Failed to remove the attachment. Please try again.');
+            setBusy(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  // Sharing needs a real file, so this is the one place a decrypted copy touches the disk
+  const exportAttachment = async () => {
+    if (!encryptionKey) {
+      return;
+    }
+    if (!(await Sharing.isAvailableAsync())) {
+      Alert.alert('Error', 'Sharing is not available on this device.');
+      return;
+    }
+    // A generated name: the attachment's own could be "..", and the copy is deleted afterwards
+    const extension = attachment.name.match(FILE_EXTENSION_PATTERN)?.[0] ?? '';
+    const uri = `${FileSystem.cacheDirectory}export-${randomWordArray(8).toString()}${extension}`;
+    try {
+      setBusy(true);
+      await decryptAttachmentToFile(noteId, attachment.id, uri, encryptionKey);
+      await Sharing.shareAsync(uri, { mimeType: attachment.mimeType, dialogTitle: attachment.name });
+    } catch (e) {
+      console.error('Error exporting attachment:', e);
+      Alert.alert('Error', 'Failed to export the attachment.');
+    } finally {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+      setBusy(false);
+    }
+  };
+
+  const handleExport = () => {
+    Alert.alert(
+      'Export Attachment',
+      'The file leaves CipherNote unencrypted. A temporary copy is made for sharing and deleted afterwards.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Export', onPress: exportAttachment },
+      ]
+    );
+  };
+
+  const renderContent = () => {
+    if (data === null || busy) {
+      return (
+        <View style={styles.centerMessage}>
+          <ActivityIndicator size="large" color="#00f2ea" />
+        </View>
+      );
+    }
+    if (attachment.mimeType.startsWith('image/')) {
+      return (
+        <Image
+          source={{ uri: `data:${attachment.mimeType};base64,${data}` }}
+          style={styles.image}
+          resizeMode="contain"
+        />
+      );
+    }
+    if (TEXT_MIME_PATTERN.test(attachment.mimeType)) {
+      let text: string | null = null;
+      try {
+        text = CryptoJS.enc.Base64.parse(data).toString(CryptoJS.enc.Utf8);
+      } catch (e) {
+        console.warn('WARN: Attachment is not valid UTF-8, showing no preview.', e);
+      }
+      if (text !== null) {
+        return (
+          <ScrollView contentContainerStyle={styles.textContent}>
+            <Text style={styles.text}>{text}</Text>
+          </ScrollView>
+        );
+      }
+    }
+    return (
+      <View style={styles.centerMessage}>
+        <Ionicons name="document-outline" size={80} color="#00f2ea" style={styles.fileIcon} />
+        <Text style={styles.infoText}>No preview for this type of file. Export it to open it in another app.</Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton} disabled={busy}>
+          <Ionicons name="arrow-back" size={28} color="#00f2ea" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>{attachment.name}</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity onPress={handleExport} style={styles.headerButton} disabled={busy || data === null}>
+            <Ionicons name="share-outline" size={28} color="#00f2ea" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleDelete} style={styles.headerButton} disabled={busy}>
+            <Ionicons name="trash-outline" size={28} color="#ff6347" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <Text style={styles.detailsText}>
+        {attachment.mimeType} · {formatFileSize(attachment.size)} · added{' '}
+        {new Date(attachment.addedAt).toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' })}
+      </Text>
+      {renderContent()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 50,
+    paddingHorizontal: 15,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#00f2ea',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginHorizontal: 10,
+  },
+  headerButton: {
+    padding: 5,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  detailsText: {
+    color: '#aaa',
+    fontSize: 13,
+    paddingHorizontal: 15,
+    paddingVertical: 10,
+  },
+  centerMessage: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  fileIcon: {
+    marginBottom: 20,
+    opacity: 0.7,
+  },
+  infoText: {
+    color: '#888',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  image: {
+    flex: 1,
+    margin: 15,
+  },
+  textContent: {
+    padding: 15,
+  },
+  text: {
+    color: '#fff',
+    fontSize: 16,
+  },
+});
+
+export default AttachmentScreen;
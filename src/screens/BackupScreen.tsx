@@ -0,0 +1,389 @@
+// src/screens/BackupScreen.tsx
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, ScrollView } from 'react-native';
+import { StackScreenProps } from '@react-navigation/stack';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useCrypto } from '../contexts/CryptoContext';
+import {
+  BackupError,
+  countImportCollisions,
+  exportBackup,
+  importBackup,
+  ImportCollisionStrategy,
+  readBackup,
+} from '../utils/backup';
+import { Ionicons } from '@expo/vector-icons';
+
+type BackupScreenProps = StackScreenProps<RootStackParamList, 'Backup'>;
+
+const COLLISION_OPTIONS: { label: string; value: ImportCollisionStrategy; description: string }[] = [
+  { label: 'Skip', value: 'skip', description: 'left unchanged' },
+  { label: 'Overwrite', value: 'overwrite', description: 'replaced by the backup copy' },
+  { label: 'Keep both', value: 'keep-both', description: 'kept, with the backup copy added as a new note' },
+];
+
+const BackupScreen: React.FC<BackupScreenProps> = ({ navigation }) => {
+  const { encryptionKey } = useCrypto();
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [confirmExportPassphrase, setConfirmExportPassphrase] = useState('');
+  const [importFile, setImportFile] = useState<{ uri: string; name: string } | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [collisionStrategy, setCollisionStrategy] = useState<ImportCollisionStrategy>('skip');
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const working = progress !== null;
+
+  const handleExport = async () => {
+    if (!encryptionKey) {
+      return;
+    }
+    if (!exportPassphrase || !confirmExportPassphrase) {
+      setError('Please enter and confirm a backup passphrase.');
+      return;
+    }
+    if (exportPassphrase !== confirmExportPassphrase) {
+      setError('Backup passphrases do not match.');
+      return;
+    }
+    if (!(await Sharing.isAvailableAsync())) {
+      setError('Sharing is not available on this device.');
+      return;
+    }
+    setError(null);
+    setProgress('Preparing backup...');
+    let backupUri: string | null = null;
+    try {
+      backupUri = await exportBackup(exportPassphrase, encryptionKey, (done, total) => {
+        setProgress(`Reading note ${done} of ${total}...`);
+      });
+      setProgress('Waiting for share sheet...');
+      await Sharing.shareAsync(backupUri, {
+        mimeType: 'application/octet-stream',
+        dialogTitle: 'Save CipherNote backup',
+      });
+      setExportPassphrase('');
+      setConfirmExportPassphrase('');
+    } catch (e) {
+      console.error('Error exporting backup:', e);
+      setError('Failed to export backup. Please try again.');
+    } finally {
+      if (backupUri) {
+        // The shared copy is all the user needs; don't leave one in the cache
+        await FileSystem.deleteAsync(backupUri, { idempotent: true });
+      }
+      setProgress(null);
+    }
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+      if (result.canceled) {
+        return;
+      }
+      const asset = result.assets[0];
+      setImportFile({ uri: asset.uri, name: asset.name });
+      setError(null);
+    } catch (e) {
+      console.error('Error picking backup file:', e);
+      setError('Could not open the selected file.');
+    }
+  };
+
+  const runImport = async (
+    backup: Awaited<ReturnType<typeof readBackup>>,
+    file: { uri: string; name: string }
+  ) => {
+    if (!encryptionKey) {
+      return;
+    }
+    setProgress('Restoring notes...');
+    try {
+      const result = await importBackup(backup, encryptionKey, collisionStrategy, (done, total) => {
+        setProgress(`Restoring note ${done} of ${total}...`);
+      });
+      await FileSystem.deleteAsync(file.uri, { idempotent: true });
+      setImportFile(null);
+      setImportPassphrase('');
+      Alert.alert(
+        'Backup Restored',
+        `Added: ${result.added}\nOverwritten: ${result.overwritten}\nKept both: ${result.duplicated}\nSkipped: ${result.skipped}`
+      );
+    } catch (e) {
+      console.error('Error importing backup:', e);
+      setError('Failed to restore the backup. Notes restored so far have been kept.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!encryptionKey || !importFile) {
+      return;
+    }
+    if (!importPassphrase) {
+      setError('Please enter the backup passphrase.');
+      return;
+    }
+    setError(null);
+    setProgress('Decrypting backup...');
+    const file = importFile;
+    try {
+      const backup = await readBackup(file.uri, importPassphrase);
+      const collisions = await countImportCollisions(backup, encryptionKey);
+      setProgress(null);
+
+      const strategy = COLLISION_OPTIONS.find(option => option.value === collisionStrategy)!;
+      const collisionText = collisions > 0
+        ? `\n\n${collisions} of them already exist on this device and will be ${strategy.description}.`
+        : '';
+      Alert.alert(
+        'Restore Backup?',
+        `The backup contains ${backup.notes.length} note(s).${collisionText}`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Restore', onPress: () => runImport(backup, file) },
+        ]
+      );
+    } catch (e) {
+      setProgress(null);
+      if (e instanceof BackupError) {
+        setError(e.message);
+      } else {
+        console.error('Error reading backup:', e);
+        setError('Failed to read the backup file.');
+      }
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton} disabled={working}>
+          <Ionicons name="arrow-back" size={28} color="#00f2ea" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Backup & Restore</Text>
+        <View style={styles.headerButtonPlaceholder} />
+      </View>
+
+      {working ? (
+        <View style={styles.workingContainer}>
+          <ActivityIndicator size="large" color="#00f2ea" />
+          <Text style={styles.progressText}>{progress}</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <Text style={styles.sectionTitle}>Export</Text>
+          <Text style={styles.infoText}>
+            Saves every note into one file encrypted with a separate backup passphrase. Without that passphrase the
+            backup cannot be restored.
+          </Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Backup Passphrase"
+            placeholderTextColor="#888"
+            secureTextEntry
+            value={exportPassphrase}
+            onChangeText={setExportPassphrase}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Confirm Backup Passphrase"
+            placeholderTextColor="#888"
+            secureTextEntry
+            value={confirmExportPassphrase}
+            onChangeText={setConfirmExportPassphrase}
+          />
+          <TouchableOpacity style={styles.button} onPress={handleExport}>
+            <Text style={styles.buttonText}>Export Backup</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.sectionTitle}>Import</Text>
+          <TouchableOpacity style={styles.fileButton} onPress={handlePickFile}>
+            <Ionicons name="document-outline" size={22} color="#00f2ea" />
+            <Text style={styles.fileButtonText} numberOfLines={1}>
+              {importFile ? importFile.name : 'Choose backup file'}
+            </Text>
+          </TouchableOpacity>
+          <TextInput
+            style={styles.input}
+            placeholder="Backup Passphrase"
+            placeholderTextColor="#888"
+            secureTextEntry
+            value={importPassphrase}
+            onChangeText={setImportPassphrase}
+          />
+          <Text style={styles.optionTitle}>If a note already exists</Text>
+          <View style={styles.optionChips}>
+            {COLLISION_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.optionChip, option.value === collisionStrategy && styles.optionChipSelected]}
+                onPress={() => setCollisionStrategy(option.value)}
+              >
+                <Text style={[styles.optionChipText, option.value === collisionStrategy && styles.optionChipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TouchableOpacity
+            style={[styles.button, !importFile && styles.buttonDisabled]}
+            onPress={handleImport}
+            disabled={!importFile}
+          >
+            <Text style={styles.buttonText}>Restore Backup</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 50,
+    paddingHorizontal: 15,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#00f2ea',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  headerButton: {
+    padding: 5,
+  },
+  headerButtonPlaceholder: {
+    width: 38,
+    height: 38,
+  },
+  content: {
+    alignItems: 'center',
+    padding: 20,
+  },
+  workingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  progressText: {
+    color: '#fff',
+    marginTop: 10,
+    fontSize: 16,
+  },
+  sectionTitle: {
+    alignSelf: 'flex-start',
+    color: '#00f2ea',
+    fontSize: 14,
+    fontWeight: 'bold',
+    textTransform: 'uppercase',
+    marginTop: 10,
+    marginBottom: 10,
+  },
+  infoText: {
+    color: '#aaa',
+    textAlign: 'center',
+    marginBottom: 15,
+    fontSize: 14,
+    paddingHorizontal: 10,
+  },
+  input: {
+    width: '90%',
+    padding: 15,
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    color: '#fff',
+    fontSize: 16,
+    marginBottom: 15,
+    borderWidth: 1,
+    borderColor: '#00f2ea',
+  },
+  fileButton: {
+    width: '90%',
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 15,
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    marginBottom: 15,
+  },
+  fileButtonText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 16,
+    marginLeft: 10,
+  },
+  optionTitle: {
+    width: '90%',
+    color: '#fff',
+    fontSize: 16,
+  },
+  optionChips: {
+    width: '90%',
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 10,
+    marginBottom: 5,
+  },
+  optionChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#888',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionChipSelected: {
+    backgroundColor: '#00f2ea',
+    borderColor: '#00f2ea',
+  },
+  optionChipText: {
+    color: '#aaa',
+    fontSize: 14,
+  },
+  optionChipTextSelected: {
+    color: '#121212',
+    fontWeight: 'bold',
+  },
+  button: {
+    width: '90%',
+    padding: 15,
+    backgroundColor: '#00f2ea',
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 10,
+    marginBottom: 20,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: '#121212',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  errorText: {
+    color: '#ff6347',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+});
+
+export default BackupScreen;
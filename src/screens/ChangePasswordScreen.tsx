@@ -0,0 +1,190 @@
+// src/screens/ChangePasswordScreen.tsx
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { StackScreenProps } from '@react-navigation/stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useCrypto } from '../contexts/CryptoContext';
+import { changeMasterPassword, VaultWipedError } from '../utils/vault';
+import { Ionicons } from '@expo/vector-icons';
+
+type ChangePasswordScreenProps = StackScreenProps<RootStackParamList, 'ChangePassword'>;
+
+const ChangePasswordScreen: React.FC<ChangePasswordScreenProps> = ({ navigation }) => {
+  const { setEncryptionKey } = useCrypto();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const handleChangePassword = async () => {
+    if (!currentPassword || !newPassword || !confirmPassword) {
+      setError('Please fill in all password fields.');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match.');
+      return;
+    }
+    if (newPassword === currentPassword) {
+      setError('The new password must be different from the current one.');
+      return;
+    }
+    setError(null);
+    setWorking(true);
+    try {
+      const vaultKey = await changeMasterPassword(currentPassword, newPassword);
+      setEncryptionKey(vaultKey);
+      Alert.alert('Password Changed', 'Your master password has been changed.');
+      navigation.goBack();
+    } catch (e) {
+      if (e instanceof VaultWipedError) {
+        setEncryptionKey(null);
+        Alert.alert('Vault Erased', 'Too many failed attempts. All notes and keys have been erased from this device.');
+        navigation.reset({ index: 0, routes: [{ name: 'Login' }] });
+        return;
+      }
+      console.error('Error changing master password:', e);
+      setError(e instanceof Error ? e.message : 'Failed to change master password. Your notes were not modified.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton} disabled={working}>
+          <Ionicons name="arrow-back" size={28} color="#00f2ea" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Change Password</Text>
+        <View style={styles.headerButtonPlaceholder} />
+      </View>
+
+      <View style={styles.content}>
+        <Text style={styles.infoText}>
+          Your notes stay encrypted with the same vault key; only the key protecting it is replaced.
+        </Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Current Master Password"
+          placeholderTextColor="#888"
+          secureTextEntry
+          value={currentPassword}
+          onChangeText={setCurrentPassword}
+          editable={!working}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="New Master Password"
+          placeholderTextColor="#888"
+          secureTextEntry
+          value={newPassword}
+          onChangeText={setNewPassword}
+          editable={!working}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Confirm New Master Password"
+          placeholderTextColor="#888"
+          secureTextEntry
+          value={confirmPassword}
+          onChangeText={setConfirmPassword}
+          editable={!working}
+        />
+        {error && <Text style={styles.errorText}>{error}</Text>}
+        {working ? (
+          <View style={styles.progressContainer}>
+            <ActivityIndicator size="large" color="#00f2ea" />
+            <Text style={styles.progressText}>Updating password...</Text>
+          </View>
+        ) : (
+          <TouchableOpacity style={styles.button} onPress={handleChangePassword}>
+            <Text style={styles.buttonText}>Change Password</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 50,
+    paddingHorizontal: 15,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#00f2ea',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  headerButton: {
+    padding: 5,
+  },
+  headerButtonPlaceholder: {
+    width: 38,
+    height: 38,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    padding: 20,
+  },
+  infoText: {
+    color: '#aaa',
+    textAlign: 'center',
+    marginBottom: 20,
+    fontSize: 14,
+    paddingHorizontal: 10,
+  },
+  input: {
+    width: '90%',
+    padding: 15,
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    color: '#fff',
+    fontSize: 16,
+    marginBottom: 15,
+    borderWidth: 1,
+    borderColor: '#00f2ea',
+  },
+  button: {
+    width: '90%',
+    padding: 15,
+    backgroundColor: '#00f2ea',
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  buttonText: {
+    color: '#121212',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  errorText: {
+    color: '#ff6347',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  progressContainer: {
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  progressText: {
+    color: '#fff',
+    marginTop: 10,
+    fontSize: 16,
+  },
+});
+
+export default ChangePasswordScreen;
@@ -0,0 +1,273 @@
+// src/screens/DuressPasswordScreen.tsx
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, ScrollView } from 'react-native';
+import { StackScreenProps } from '@react-navigation/stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useCrypto } from '../contexts/CryptoContext';
+import { getDuressSettings, setDuressPassword } from '../utils/duress';
+import { removeDuressPassword } from '../utils/vault';
+import { Ionicons } from '@expo/vector-icons';
+
+type DuressPasswordScreenProps = StackScreenProps<RootStackParamList, 'DuressPassword'>;
+
+const DuressPasswordScreen: React.FC<DuressPasswordScreenProps> = ({ navigation }) => {
+  const { encryptionKey } = useCrypto();
+  const [configured, setConfigured] = useState<boolean | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [wipeRealVault, setWipeRealVault] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      if (!encryptionKey) {
+        return;
+      }
+      try {
+        const settings = await getDuressSettings(encryptionKey);
+        setConfigured(settings !== null);
+        setWipeRealVault(settings?.wipeRealVault ?? false);
+      } catch (e) {
+        console.error('Error loading duress settings:', e);
+        Alert.alert('Error', 'Failed to load the duress password settings.');
+        navigation.goBack();
+      }
+    };
+    load();
+  }, [encryptionKey, navigation]);
+
+  const handleSave = async () => {
+    if (!encryptionKey) {
+      return;
+    }
+    if (!password || !confirmPassword) {
+      setError('Please fill in both password fields.');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+    setError(null);
+    setWorking(true);
+    try {
+      await setDuressPassword(encryptionKey, password, wipeRealVault);
+      Alert.alert(
+        'Duress Password Set',
+        'Lock the app and unlock it once with the duress password to add a few ordinary-looking notes to the decoy vault.'
+      );
+      navigation.goBack();
+    } catch (e) {
+      console.error('Error setting duress password:', e);
+      setError(e instanceof Error ? e.message : 'Failed to set the duress password.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRemove = () => {
+    Alert.alert(
+      'Remove Duress Password',
+      'The duress password stops working, and the decoy vault and all of its notes are erased.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            if (!encryptionKey) {
+              return;
+            }
+            try {
+              setWorking(true);
+              await removeDuressPassword(encryptionKey);
+              navigation.goBack();
+            } catch (e) {
+              console.error('Error removing duress password:', e);
+              Alert.alert('Error', 'Failed to remove the duress password. Please try again.');
+              setWorking(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton} disabled={working}>
+          <Ionicons name="arrow-back" size={28} color="#00f2ea" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Duress Password</Text>
+        <View style={styles.headerButtonPlaceholder} />
+      </View>
+
+      {configured === null ? (
+        <View style={styles.progressContainer}>
+          <ActivityIndicator size="large" color="#00f2ea" />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.infoText}>
+            If you are ever forced to unlock CipherNote, enter the duress password instead of your master password.
+            It opens a separate decoy vault that looks and behaves like this one. Nothing on the device shows that a
+            duress password is set. Biometric unlock always opens this vault, so turn it off if it could be forced too.
+          </Text>
+          <Text style={styles.statusText}>
+            {configured ? 'A duress password is set. Saving replaces it; the decoy notes are kept.' : 'No duress password is set.'}
+          </Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Duress Password"
+            placeholderTextColor="#888"
+            secureTextEntry
+            value={password}
+            onChangeText={setPassword}
+            editable={!working}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Confirm Duress Password"
+            placeholderTextColor="#888"
+            secureTextEntry
+            value={confirmPassword}
+            onChangeText={setConfirmPassword}
+            editable={!working}
+          />
+          <TouchableOpacity style={styles.checkboxRow} onPress={() => setWipeRealVault(!wipeRealVault)} disabled={working}>
+            <Ionicons name={wipeRealVault ? 'checkbox' : 'square-outline'} size={24} color="#ff6347" />
+            <Text style={styles.checkboxText}>
+              Also erase this vault, silently and for good, when the duress password is used
+            </Text>
+          </TouchableOpacity>
+          {error && <Text style={styles.errorText}>{error}</Text>}
+          {working ? (
+            <View style={styles.progressContainer}>
+              <ActivityIndicator size="large" color="#00f2ea" />
+              <Text style={styles.progressText}>Saving...</Text>
+            </View>
+          ) : (
+            <>
+              <TouchableOpacity style={styles.button} onPress={handleSave}>
+                <Text style={styles.buttonText}>{configured ? 'Change Duress Password' : 'Set Duress Password'}</Text>
+              </TouchableOpacity>
+              {configured && (
+                <TouchableOpacity style={styles.linkButton} onPress={handleRemove}>
+                  <Text style={styles.removeText}>Remove Duress Password</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 50,
+    paddingHorizontal: 15,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#00f2ea',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  headerButton: {
+    padding: 5,
+  },
+  headerButtonPlaceholder: {
+    width: 38,
+    height: 38,
+  },
+  content: {
+    alignItems: 'center',
+    padding: 20,
+  },
+  infoText: {
+    color: '#aaa',
+    textAlign: 'center',
+    marginBottom: 15,
+    fontSize: 14,
+    paddingHorizontal: 10,
+  },
+  statusText: {
+    color: '#fff',
+    textAlign: 'center',
+    marginBottom: 20,
+    fontSize: 14,
+  },
+  input: {
+    width: '90%',
+    padding: 15,
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    color: '#fff',
+    fontSize: 16,
+    marginBottom: 15,
+    borderWidth: 1,
+    borderColor: '#00f2ea',
+  },
+  checkboxRow: {
+    width: '90%',
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  checkboxText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    marginLeft: 10,
+  },
+  button: {
+    width: '90%',
+    padding: 15,
+    backgroundColor: '#00f2ea',
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  buttonText: {
+    color: '#121212',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  linkButton: {
+    marginTop: 20,
+    padding: 5,
+  },
+  removeText: {
+    color: '#ff6347',
+    fontSize: 16,
+  },
+  errorText: {
+    color: '#ff6347',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  progressContainer: {
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  progressText: {
+    color: '#fff',
+    marginTop: 10,
+    fontSize: 16,
+  },
+});
+
+export default DuressPasswordScreen;
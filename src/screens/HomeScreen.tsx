@@ -1,15 +1,51 @@
 // src/screens/HomeScreen.tsx
-import React, { useState, useEffect, useCallback } from 'react';
-import { View, Text, StyleSheet, FlatList, TouchableOpacity, Alert, RefreshControl, ActivityIndicator } from 'react-native';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  RefreshControl,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
 import { StackScreenProps } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { useCrypto } from '../contexts/CryptoContext';
-import { getAllNoteMetadata, StoredNoteMetadata, generateNoteId, deleteNote } from '../utils/noteStorage';
+import {
+  getAllNoteMetadata,
+  StoredNoteMetadata,
+  generateNoteId,
+  trashNote,
+  restoreNote,
+  buildSearchIndex,
+  getNotebooks,
+  createNotebook,
+  renameNotebook,
+  deleteNotebook,
+  renameTag,
+  deleteTag,
+  Notebook,
+} from '../utils/noteStorage';
+import { searchNotes, SearchResult } from '../utils/search';
+import TextPromptModal from '../components/TextPromptModal';
 import { Ionicons } from '@expo/vector-icons'; // For the floating action button icon
 
 // Props for HomeScreen
 type HomeScreenProps = StackScreenProps<RootStackParamList, 'Home'>;
 
+// Which name prompt is open on the home screen, if any
+type NamePrompt =
+  | { kind: 'create-notebook' }
+  | { kind: 'rename-notebook'; notebook: Notebook }
+  | { kind: 'rename-tag'; tag: string };
+
+const UNDO_SNACKBAR_MS = 5000; // How long "Undo" stays on screen after a delete
+const ERASE_CONFIRMATION_WORD = 'ERASE'; // Must be typed to erase all data
+
 // Helper function for date formatting
 const formatNoteDate = (timestamp: number): string => {
   const noteDate = new Date(timestamp);
@@ -29,24 +65,44 @@ const formatNoteDate = (timestamp: number): string => {
   }
 };
 
-const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
+const HomeScreen: React.FC<HomeScreenProps> = ({ navigation, route }) => {
   const { isAuthenticated, encryptionKey, clearAllCryptoData } = useCrypto();
   const [notes, setNotes] = useState<StoredNoteMetadata[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [query, setQuery] = useState('');
+  const [searchReady, setSearchReady] = useState(false);
+  const [notebooks, setNotebooks] = useState<Notebook[]>([]);
+  const [selectedNotebookId, setSelectedNotebookId] = useState<string | null>(null); // null shows every note
+  const [selectedTags, setSelectedTags] = useState<string[]>([]); // Lower-cased; notes must have all of them
+  const [namePrompt, setNamePrompt] = useState<NamePrompt | null>(null);
+  const [undoNoteId, setUndoNoteId] = useState<string | null>(null); // Just trashed; the snackbar offers to restore it
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [erasePromptVisible, setErasePromptVisible] = useState(false);
+  const [eraseProgress, setEraseProgress] = useState<string | null>(null); // Set while erasing all data
 
   // Function to load notes from storage
   const loadNotes = useCallback(async () => {
     setLoading(true);
     setRefreshing(true);
     try {
-      if (!isAuthenticated) {
+      if (!isAuthenticated || !encryptionKey) {
         setNotes([]);
         navigation.replace('Login');
         return;
       }
-      const loadedNotes = await getAllNoteMetadata();
+      const loadedNotes = await getAllNoteMetadata(encryptionKey);
+      const loadedNotebooks = await getNotebooks(encryptionKey);
       setNotes(loadedNotes);
+      setNotebooks(loadedNotebooks);
+      // Drop filters pointing at notebooks or tags that no longer exist
+      setSelectedNotebookId(current => (loadedNotebooks.some(notebook => notebook.id === current) ? current : null));
+      const existingTags = new Set(loadedNotes.flatMap(note => note.tags.map(tag => tag.toLowerCase())));
+      setSelectedTags(current => current.filter(tag => existingTags.has(tag)));
+      // Decrypts every note once per unlock; runs in the background so the list shows immediately
+      buildSearchIndex(encryptionKey)
+        .then(() => setSearchReady(true))
+        .catch(e => console.error('Error building search index:', e));
     } catch (e) {
       console.error('Error loading notes:', e);
       Alert.alert('Error', 'Failed to load notes. Please restart the app.');
@@ -54,7 +110,7 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
       setLoading(false);
       setRefreshing(false);
     }
-  }, [isAuthenticated, navigation]);
+  }, [isAuthenticated, encryptionKey, navigation]);
 
   // Load notes when component mounts or authentication status changes
   useEffect(() => {
@@ -68,70 +124,234 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     return unsubscribe;
   }, [navigation, loadNotes]);
 
+  const showUndoSnackbar = useCallback((noteId: string) => {
+    if (undoTimerRef.current) {
+      clearTimeout(undoTimerRef.current);
+    }
+    setUndoNoteId(noteId);
+    undoTimerRef.current = setTimeout(() => setUndoNoteId(null), UNDO_SNACKBAR_MS);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (undoTimerRef.current) {
+        clearTimeout(undoTimerRef.current);
+      }
+    };
+  }, []);
+
+  // A note deleted from the editor comes back here with its ID
+  const trashedNoteId = route.params?.trashedNoteId;
+  useEffect(() => {
+    if (trashedNoteId) {
+      showUndoSnackbar(trashedNoteId);
+      navigation.setParams({ trashedNoteId: undefined });
+    }
+  }, [trashedNoteId, showUndoSnackbar, navigation]);
+
+  const notebookCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const note of notes) {
+      if (note.notebookId) {
+        counts.set(note.notebookId, (counts.get(note.notebookId) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }, [notes]);
+
+  const notebookNotes = useMemo(
+    () => (selectedNotebookId ? notes.filter(note => note.notebookId === selectedNotebookId) : notes),
+    [notes, selectedNotebookId]
+  );
+
+  // Tags used in the current notebook, most used first
+  const tagCounts = useMemo(() => {
+    const counts = new Map<string, { tag: string; count: number }>();
+    for (const note of notebookNotes) {
+      for (const tag of note.tags) {
+        const key = tag.toLowerCase();
+        const existing = counts.get(key);
+        counts.set(key, { tag: existing?.tag ?? tag, count: (existing?.count ?? 0) + 1 });
+      }
+    }
+    return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }, [notebookNotes]);
+
+  const visibleNotes = useMemo(
+    () =>
+      notebookNotes.filter(note =>
+        selectedTags.every(selected => note.tags.some(tag => tag.toLowerCase() === selected))
+      ),
+    [notebookNotes, selectedTags]
+  );
+
+  // Re-run when notes reload, since saves and deletes elsewhere update the search index
+  const searchResults = useMemo(() => {
+    if (!searchReady || !query.trim()) {
+      return [];
+    }
+    const visibleIds = new Set(visibleNotes.map(note => note.id));
+    return searchNotes(query).filter(result => visibleIds.has(result.id));
+  }, [query, searchReady, visibleNotes]);
+
+  const toggleTagFilter = (tag: string) => {
+    const key = tag.toLowerCase();
+    setSelectedTags(current => (current.includes(key) ? current.filter(t => t !== key) : [...current, key]));
+  };
+
+  const handleNamePromptSubmit = async (name: string) => {
+    if (!encryptionKey || !namePrompt) {
+      return;
+    }
+    try {
+      if (namePrompt.kind === 'create-notebook') {
+        const notebook = await createNotebook(name, encryptionKey);
+        setSelectedNotebookId(notebook.id);
+      } else if (namePrompt.kind === 'rename-notebook') {
+        await renameNotebook(namePrompt.notebook.id, name, encryptionKey);
+      } else {
+        await renameTag(namePrompt.tag, name, encryptionKey);
+        setSelectedTags(current => current.map(tag => (tag === namePrompt.tag.toLowerCase() ? name.toLowerCase() : tag)));
+      }
+      setNamePrompt(null);
+      loadNotes();
+    } catch (e) {
+      console.error('Error saving name:', e);
+      Alert.alert('Error', e instanceof Error ? e.message : 'Failed to save. Please try again.');
+    }
+  };
+
+  const handleNotebookOptions = (notebook: Notebook) => {
+    Alert.alert(notebook.name, undefined, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Rename', onPress: () => setNamePrompt({ kind: 'rename-notebook', notebook }) },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          Alert.alert(
+            'Delete Notebook',
+            `Delete "${notebook.name}"? Its ${notebookCounts.get(notebook.id) ?? 0} note(s) are kept and moved out of the notebook.`,
+            [
+              { text: 'Cancel', style: 'cancel' },
+              {
+                text: 'Delete',
+                style: 'destructive',
+                onPress: async () => {
+                  if (!encryptionKey) {
+                    return;
+                  }
+                  try {
+                    await deleteNotebook(notebook.id, encryptionKey);
+                    loadNotes();
+                  } catch (e) {
+                    console.error('Error deleting notebook:', e);
+                    Alert.alert('Error', 'Failed to delete notebook. Please try again.');
+                  }
+                },
+              },
+            ]
+          ),
+      },
+    ]);
+  };
+
+  const handleTagOptions = (tag: string) => {
+    Alert.alert(`#${tag}`, undefined, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Rename', onPress: () => setNamePrompt({ kind: 'rename-tag', tag }) },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          if (!encryptionKey) {
+            return;
+          }
+          try {
+            // Removes the tag from every note; the notes themselves are kept
+            await deleteTag(tag, encryptionKey);
+            loadNotes();
+          } catch (e) {
+            console.error('Error deleting tag:', e);
+            Alert.alert('Error', 'Failed to delete tag. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
   const handleCreateNewNote = () => {
-    navigation.navigate('NoteEditor', { initialContent: '' });
+    navigation.navigate('NoteEditor', { initialContent: '', notebookId: selectedNotebookId ?? undefined });
   };
 
   const handleOpenNote = (noteId: string) => {
     navigation.navigate('NoteEditor', { noteId });
   };
 
-  const handleDeleteNote = (noteId: string) => {
-    Alert.alert(
-      'Delete Note',
-      'Are you sure you want to permanently delete this note?',
-      [
-        {
-          text: 'Cancel',
-          style: 'cancel',
-        },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              setLoading(true);
-              await deleteNote(noteId);
-              Alert.alert('Deleted', 'Note successfully deleted.');
-              loadNotes(); // Reload the list after deletion
-            } catch (e) {
-              console.error('Error deleting note:', e);
-              Alert.alert('Error', 'Failed to delete note. Please try again.');
-            } finally {
-              setLoading(false);
-            }
-          },
-        },
-      ]
-    );
+  // No confirmation: the note goes to the trash, and the snackbar offers to undo it
+  const handleDeleteNote = async (noteId: string) => {
+    if (!encryptionKey) {
+      Alert.alert('Error', 'Cannot delete note without proper authentication.');
+      return;
+    }
+    try {
+      await trashNote(noteId, encryptionKey);
+      showUndoSnackbar(noteId);
+      loadNotes(); // Reload the list after deletion
+    } catch (e) {
+      console.error('Error deleting note:', e);
+      Alert.alert('Error', 'Failed to delete note. Please try again.');
+    }
   };
 
-  const handleClearAllData = () => {
-    Alert.alert(
-      'Clear All Data',
-      'This will permanently delete your master password and ALL notes from this device. Are you absolutely sure?',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Delete All',
-          style: 'destructive',
-          onPress: async () => {
-            await clearAllCryptoData();
-          },
-        },
-      ]
-    );
+  const handleUndoDelete = async () => {
+    if (!encryptionKey || !undoNoteId) {
+      return;
+    }
+    const noteId = undoNoteId;
+    setUndoNoteId(null);
+    try {
+      await restoreNote(noteId, encryptionKey);
+      loadNotes();
+    } catch (e) {
+      console.error('Error restoring note:', e);
+      Alert.alert('Error', 'Failed to restore note. It is still in the trash.');
+    }
+  };
+
+  // Erasing can't be undone, so it takes the confirmation word typed out rather than a tap
+  const handleEraseConfirmed = async (typed: string) => {
+    if (typed.toUpperCase() !== ERASE_CONFIRMATION_WORD) {
+      Alert.alert('Not Erased', `Type ${ERASE_CONFIRMATION_WORD} to confirm.`);
+      return;
+    }
+    setErasePromptVisible(false);
+    setEraseProgress('Erasing keys...');
+    await clearAllCryptoData((done, total) => setEraseProgress(`Erasing file ${done} of ${total}...`));
+    setEraseProgress(null);
   };
 
   const renderNoteItem = ({ item }: { item: StoredNoteMetadata }) => {
-    const firstLine = item.content?.split('\n')[0].trim();
-    const previewText = firstLine ? firstLine.substring(0, 80) + (firstLine.length > 80 ? '...' : '') : 'New Note';
     const dateDisplay = formatNoteDate(item.timestamp);
 
     return (
       <View style={styles.noteItemContainer}>
         <TouchableOpacity style={styles.noteItem} onPress={() => handleOpenNote(item.id)}>
-          <Text style={styles.notePreviewText}>{previewText}</Text>
+          <Text style={styles.noteTitleText} numberOfLines={1}>{item.title || 'Untitled Note'}</Text>
+          {!!item.preview && (
+            <Text style={styles.notePreviewText} numberOfLines={2}>{item.preview}</Text>
+          )}
+          {item.checklist && (
+            <View style={styles.noteChecklistRow}>
+              <Ionicons name="checkbox-outline" size={14} color="#aaa" />
+              <Text style={styles.noteChecklistText}>
+                {item.checklist.done}/{item.checklist.total} done
+              </Text>
+            </View>
+          )}
+          {item.tags.length > 0 && (
+            <Text style={styles.noteTagsText} numberOfLines={1}>{item.tags.map(tag => `#${tag}`).join(' ')}</Text>
+          )}
           <Text style={styles.noteTimestamp}>{dateDisplay}</Text>
         </TouchableOpacity>
         <TouchableOpacity style={styles.deleteButton} onPress={() => handleDeleteNote(item.id)}>
@@ -141,20 +361,151 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     );
   };
 
+  const renderSearchResult = ({ item }: { item: SearchResult }) => (
+    <View style={styles.noteItemContainer}>
+      <TouchableOpacity style={styles.noteItem} onPress={() => handleOpenNote(item.id)}>
+        <Text style={styles.noteTitleText} numberOfLines={1}>{item.title || 'Untitled Note'}</Text>
+        <Text style={styles.notePreviewText} numberOfLines={3}>
+          {item.snippet.map((segment, index) => (
+            <Text key={index} style={segment.highlight ? styles.highlightText : undefined}>{segment.text}</Text>
+          ))}
+        </Text>
+        <Text style={styles.noteTimestamp}>{formatNoteDate(item.timestamp)}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.deleteButton} onPress={() => handleDeleteNote(item.id)}>
+        <Ionicons name="trash-outline" size={24} color="#ff6347" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const isSearching = query.trim().length > 0;
+  const isFiltering = selectedNotebookId !== null || selectedTags.length > 0;
+  const namePromptTitle =
+    namePrompt?.kind === 'create-notebook' ? 'New Notebook' : namePrompt?.kind === 'rename-notebook' ? 'Rename Notebook' : 'Rename Tag';
+  const namePromptInitialValue =
+    namePrompt?.kind === 'rename-notebook' ? namePrompt.notebook.name : namePrompt?.kind === 'rename-tag' ? namePrompt.tag : '';
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>CipherNotes</Text>
-        <TouchableOpacity onPress={handleClearAllData} style={styles.clearAllButton}>
-          <Ionicons name="alert-circle-outline" size={28} color="#ff6347" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity onPress={() => navigation.navigate('Trash')} style={styles.headerActionButton}>
+            <Ionicons name="trash-bin-outline" size={28} color="#00f2ea" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => navigation.navigate('Settings')} style={styles.headerActionButton}>
+            <Ionicons name="settings-outline" size={28} color="#00f2ea" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setErasePromptVisible(true)} style={styles.clearAllButton}>
+            <Ionicons name="alert-circle-outline" size={28} color="#ff6347" />
+          </TouchableOpacity>
+        </View>
       </View>
 
-      {loading && !refreshing ? (
+      {notes.length > 0 && (
+        <View style={styles.searchBar}>
+          <Ionicons name="search" size={20} color="#888" />
+          <TextInput
+            style={styles.searchInput}
+            placeholder='Search notes ("phrase", prefix*)'
+            placeholderTextColor="#888"
+            autoCapitalize="none"
+            autoCorrect={false}
+            value={query}
+            onChangeText={setQuery}
+          />
+          {isSearching && (
+            <TouchableOpacity onPress={() => setQuery('')}>
+              <Ionicons name="close-circle" size={20} color="#888" />
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {(notes.length > 0 || notebooks.length > 0) && (
+        <View style={styles.filterBar}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+            <TouchableOpacity
+              style={[styles.filterChip, selectedNotebookId === null && styles.filterChipSelected]}
+              onPress={() => setSelectedNotebookId(null)}
+            >
+              <Text style={[styles.filterChipText, selectedNotebookId === null && styles.filterChipTextSelected]}>
+                All ({notes.length})
+              </Text>
+            </TouchableOpacity>
+            {notebooks.map(notebook => {
+              const selected = notebook.id === selectedNotebookId;
+              return (
+                <TouchableOpacity
+                  key={notebook.id}
+                  style={[styles.filterChip, selected && styles.filterChipSelected]}
+                  onPress={() => setSelectedNotebookId(notebook.id)}
+                  onLongPress={() => handleNotebookOptions(notebook)}
+                >
+                  <Ionicons name="book-outline" size={14} color={selected ? '#121212' : '#aaa'} />
+                  <Text style={[styles.filterChipText, selected && styles.filterChipTextSelected]}>
+                    {' '}{notebook.name} ({notebookCounts.get(notebook.id) ?? 0})
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity style={styles.filterChip} onPress={() => setNamePrompt({ kind: 'create-notebook' })}>
+              <Ionicons name="add" size={16} color="#00f2ea" />
+            </TouchableOpacity>
+          </ScrollView>
+          {tagCounts.length > 0 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+              {tagCounts.map(({ tag, count }) => {
+                const selected = selectedTags.includes(tag.toLowerCase());
+                return (
+                  <TouchableOpacity
+                    key={tag}
+                    style={[styles.tagChip, selected && styles.filterChipSelected]}
+                    onPress={() => toggleTagFilter(tag)}
+                    onLongPress={() => handleTagOptions(tag)}
+                  >
+                    <Text style={[styles.tagChipText, selected && styles.filterChipTextSelected]}>#{tag} ({count})</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+        </View>
+      )}
+
+      {eraseProgress !== null ? (
+        <View style={styles.centerMessage}>
+          <ActivityIndicator size="large" color="#ff6347" />
+          <Text style={styles.loadingText}>{eraseProgress}</Text>
+        </View>
+      ) : isSearching && notes.length > 0 ? (
+        !searchReady ? (
+          <View style={styles.centerMessage}>
+            <ActivityIndicator size="large" color="#00f2ea" />
+            <Text style={styles.loadingText}>Preparing search...</Text>
+          </View>
+        ) : searchResults.length === 0 ? (
+          <View style={styles.centerMessage}>
+            <Text style={styles.emptyStateSubText}>No notes match "{query.trim()}".</Text>
+          </View>
+        ) : (
+          <FlatList
+            data={searchResults}
+            renderItem={renderSearchResult}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.noteListContent}
+            keyboardShouldPersistTaps="handled"
+          />
+        )
+      ) : loading && !refreshing ? (
         <View style={styles.centerMessage}>
           <ActivityIndicator size="large" color="#00f2ea" />
           <Text style={styles.loadingText}>Fetching your secure notes...</Text>
         </View>
+      ) : visibleNotes.length === 0 && isFiltering ? (
+        <View style={styles.centerMessage}>
+          <Text style={styles.emptyStateSubText}>No notes in this notebook or with these tags.</Text>
+        </View>
       ) : notes.length === 0 ? (
         <View style={styles.emptyStateContainer}>
           <Ionicons name="document-text-outline" size={80} color="#00f2ea" style={styles.emptyStateIcon} />
@@ -163,7 +514,7 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
         </View>
       ) : (
         <FlatList
-          data={notes}
+          data={visibleNotes}
           renderItem={renderNoteItem}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.noteListContent}
@@ -180,6 +531,36 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
       <TouchableOpacity style={styles.fab} onPress={handleCreateNewNote}>
         <Ionicons name="add" size={35} color="#121212" />
       </TouchableOpacity>
+
+      {undoNoteId && (
+        <View style={styles.snackbar}>
+          <Text style={styles.snackbarText}>Note moved to trash</Text>
+          <TouchableOpacity onPress={handleUndoDelete} style={styles.snackbarButton}>
+            <Text style={styles.snackbarButtonText}>UNDO</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <TextPromptModal
+        visible={namePrompt !== null}
+        title={namePromptTitle}
+        message={namePrompt?.kind === 'rename-tag' ? 'Every note with this tag is updated.' : undefined}
+        initialValue={namePromptInitialValue}
+        placeholder={namePrompt?.kind === 'rename-tag' ? 'Tag' : 'Notebook name'}
+        confirmLabel={namePrompt?.kind === 'create-notebook' ? 'Create' : 'Rename'}
+        onSubmit={handleNamePromptSubmit}
+        onCancel={() => setNamePrompt(null)}
+      />
+
+      <TextPromptModal
+        visible={erasePromptVisible}
+        title="Erase All Data"
+        message={`This overwrites and deletes ALL notes in this vault, their history and the trash, and removes its master password, recovery phrase and settings from this device. Other vaults are not affected. It cannot be undone.\n\nType ${ERASE_CONFIRMATION_WORD} to confirm.`}
+        placeholder={ERASE_CONFIRMATION_WORD}
+        confirmLabel="Erase"
+        onSubmit={handleEraseConfirmed}
+        onCancel={() => setErasePromptVisible(false)}
+      />
     </View>
   );
 };
@@ -204,9 +585,93 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#00f2ea',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerActionButton: {
+    padding: 5,
+    marginRight: 10,
+  },
   clearAllButton: {
     padding: 5,
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    marginHorizontal: 15,
+    marginTop: 10,
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 16,
+    paddingVertical: 10,
+    marginHorizontal: 8,
+  },
+  filterBar: {
+    paddingTop: 10,
+  },
+  filterRow: {
+    paddingHorizontal: 15,
+    paddingBottom: 6,
+  },
+  filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#888',
+    marginRight: 8,
+  },
+  filterChipSelected: {
+    backgroundColor: '#00f2ea',
+    borderColor: '#00f2ea',
+  },
+  filterChipText: {
+    color: '#aaa',
+    fontSize: 14,
+  },
+  filterChipTextSelected: {
+    color: '#121212',
+    fontWeight: 'bold',
+  },
+  tagChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#00f2ea',
+    marginRight: 6,
+  },
+  tagChipText: {
+    color: '#00f2ea',
+    fontSize: 13,
+  },
+  noteChecklistRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 5,
+  },
+  noteChecklistText: {
+    fontSize: 12,
+    color: '#aaa',
+    marginLeft: 4,
+  },
+  noteTagsText: {
+    fontSize: 12,
+    color: '#00f2ea',
+    marginBottom: 5,
+  },
+  highlightText: {
+    color: '#00f2ea',
+    fontWeight: 'bold',
+  },
   noteListContent: {
     paddingVertical: 10,
     paddingHorizontal: 15,
@@ -228,12 +693,17 @@ const styles = StyleSheet.create({
     flex: 1,
     padding: 15,
   },
-  notePreviewText: {
+  noteTitleText: {
     fontSize: 16,
     color: '#fff',
     marginBottom: 5,
     fontWeight: '600',
   },
+  notePreviewText: {
+    fontSize: 14,
+    color: '#ccc',
+    marginBottom: 5,
+  },
   noteTimestamp: {
     fontSize: 12,
     color: '#aaa',
@@ -262,6 +732,38 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.3,
     shadowRadius: 4,
   },
+  snackbar: {
+    position: 'absolute',
+    left: 15,
+    right: 100, // Clear of the FAB
+    bottom: 30,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#00f2ea',
+    paddingLeft: 15,
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+  },
+  snackbarText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+  },
+  snackbarButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 15,
+  },
+  snackbarButtonText: {
+    color: '#00f2ea',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
   centerMessage: {
     flex: 1,
     justifyContent: 'center',
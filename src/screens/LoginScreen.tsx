@@ -1,38 +1,238 @@
 // src/screens/LoginScreen.tsx
-import React, { useState, useEffect } from 'react';
-import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import React, { useState, useEffect, useCallback } from 'react';
+import CryptoJS from 'crypto-js';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, ScrollView } from 'react-native';
 import { StackScreenProps } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
-import { hasMasterPassword, setMasterPassword, verifyMasterPassword } from '../utils/crypto';
+import { hasMasterPassword } from '../utils/crypto';
 import { useCrypto } from '../contexts/CryptoContext';
+import {
+  createVault,
+  deleteVault,
+  recoverInterruptedRekey,
+  resumeInterruptedErase,
+  unlockVault,
+  unlockVaultWithBiometrics,
+  VaultWipedError,
+} from '../utils/vault';
+import { BiometricInvalidatedError, BiometricUnlockState, getBiometricUnlockState } from '../utils/biometric';
+import { getLockoutState, LockoutError } from '../utils/lockout';
+import { purgeExpiredTrash } from '../utils/noteStorage';
+import { runMigrations, UnsupportedSchemaError } from '../utils/migrations';
+import { addVault, getActiveVaultId, listVaults, renameVault, VaultInfo } from '../utils/vaultRegistry';
+import TextPromptModal from '../components/TextPromptModal';
+import { Ionicons } from '@expo/vector-icons';
 
 // Define the props for LoginScreen using RootStackParamList
 type LoginScreenProps = StackScreenProps<RootStackParamList, 'Login'>;
 
-const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
+// Which vault name prompt is open, if any
+type VaultPrompt = 'create' | 'rename';
+
+/**
+ * Formats a remaining back-off delay, e.g. "45s" or "3m 05s".
+ */
+const formatWait = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${String(seconds).padStart(2, '0')}s` : `${seconds}s`;
+};
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ navigation, route }) => {
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [isFirstLaunch, setIsFirstLaunch] = useState<boolean | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [migrationProgress, setMigrationProgress] = useState<string | null>(null);
+  const [unsupportedSchema, setUnsupportedSchema] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [vaults, setVaults] = useState<VaultInfo[]>([]);
+  const [vaultPrompt, setVaultPrompt] = useState<VaultPrompt | null>(null);
+  const [biometricState, setBiometricState] = useState<BiometricUnlockState>('unavailable');
 
-  const { setEncryptionKey } = useCrypto();
+  const { setEncryptionKey, settings, activeVault, switchVault, reloadActiveVault } = useCrypto();
+
+  const refreshLockoutState = async () => {
+    const state = await getLockoutState();
+    setFailedAttempts(state.failedAttempts);
+    setLockedUntil(state.lockedUntil);
+    setNow(Date.now());
+  };
 
+  // Tick once a second while a back-off delay is running so the countdown stays current
   useEffect(() => {
-    const checkFirstLaunch = async () => {
-      try {
-        const firstTime = !(await hasMasterPassword());
-        setIsFirstLaunch(firstTime);
-      } catch (e) {
+    if (lockedUntil === null) {
+      return;
+    }
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) {
+        setLockedUntil(null);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  const isLockedOut = lockedUntil !== null && lockedUntil > now;
+
+  // Reads the state of the active vault: runs on launch and again whenever another vault is picked
+  const loadVaultState = useCallback(async () => {
+    setLoading(true);
+    setUnsupportedSchema(false);
+    setPassword('');
+    setConfirmPassword('');
+    setError(null);
+    try {
+      // An erase the app was killed in the middle of is finished before anything else
+      const resumedErase = await resumeInterruptedErase();
+      if (resumedErase) {
+        Alert.alert('Erase Completed', 'An interrupted erase of a vault was finished.');
+        await reloadActiveVault(); // The erase selected the erased vault, or another if it was deleted
+      }
+      setVaults(await listVaults());
+      // Finish or undo a vault re-encryption the app was killed in the middle of
+      await recoverInterruptedRekey();
+      const firstTime = !(await hasMasterPassword());
+      setIsFirstLaunch(firstTime);
+      // The counter is persisted, so a restart doesn't skip a running delay
+      await refreshLockoutState();
+    } catch (e) {
+      if (e instanceof UnsupportedSchemaError) {
+        console.warn('WARN: Vault was written by a newer app version:', e.message);
+        setUnsupportedSchema(true);
+      } else {
         console.error('Error checking master password status:', e);
         Alert.alert('Error', 'Could not check app status. Please restart.');
-      } finally {
-        setLoading(false);
       }
-    };
+    } finally {
+      setLoading(false);
+    }
+  }, [reloadActiveVault]);
 
-    checkFirstLaunch();
-  }, []);
+  const activeVaultId = activeVault?.id;
+  useEffect(() => {
+    if (activeVaultId !== undefined) {
+      loadVaultState();
+    }
+  }, [activeVaultId, loadVaultState]);
+
+  // Settings are per vault, so the password interval is only right once the vault's settings are loaded
+  const biometricPasswordIntervalDays = settings.biometricPasswordIntervalDays;
+  useEffect(() => {
+    if (activeVaultId === undefined || isFirstLaunch !== false) {
+      setBiometricState('unavailable');
+      return;
+    }
+    getBiometricUnlockState(biometricPasswordIntervalDays)
+      .then(setBiometricState)
+      .catch(e => {
+        console.warn('WARN: Could not check biometric unlock:', e);
+        setBiometricState('unavailable');
+      });
+  }, [activeVaultId, isFirstLaunch, biometricPasswordIntervalDays]);
+
+  const handleSwitchVault = async (id: string) => {
+    if (id === activeVaultId) {
+      return;
+    }
+    try {
+      await switchVault(id);
+    } catch (e) {
+      console.error('Error switching vault:', e);
+      Alert.alert('Error', e instanceof Error ? e.message : 'Failed to switch vault.');
+      setVaults(await listVaults());
+    }
+  };
+
+  const handleVaultPromptSubmit = async (name: string) => {
+    try {
+      if (vaultPrompt === 'create') {
+        const vault = await addVault(name);
+        setVaultPrompt(null);
+        await switchVault(vault.id);
+      } else if (activeVaultId !== undefined) {
+        await renameVault(activeVaultId, name);
+        setVaultPrompt(null);
+        await reloadActiveVault();
+        setVaults(await listVaults());
+      }
+    } catch (e) {
+      console.error('Error saving vault name:', e);
+      Alert.alert('Error', e instanceof Error ? e.message : 'Failed to save. Please try again.');
+    }
+  };
+
+  // Shared by every action that checks the master password
+  const handlePasswordCheckError = (e: unknown) => {
+    if (e instanceof LockoutError) {
+      setLockedUntil(e.lockedUntil);
+      setNow(Date.now());
+    } else if (e instanceof UnsupportedSchemaError) {
+      setUnsupportedSchema(true);
+    } else if (e instanceof VaultWipedError) {
+      setPassword('');
+      setFailedAttempts(0);
+      setIsFirstLaunch(true);
+      Alert.alert('Vault Erased', 'Too many failed attempts. All notes and keys of this vault have been erased from this device.');
+    } else {
+      console.error('Error verifying master password:', e);
+      setError('An error occurred. Please try again.');
+    }
+  };
+
+  const deleteActiveVault = async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const next = await deleteVault(password);
+      if (!next) {
+        setError('Incorrect master password.');
+        await refreshLockoutState();
+        return;
+      }
+      Alert.alert('Vault Deleted', `"${activeVault?.name}" and all of its notes have been erased from this device.`);
+      await reloadActiveVault();
+      if (next.id === activeVaultId) {
+        // The same ID is active again when the last vault was deleted, so nothing else reloads
+        await loadVaultState();
+      }
+    } catch (e) {
+      handlePasswordCheckError(e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteVault = () => {
+    if (!isFirstLaunch && !password) {
+      setError('Enter the master password of this vault to delete it.');
+      return;
+    }
+    Alert.alert(
+      'Delete Vault',
+      `This overwrites and deletes every note in "${activeVault?.name}", with its history, attachments, keys and settings. Other vaults are not affected. It cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: deleteActiveVault },
+      ]
+    );
+  };
+
+  const handleVaultOptions = () => {
+    if (!activeVault) {
+      return;
+    }
+    Alert.alert(activeVault.name, undefined, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Rename', onPress: () => setVaultPrompt('rename') },
+      { text: 'Delete', style: 'destructive', onPress: handleDeleteVault },
+    ]);
+  };
 
   const handleSetMasterPassword = async () => {
     if (!password || !confirmPassword) {
@@ -46,9 +246,9 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
     setError(null);
     setLoading(true);
     try {
-      const derivedKey = await setMasterPassword(password);
-      setEncryptionKey(derivedKey);
-      navigation.replace('Home');
+      const vaultKey = await createVault(password);
+      setEncryptionKey(vaultKey);
+      navigation.replace('RecoveryPhrase', { onboarding: true });
     } catch (e) {
       console.error('Error setting master password:', e);
       setError('Failed to set master password. Please try again.');
@@ -57,6 +257,40 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
     }
   };
 
+  // Everything after the vault key is known, whichever way it was unlocked
+  const completeUnlock = async (vaultKey: CryptoJS.lib.WordArray) => {
+    // Bring vaults from older versions up to date before anything else reads them
+    try {
+      await runMigrations(vaultKey, (migration, done, total) => {
+        setMigrationProgress(total > 0 ? `${migration.description}: ${done} of ${total}...` : `${migration.description}...`);
+      });
+    } catch (migrationError) {
+      // Completed steps are kept; the failed one runs again on the next unlock
+      console.error('Error migrating vault:', migrationError);
+      setError('Your notes could not be upgraded to this version of the app. Please try again.');
+      return;
+    }
+    try {
+      // Notes past the trash retention period are only ever purged here
+      await purgeExpiredTrash(vaultKey);
+    } catch (purgeError) {
+      console.warn('WARN: Could not purge expired notes from the trash:', purgeError);
+    }
+    setEncryptionKey(vaultKey);
+    // Only checked now: a switch in the vault picker or a duress password opens another vault,
+    // and looking the note up there would show it is missing
+    const resumeNoteId = route.params?.resumeVaultId === getActiveVaultId() ? route.params?.resumeNoteId : undefined;
+    if (resumeNoteId) {
+      // Back to the note that was open when the vault auto-locked
+      navigation.reset({
+        index: 1,
+        routes: [{ name: 'Home' }, { name: 'NoteEditor', params: { noteId: resumeNoteId } }],
+      });
+    } else {
+      navigation.replace('Home');
+    }
+  };
+
   const handleLogin = async () => {
     if (!password) {
       setError('Please enter your master password.');
@@ -65,26 +299,108 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
     setError(null);
     setLoading(true);
     try {
-      const derivedKey = await verifyMasterPassword(password);
-      if (derivedKey) {
-        setEncryptionKey(derivedKey);
-        navigation.replace('Home');
+      // Legacy vaults are upgraded to a wrapped vault key on their first unlock
+      const vaultKey = await unlockVault(password, (done, total) => {
+        setMigrationProgress(`Upgrading vault encryption: note ${done} of ${total}...`);
+      });
+      if (vaultKey) {
+        await completeUnlock(vaultKey);
       } else {
         setError('Incorrect master password.');
+        await refreshLockoutState();
       }
     } catch (e) {
-      console.error('Error verifying master password:', e);
-      setError('An error occurred during login. Please try again.');
+      handlePasswordCheckError(e);
+    } finally {
+      setLoading(false);
+      setMigrationProgress(null);
+    }
+  };
+
+  const handleBiometricUnlock = async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const vaultKey = await unlockVaultWithBiometrics();
+      if (vaultKey) {
+        await completeUnlock(vaultKey);
+      }
+      // Null means the prompt was cancelled: the password field is still there
+    } catch (e) {
+      if (e instanceof BiometricInvalidatedError) {
+        setBiometricState('disabled');
+        Alert.alert(
+          'Biometric Unlock Turned Off',
+          'The fingerprints or faces enrolled on this device changed. Unlock with your master password, then turn biometric unlock on again in Settings.'
+        );
+      } else if (e instanceof UnsupportedSchemaError) {
+        setUnsupportedSchema(true);
+      } else {
+        console.error('Error unlocking with biometrics:', e);
+        setError('Biometric unlock failed. Please use your master password.');
+      }
     } finally {
       setLoading(false);
+      setMigrationProgress(null);
     }
   };
 
+  const vaultPicker = (
+    <View style={styles.vaultPicker}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.vaultChips}>
+        {vaults.map(vault => (
+          <TouchableOpacity
+            key={vault.id}
+            style={[styles.vaultChip, vault.id === activeVaultId && styles.vaultChipActive]}
+            onPress={() => handleSwitchVault(vault.id)}
+          >
+            <Text style={[styles.vaultChipText, vault.id === activeVaultId && styles.vaultChipTextActive]}>
+              {vault.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.vaultChip} onPress={() => setVaultPrompt('create')}>
+          <Ionicons name="add" size={18} color="#00f2ea" />
+        </TouchableOpacity>
+      </ScrollView>
+      <TouchableOpacity style={styles.vaultOptionsButton} onPress={handleVaultOptions}>
+        <Ionicons name="ellipsis-horizontal" size={22} color="#00f2ea" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const vaultNamePrompt = (
+    <TextPromptModal
+      visible={vaultPrompt !== null}
+      title={vaultPrompt === 'create' ? 'New Vault' : 'Rename Vault'}
+      message={vaultPrompt === 'create' ? 'A separate set of notes with its own master password.' : undefined}
+      initialValue={vaultPrompt === 'rename' ? activeVault?.name : ''}
+      placeholder="Vault name"
+      confirmLabel={vaultPrompt === 'create' ? 'Create' : 'Rename'}
+      onSubmit={handleVaultPromptSubmit}
+      onCancel={() => setVaultPrompt(null)}
+    />
+  );
+
   if (loading) {
     return (
       <View style={styles.container}>
         <ActivityIndicator size="large" color="#00f2ea" />
-        <Text style={styles.loadingText}>Loading...</Text>
+        <Text style={styles.loadingText}>{migrationProgress ?? 'Loading...'}</Text>
+      </View>
+    );
+  }
+
+  if (unsupportedSchema) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>CipherNote</Text>
+        {vaultPicker}
+        <Text style={styles.subtitle}>Update Required</Text>
+        <Text style={styles.infoText}>
+          The notes in this vault were saved by a newer version of CipherNote. Update the app to open them. Nothing has been changed.
+        </Text>
+        {vaultNamePrompt}
       </View>
     );
   }
@@ -92,12 +408,13 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
   return (
     <View style={styles.container}>
       <Text style={styles.title}>CipherNote</Text>
+      {vaultPicker}
 
       {isFirstLaunch ? (
         <>
           <Text style={styles.subtitle}>Set your Master Password</Text>
           <Text style={styles.warningText}>
-            Warning: This password is the ONLY way to access your notes. There is NO recovery if you forget it.
+            Warning: This password protects all of your notes. Next you will get a recovery phrase; without it there is NO recovery if you forget your password.
           </Text>
           <TextInput
             style={styles.input}
@@ -132,11 +449,38 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
             onChangeText={setPassword}
           />
           {error && <Text style={styles.errorText}>{error}</Text>}
-          <TouchableOpacity style={styles.button} onPress={handleLogin} disabled={loading}>
+          {isLockedOut && lockedUntil !== null && (
+            <Text style={styles.errorText}>
+              Too many failed attempts. Try again in {formatWait(lockedUntil - now)}.
+            </Text>
+          )}
+          {settings.wipeAfterFailedAttempts !== null && failedAttempts > 0 && (
+            <Text style={styles.warningText}>
+              {Math.max(0, settings.wipeAfterFailedAttempts - failedAttempts)} attempt(s) left before all notes are erased.
+            </Text>
+          )}
+          <TouchableOpacity
+            style={[styles.button, isLockedOut && styles.buttonDisabled]}
+            onPress={handleLogin}
+            disabled={loading || isLockedOut}
+          >
             <Text style={styles.buttonText}>Unlock Notes</Text>
           </TouchableOpacity>
+          {biometricState === 'ready' && (
+            <TouchableOpacity style={styles.biometricButton} onPress={handleBiometricUnlock} disabled={loading}>
+              <Ionicons name="finger-print" size={22} color="#00f2ea" />
+              <Text style={styles.biometricButtonText}>Unlock with Biometrics</Text>
+            </TouchableOpacity>
+          )}
+          {biometricState === 'password-required' && (
+            <Text style={styles.hintText}>Enter your master password to keep using biometric unlock.</Text>
+          )}
+          <TouchableOpacity style={styles.linkButton} onPress={() => navigation.navigate('RecoverAccess')}>
+            <Text style={styles.linkText}>Forgot password?</Text>
+          </TouchableOpacity>
         </>
       )}
+      {vaultNamePrompt}
     </View>
   );
 };
@@ -186,11 +530,87 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginTop: 10,
   },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
   buttonText: {
     color: '#121212', // Dark text on accent button
     fontSize: 18,
     fontWeight: 'bold',
   },
+  biometricButton: {
+    width: '90%',
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 13,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#00f2ea',
+    marginTop: 10,
+  },
+  biometricButtonText: {
+    color: '#00f2ea',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  hintText: {
+    color: '#aaa',
+    textAlign: 'center',
+    fontSize: 14,
+    marginTop: 15,
+    paddingHorizontal: 10,
+  },
+  linkButton: {
+    marginTop: 20,
+    padding: 5,
+  },
+  linkText: {
+    color: '#00f2ea',
+    fontSize: 16,
+  },
+  infoText: {
+    color: '#aaa',
+    textAlign: 'center',
+    fontSize: 16,
+    paddingHorizontal: 10,
+  },
+  vaultPicker: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '90%',
+    marginBottom: 20,
+  },
+  vaultChips: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  vaultChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#00f2ea',
+    marginRight: 8,
+  },
+  vaultChipActive: {
+    backgroundColor: '#00f2ea',
+  },
+  vaultChipText: {
+    color: '#00f2ea',
+    fontSize: 14,
+  },
+  vaultChipTextActive: {
+    color: '#121212',
+    fontWeight: 'bold',
+  },
+  vaultOptionsButton: {
+    padding: 5,
+    marginLeft: 5,
+  },
   errorText: {
     color: '#ff6347',
     marginBottom: 15,
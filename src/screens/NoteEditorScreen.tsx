@@ -9,31 +9,103 @@ import {
   Platform,
   Alert,
   ActivityIndicator,
+  Modal,
+  ScrollView,
 } from 'react-native';
 import { StackScreenProps } from '@react-navigation/stack';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { useCrypto } from '../contexts/CryptoContext';
-import { saveNote, loadNoteContent, deleteNote, generateNoteId } from '../utils/noteStorage';
+import {
+  saveNote,
+  loadNoteContent,
+  trashNote,
+  generateNoteId,
+  getNoteMetadata,
+  getNotebooks,
+  createNotebook,
+  normalizeTags,
+  addAttachment,
+  Notebook,
+  NoteAttachment,
+  NoteType,
+} from '../utils/noteStorage';
+import { parseChecklist, serializeChecklist } from '../utils/checklist';
+import { DecryptionError } from '../utils/crypto';
 import { Ionicons } from '@expo/vector-icons';
-import { useFocusEffect } from '@react-navigation/native';
+import { useFocusEffect, CommonActions } from '@react-navigation/native';
+import TextPromptModal from '../components/TextPromptModal';
+import MarkdownView from '../components/MarkdownView';
+import MarkdownToolbar from '../components/MarkdownToolbar';
+import ChecklistEditor from '../components/ChecklistEditor';
+import { applyMarkdownFormat, MarkdownFormat, TextSelection } from '../utils/markdown';
+import { navigationRef } from '../navigation/navigationRef';
 
 // Define props for NoteEditorScreen
 type NoteEditorScreenProps = StackScreenProps<RootStackParamList, 'NoteEditor'>;
 
+// Compared against the last saved value to tell whether tags, notebook or note type changed
+const organizationKey = (tags: string[], notebookId: string | null, type: NoteType) =>
+  JSON.stringify({ tags, notebookId, type });
+
+type SaveStatus = 'saved' | 'unsaved' | 'saving' | 'error' | 'empty';
+
+const SAVE_STATUS_TEXT: Record<Exclude<SaveStatus, 'empty'>, string> = {
+  saved: 'Saved',
+  unsaved: 'Unsaved changes',
+  saving: 'Saving...',
+  error: 'Save failed, tap to retry',
+};
+
+const SAVE_STATUS_ICONS: Record<Exclude<SaveStatus, 'saving'>, keyof typeof Ionicons.glyphMap> = {
+  saved: 'checkmark-circle-outline',
+  unsaved: 'ellipse-outline',
+  error: 'alert-circle-outline',
+  empty: 'remove-circle-outline',
+};
+
+const AUTOSAVE_DELAY_MS = 1500; // Pause in typing before changes are written
+const SAVE_RETRY_DELAY_MS = 5000; // Wait before retrying a failed save
+
 const NoteEditorScreen: React.FC<NoteEditorScreenProps> = ({ navigation, route }) => {
-  const { noteId } = route.params;
-  const { encryptionKey, isAuthenticated } = useCrypto();
+  const { noteId, notebookId: initialNotebookId, restoredAt } = route.params;
+  const { encryptionKey, isAuthenticated, registerLockHandler, notifyActivity } = useCrypto();
 
   const [content, setContent] = useState<string>('');
   const [loading, setLoading] = useState(true);
   const [currentNoteId, setCurrentNoteId] = useState<string | null>(noteId || null);
-  const [isSaving, setIsSaving] = useState(false); 
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved');
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [notebookId, setNotebookId] = useState<string | null>(initialNotebookId ?? null);
+  const [notebooks, setNotebooks] = useState<Notebook[]>([]);
+  const [notebookPickerVisible, setNotebookPickerVisible] = useState(false);
+  const [newNotebookPromptVisible, setNewNotebookPromptVisible] = useState(false);
+  const [noteType, setNoteType] = useState<NoteType>('text');
+  const [attachments, setAttachments] = useState<NoteAttachment[]>([]);
+  const [isAttaching, setIsAttaching] = useState(false);
+  const [isPreview, setIsPreview] = useState(false);
+  // Only set right after a toolbar edit to move the cursor; otherwise the input tracks the selection itself
+  const [forcedSelection, setForcedSelection] = useState<TextSelection | undefined>(undefined);
+  const selectionRef = useRef<TextSelection>({ start: 0, end: 0 });
   const contentRef = useRef(content); // To capture the latest content for auto-save
+  const savedContentRef = useRef<string | null>(null); // Content as last written to disk
+  const noteIdRef = useRef<string | null>(noteId || null); // ID used for saves; assigned once for new notes
+  const organizationRef = useRef(organizationKey([], initialNotebookId ?? null, 'text')); // Current tags, notebook and type
+  const savedOrganizationRef = useRef<string | null>(null); // Tags and notebook as last written
+  const saveQueueRef = useRef<Promise<unknown>>(Promise.resolve()); // Keeps saves from overlapping
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const trashedRef = useRef(false); // Set once the note went to the trash, so leaving doesn't trash it again
 
   useEffect(() => {
     contentRef.current = content;
   }, [content]);
 
+  useEffect(() => {
+    organizationRef.current = organizationKey(tags, notebookId, noteType);
+  }, [tags, notebookId, noteType]);
+
   useEffect(() => {
     const fetchOrCreateNote = async () => {
       if (!isAuthenticated || !encryptionKey) {
@@ -42,20 +114,42 @@ const NoteEditorScreen: React.FC<NoteEditorScreenProps> = ({ navigation, route }
         return;
       }
 
+      try {
+        setNotebooks(await getNotebooks(encryptionKey));
+      } catch (e) {
+        console.error('Error loading notebooks:', e);
+      }
+
       if (noteId) { 
         setLoading(true);
         try {
           const loadedContent = await loadNoteContent(noteId, encryptionKey);
           if (loadedContent !== null) {
+            const metadata = await getNoteMetadata(noteId, encryptionKey);
+            const loadedTags = metadata?.tags ?? [];
+            const loadedNotebookId = metadata?.notebookId ?? null;
+            const loadedType = metadata?.type ?? 'text';
             setContent(loadedContent);
+            setTags(loadedTags);
+            setNotebookId(loadedNotebookId);
+            setNoteType(loadedType);
+            setAttachments(metadata?.attachments ?? []);
+            savedContentRef.current = loadedContent;
+            organizationRef.current = organizationKey(loadedTags, loadedNotebookId, loadedType);
+            savedOrganizationRef.current = organizationRef.current;
             setCurrentNoteId(noteId); // Confirm the ID for the loaded note
+            setSaveStatus('saved');
           } else {
             Alert.alert('Error', 'Note not found or could not be decrypted. It might have been deleted or corrupted.');
             navigation.goBack();
           }
         } catch (e) {
           console.error('Error fetching note:', e);
-          Alert.alert('Error', 'Failed to load note.');
+          if (e instanceof DecryptionError) {
+            Alert.alert('Integrity Error', 'This note failed its integrity check. The file may have been tampered with or corrupted.');
+          } else {
+            Alert.alert('Error', 'Failed to load note.');
+          }
           navigation.goBack();
         } finally {
           setLoading(false);
@@ -68,74 +162,281 @@ const NoteEditorScreen: React.FC<NoteEditorScreenProps> = ({ navigation, route }
     };
 
     fetchOrCreateNote();
-  }, [noteId, encryptionKey, isAuthenticated, navigation]);
+  }, [noteId, restoredAt, encryptionKey, isAuthenticated, navigation]);
+
 
+  /**
+   * Writes the current content if it changed since the last save.
+   * Empty content is never written: a new note stays unsaved, and an existing note keeps
+   * its last text until the editor is left, when it goes to the trash.
+   * @returns The ID the note is saved under, or null if there is nothing saved.
+   */
+  const writeNoteIfChanged = useCallback(async (): Promise<string | null> => {
+    const organizationChanged = organizationRef.current !== savedOrganizationRef.current;
+    if (!encryptionKey || (contentRef.current === savedContentRef.current && !organizationChanged)) {
+      return savedContentRef.current === null ? null : noteIdRef.current;
+    }
+    if (contentRef.current.trim() === '') {
+      setSaveStatus('empty');
+      return savedContentRef.current === null ? null : noteIdRef.current;
+    }
+
+    // Generated on the first save of a new note and reused by every later save
+    const idToSave = noteIdRef.current ?? generateNoteId();
+    noteIdRef.current = idToSave;
+    const contentToSave = contentRef.current;
+    const organizationToSave = organizationRef.current;
+    const { tags: tagsToSave, notebookId: notebookIdToSave, type: typeToSave } = JSON.parse(organizationToSave);
+    setSaveStatus('saving');
+    await saveNote(
+      {
+        id: idToSave,
+        content: contentToSave,
+        timestamp: Date.now(), // Update timestamp on save
+        tags: tagsToSave,
+        notebookId: notebookIdToSave,
+        type: typeToSave,
+      },
+      encryptionKey
+    );
+    savedContentRef.current = contentToSave;
+    savedOrganizationRef.current = organizationToSave;
+    setCurrentNoteId(idToSave);
+    // Typing may have continued while the save ran; the pending autosave picks that up
+    setSaveStatus(
+      contentRef.current === contentToSave && organizationRef.current === organizationToSave ? 'saved' : 'unsaved'
+    );
+    console.log('Note auto-saved. ID:', idToSave);
+    return idToSave;
+  }, [encryptionKey]);
+
+  /**
+   * Saves pending changes after any save already in progress has finished.
+   * @returns The ID the note is saved under, or null if there is nothing saved.
+   * @throws {Error} If writing the note fails.
+   */
+  const persistNote = useCallback((): Promise<string | null> => {
+    const save = saveQueueRef.current.catch(() => undefined).then(writeNoteIfChanged);
+    saveQueueRef.current = save;
+    return save;
+  }, [writeNoteIfChanged]);
+
+  /**
+   * Schedules a background save, replacing any save already scheduled.
+   * A failed save is retried until it succeeds or the note is edited again.
+   * @param delay Milliseconds to wait before saving.
+   */
+  const scheduleAutosave = useCallback((delay: number) => {
+    if (autosaveTimerRef.current) {
+      clearTimeout(autosaveTimerRef.current);
+    }
+    autosaveTimerRef.current = setTimeout(async () => {
+      autosaveTimerRef.current = null;
+      try {
+        await persistNote();
+      } catch (e) {
+        console.error('Auto-save failed, retrying:', e);
+        setSaveStatus('error');
+        scheduleAutosave(SAVE_RETRY_DELAY_MS);
+      }
+    }, delay);
+  }, [persistNote]);
+
+  // Mark edits as unsaved and save them once typing pauses
+  useEffect(() => {
+    if (loading) {
+      return;
+    }
+    const isDirty =
+      content !== savedContentRef.current ||
+      organizationKey(tags, notebookId, noteType) !== savedOrganizationRef.current;
+    if (!isDirty) {
+      return;
+    }
+    setSaveStatus(content.trim() === '' ? 'empty' : 'unsaved');
+    scheduleAutosave(AUTOSAVE_DELAY_MS);
+  }, [content, tags, notebookId, noteType, loading, scheduleAutosave]);
+
+  // A scheduled save is flushed on blur instead; never let it outlive the screen
+  useEffect(() => {
+    return () => {
+      if (autosaveTimerRef.current) {
+        clearTimeout(autosaveTimerRef.current);
+      }
+    };
+  }, []);
+
+  // Flush unsaved content before an auto-lock drops the key, and reopen this note afterwards
+  useEffect(() => {
+    return registerLockHandler(persistNote);
+  }, [registerLockHandler, persistNote]);
 
   useFocusEffect(
     useCallback(() => {
       return async () => {
-        if (isAuthenticated && encryptionKey && contentRef.current.trim() !== '') {
-          try {
-            setIsSaving(true); 
-            const idToSave = currentNoteId || generateNoteId(); // Use existing ID or generate new for truly new notes
-
-            await saveNote(
-              {
-                id: idToSave,
-                content: contentRef.current,
-                timestamp: Date.now(), // Update timestamp on save
-              },
-              encryptionKey
-            );
-            console.log('Note auto-saved. ID:', idToSave);
-          } catch (e) {
-            console.error('Auto-save failed:', e);
-            Alert.alert('Save Error', 'Failed to auto-save note. Please check your password and try again.');
-          } finally {
-            setIsSaving(false); 
-          }
-        } else if (contentRef.current.trim() === '' && currentNoteId) { 
-          console.log('Existing note emptied. It will not be saved. Consider auto-deletion.');
-        } else {
-          console.log('Note not saved (no content or not authenticated, or new empty note).');
+        if (!isAuthenticated || !encryptionKey) {
+          console.log('Note not saved (not authenticated).');
+          return;
+        }
+        if (autosaveTimerRef.current) {
+          clearTimeout(autosaveTimerRef.current);
+          autosaveTimerRef.current = null;
+        }
+        try {
+          await persistNote();
+        } catch (e) {
+          console.error('Auto-save failed:', e);
+          setSaveStatus('error');
+          Alert.alert('Save Error', 'Failed to auto-save note. Please check your password and try again.');
         }
       };
-    }, [isAuthenticated, encryptionKey, currentNoteId])
+    }, [isAuthenticated, encryptionKey, persistNote])
   );
 
+  // Attachments can be removed from their own screen, so refresh the list on return
+  useFocusEffect(
+    useCallback(() => {
+      const id = noteIdRef.current;
+      if (!encryptionKey || !id) {
+        return;
+      }
+      getNoteMetadata(id, encryptionKey)
+        .then(metadata => setAttachments(metadata?.attachments ?? []))
+        .catch(e => console.error('Error loading attachments:', e));
+    }, [encryptionKey])
+  );
 
-  const handleDelete = () => {
-    Alert.alert(
-      'Delete Note',
-      'Are you sure you want to permanently delete this note?',
-      [
-        {
-          text: 'Cancel',
-          style: 'cancel',
-        },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: async () => {
-            if (!isAuthenticated || !encryptionKey || !currentNoteId) {
-              Alert.alert('Error', 'Cannot delete note without proper authentication or note ID.');
-              return;
-            }
-            try {
-              setLoading(true);
-              await deleteNote(currentNoteId);
-              Alert.alert('Deleted', 'Note successfully deleted.');
-              navigation.goBack(); 
-            } catch (e) {
-              console.error('Error deleting note:', e);
-              Alert.alert('Error', 'Failed to delete note. Please try again.');
-            } finally {
-              setLoading(false);
-            }
-          },
-        },
-      ]
-    );
+  // An existing note left empty goes to the trash when the editor is closed, with undo on Home.
+  // This listens for removal rather than blur so opening the history keeps the note, and
+  // skips resets (auto-lock, erase) so a locked note reopens as it was.
+  useEffect(() => {
+    return navigation.addListener('beforeRemove', (e) => {
+      const idToTrash = noteIdRef.current;
+      if (!encryptionKey || !idToTrash || trashedRef.current || savedContentRef.current === null) {
+        return;
+      }
+      if (e.data.action.type === 'RESET') {
+        return;
+      }
+      if (contentRef.current.trim() !== '') {
+        return;
+      }
+      trashedRef.current = true;
+      const homeRoute = navigation.getState().routes.find(stackRoute => stackRoute.name === 'Home');
+      saveQueueRef.current
+        .catch(() => undefined)
+        .then(() => trashNote(idToTrash, encryptionKey))
+        .then(() => {
+          console.log('Emptied note moved to trash. ID:', idToTrash);
+          if (homeRoute && navigationRef.isReady()) {
+            navigationRef.dispatch({ ...CommonActions.setParams({ trashedNoteId: idToTrash }), source: homeRoute.key });
+          }
+        })
+        .catch(e => console.error('Error trashing emptied note:', e));
+    });
+  }, [navigation, encryptionKey]);
+
+
+  const handleAddTag = () => {
+    const newTags = normalizeTags([...tags, ...tagInput.split(',')]);
+    setTags(newTags);
+    setTagInput('');
+  };
+
+  const handleRemoveTag = (tag: string) => {
+    setTags(tags.filter(existing => existing !== tag));
+  };
+
+  const handleCreateNotebook = async (name: string) => {
+    if (!encryptionKey) {
+      return;
+    }
+    try {
+      const notebook = await createNotebook(name, encryptionKey);
+      setNotebooks(await getNotebooks(encryptionKey));
+      setNotebookId(notebook.id);
+      setNewNotebookPromptVisible(false);
+    } catch (e) {
+      console.error('Error creating notebook:', e);
+      Alert.alert('Error', e instanceof Error ? e.message : 'Failed to create notebook.');
+    }
+  };
+
+  const handleFormat = (format: MarkdownFormat) => {
+    const result = applyMarkdownFormat(content, selectionRef.current, format);
+    setContent(result.text);
+    selectionRef.current = result.selection;
+    setForcedSelection(result.selection);
+    notifyActivity();
+  };
+
+  const handleAttach = async () => {
+    if (!encryptionKey) {
+      return;
+    }
+    let pickedUri: string | null = null;
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+      if (result.canceled) {
+        return;
+      }
+      const asset = result.assets[0];
+      pickedUri = asset.uri;
+      // The attachment is recorded in the note's entry, so the note has to be saved first
+      const savedId = await persistNote();
+      if (!savedId) {
+        Alert.alert('Empty Note', 'Write something in the note before attaching files.');
+        return;
+      }
+      setIsAttaching(true);
+      const attachment = await addAttachment(
+        savedId,
+        { uri: asset.uri, name: asset.name, mimeType: asset.mimeType },
+        encryptionKey
+      );
+      setAttachments(current => [...current, attachment]);
+    } catch (e) {
+      console.error('Error attaching file:', e);
+      Alert.alert('Error', e instanceof Error ? e.message : 'Failed to attach the file.');
+    } finally {
+      if (pickedUri) {
+        // The picker's copy is plaintext; only the encrypted blob should remain
+        await FileSystem.deleteAsync(pickedUri, { idempotent: true });
+      }
+      setIsAttaching(false);
+    }
+  };
+
+  // Both directions keep every line: checklist items stay as a task list in the text
+  const handleToggleChecklist = () => {
+    if (noteType === 'checklist') {
+      setNoteType('text');
+    } else {
+      setContent(serializeChecklist(parseChecklist(content)));
+      setNoteType('checklist');
+      setIsPreview(false);
+    }
+    notifyActivity();
+  };
+
+  // No confirmation: the note goes to the trash, and Home offers to undo it
+  const handleDelete = async () => {
+    if (!isAuthenticated || !encryptionKey || !currentNoteId) {
+      Alert.alert('Error', 'Cannot delete note without proper authentication or note ID.');
+      return;
+    }
+    try {
+      setLoading(true);
+      // Unsaved edits go into the trash with the note rather than being lost
+      await persistNote();
+      await trashNote(currentNoteId, encryptionKey);
+      trashedRef.current = true;
+      navigation.popTo('Home', { trashedNoteId: currentNoteId });
+    } catch (e) {
+      console.error('Error deleting note:', e);
+      Alert.alert('Error', 'Failed to delete note. Please try again.');
+      setLoading(false);
+    }
   };
 
   if (loading) {
@@ -148,6 +449,7 @@ const NoteEditorScreen: React.FC<NoteEditorScreenProps> = ({ navigation, route }
   }
 
   const isNewNote = !currentNoteId;
+  const currentNotebook = notebooks.find(notebook => notebook.id === notebookId);
 
   return (
     <KeyboardAvoidingView
@@ -159,31 +461,195 @@ const NoteEditorScreen: React.FC<NoteEditorScreenProps> = ({ navigation, route }
         <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
           <Ionicons name="arrow-back" size={28} color="#00f2ea" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>
-          {isNewNote ? 'New Note' : 'Edit Note'}
-        </Text>
-        {isSaving && (
-          <ActivityIndicator size="small" color="#00f2ea" style={styles.savingIndicator} />
-        )}
-        {!isNewNote && (
-          <TouchableOpacity onPress={handleDelete} style={styles.headerButton}>
-            <Ionicons name="trash-outline" size={28} color="#ff6347" />
+        <View style={styles.headerTitleContainer}>
+          <Text style={styles.headerTitle}>
+            {isNewNote ? 'New Note' : 'Edit Note'}
+          </Text>
+          <TouchableOpacity
+            style={styles.saveStatus}
+            onPress={() => scheduleAutosave(0)}
+            disabled={saveStatus !== 'error'}
+          >
+            {saveStatus === 'saving' ? (
+              <ActivityIndicator size="small" color="#888" />
+            ) : (
+              <Ionicons
+                name={SAVE_STATUS_ICONS[saveStatus]}
+                size={14}
+                color={saveStatus === 'error' ? '#ff6347' : '#888'}
+              />
+            )}
+            <Text style={[styles.saveStatusText, saveStatus === 'error' && styles.saveStatusErrorText]}>
+              {saveStatus === 'empty'
+                ? isNewNote ? 'Empty notes are not saved' : 'Empty, moves to trash on close'
+                : SAVE_STATUS_TEXT[saveStatus]}
+            </Text>
           </TouchableOpacity>
-        )}
-        {isNewNote && (
-          <View style={styles.headerButtonPlaceholder} />
-        )}
+        </View>
+        <View style={styles.headerActions}>
+          {noteType === 'text' && (
+            <TouchableOpacity onPress={() => setIsPreview(!isPreview)} style={styles.headerButton}>
+              <Ionicons name={isPreview ? 'create-outline' : 'eye-outline'} size={28} color="#00f2ea" />
+            </TouchableOpacity>
+          )}
+          {!isNewNote && (
+            <>
+              <TouchableOpacity
+                onPress={() => navigation.navigate('NoteHistory', { noteId: currentNoteId })}
+                style={styles.headerButton}
+              >
+                <Ionicons name="time-outline" size={28} color="#00f2ea" />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleDelete} style={styles.headerButton}>
+                <Ionicons name="trash-outline" size={28} color="#ff6347" />
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
       </View>
 
-      <TextInput
-        style={styles.textInput}
-        multiline
-        autoFocus 
-        textAlignVertical="top" 
-        value={content}
-        onChangeText={setContent}
-        placeholder="Start typing your private note..."
-        placeholderTextColor="#888"
+      <View style={styles.organizationBar}>
+        <TouchableOpacity style={styles.barButton} onPress={handleToggleChecklist}>
+          <Ionicons
+            name={noteType === 'checklist' ? 'document-text-outline' : 'checkbox-outline'}
+            size={20}
+            color="#00f2ea"
+          />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.barButton} onPress={handleAttach} disabled={isAttaching}>
+          <Ionicons name="attach-outline" size={22} color="#00f2ea" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.notebookButton} onPress={() => setNotebookPickerVisible(true)}>
+          <Ionicons name="book-outline" size={16} color="#00f2ea" />
+          <Text style={styles.notebookButtonText} numberOfLines={1}>
+            {currentNotebook ? currentNotebook.name : 'No notebook'}
+          </Text>
+          <Ionicons name="chevron-down" size={14} color="#888" />
+        </TouchableOpacity>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          {tags.map(tag => (
+            <TouchableOpacity key={tag} style={styles.tagChip} onPress={() => handleRemoveTag(tag)}>
+              <Text style={styles.tagChipText}>#{tag}</Text>
+              <Ionicons name="close" size={14} color="#aaa" />
+            </TouchableOpacity>
+          ))}
+          <TextInput
+            style={styles.tagInput}
+            placeholder="+ tag"
+            placeholderTextColor="#888"
+            autoCapitalize="none"
+            value={tagInput}
+            onChangeText={setTagInput}
+            onSubmitEditing={handleAddTag}
+            onBlur={() => tagInput.trim() && handleAddTag()}
+            returnKeyType="done"
+          />
+        </ScrollView>
+      </View>
+
+      {(attachments.length > 0 || isAttaching) && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.attachmentBar}
+          contentContainerStyle={styles.attachmentBarContent}
+        >
+          {attachments.map(attachment => (
+            <TouchableOpacity
+              key={attachment.id}
+              style={styles.attachmentChip}
+              onPress={() => navigation.navigate('Attachment', { noteId: noteIdRef.current!, attachment })}
+            >
+              <Ionicons
+                name={attachment.mimeType.startsWith('image/') ? 'image-outline' : 'document-outline'}
+                size={16}
+                color="#00f2ea"
+              />
+              <Text style={styles.attachmentChipText} numberOfLines={1}>{attachment.name}</Text>
+            </TouchableOpacity>
+          ))}
+          {isAttaching && <ActivityIndicator size="small" color="#00f2ea" />}
+        </ScrollView>
+      )}
+
+      {noteType === 'checklist' ? (
+        <ChecklistEditor
+          content={content}
+          onChange={(text) => {
+            setContent(text);
+            notifyActivity();
+          }}
+        />
+      ) : isPreview ? (
+        <MarkdownView content={content} />
+      ) : (
+        <>
+          <TextInput
+            style={styles.textInput}
+            multiline
+            autoFocus 
+            textAlignVertical="top" 
+            value={content}
+            selection={forcedSelection}
+            onSelectionChange={(event) => {
+              selectionRef.current = event.nativeEvent.selection;
+              setForcedSelection(undefined);
+            }}
+            onChangeText={(text) => {
+              setContent(text);
+              notifyActivity(); // Typing doesn't pass through the touch responder
+            }}
+            placeholder="Start typing your private note..."
+            placeholderTextColor="#888"
+          />
+          <MarkdownToolbar onFormat={handleFormat} />
+        </>
+      )}
+
+      <Modal
+        visible={notebookPickerVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setNotebookPickerVisible(false)}
+      >
+        <TouchableOpacity style={styles.pickerBackdrop} activeOpacity={1} onPress={() => setNotebookPickerVisible(false)}>
+          <View style={styles.pickerDialog}>
+            <Text style={styles.pickerTitle}>Move to notebook</Text>
+            <ScrollView>
+              {[{ id: null, name: 'No notebook' }, ...notebooks].map(notebook => (
+                <TouchableOpacity
+                  key={notebook.id ?? 'none'}
+                  style={styles.pickerRow}
+                  onPress={() => {
+                    setNotebookId(notebook.id);
+                    setNotebookPickerVisible(false);
+                  }}
+                >
+                  <Text style={styles.pickerRowText}>{notebook.name}</Text>
+                  {notebook.id === notebookId && <Ionicons name="checkmark" size={20} color="#00f2ea" />}
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <TouchableOpacity
+              style={styles.pickerRow}
+              onPress={() => {
+                setNotebookPickerVisible(false);
+                setNewNotebookPromptVisible(true);
+              }}
+            >
+              <Text style={styles.pickerNewText}>+ New notebook</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
+      <TextPromptModal
+        visible={newNotebookPromptVisible}
+        title="New Notebook"
+        placeholder="Notebook name"
+        confirmLabel="Create"
+        onSubmit={handleCreateNotebook}
+        onCancel={() => setNewNotebookPromptVisible(false)}
       />
     </KeyboardAvoidingView>
   );
@@ -223,14 +689,135 @@ const styles = StyleSheet.create({
   headerButton: {
     padding: 5,
   },
-  headerButtonPlaceholder: {
-    width: 38, 
-    height: 38,
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerTitleContainer: {
+    alignItems: 'center',
+  },
+  saveStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  saveStatusText: {
+    color: '#888',
+    fontSize: 12,
+    marginLeft: 4,
+  },
+  saveStatusErrorText: {
+    color: '#ff6347',
+  },
+  organizationBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1e1e1e',
+  },
+  barButton: {
+    padding: 5,
+    marginRight: 6,
+  },
+  notebookButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    maxWidth: 140,
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    backgroundColor: '#1e1e1e',
+    marginRight: 8,
+  },
+  notebookButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    marginHorizontal: 5,
+    flexShrink: 1,
+  },
+  attachmentBar: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1e1e1e',
   },
-  savingIndicator: {
-    position: 'absolute',
-    left: '50%',
-    transform: [{ translateX: -12 }], // Center the spinner visually
+  attachmentBarContent: {
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+  },
+  attachmentChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    maxWidth: 180,
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    backgroundColor: '#1e1e1e',
+    marginRight: 6,
+  },
+  attachmentChipText: {
+    color: '#fff',
+    fontSize: 14,
+    marginLeft: 5,
+    flexShrink: 1,
+  },
+  tagChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#00f2ea',
+    marginRight: 6,
+  },
+  tagChipText: {
+    color: '#00f2ea',
+    fontSize: 14,
+    marginRight: 4,
+  },
+  tagInput: {
+    minWidth: 70,
+    color: '#fff',
+    fontSize: 14,
+    paddingVertical: 5,
+  },
+  pickerBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    padding: 30,
+  },
+  pickerDialog: {
+    maxHeight: '70%',
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: '#00f2ea',
+  },
+  pickerTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  pickerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  pickerRowText: {
+    color: '#fff',
+    fontSize: 16,
+  },
+  pickerNewText: {
+    color: '#00f2ea',
+    fontSize: 16,
+    fontWeight: 'bold',
   },
   textInput: {
     flex: 1, // Ensures TextInput takes available space and pushes content up
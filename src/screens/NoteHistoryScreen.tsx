@@ -0,0 +1,264 @@
+// src/screens/NoteHistoryScreen.tsx
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, Alert, ActivityIndicator, ScrollView, Platform } from 'react-native';
+import { StackScreenProps } from '@react-navigation/stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useCrypto } from '../contexts/CryptoContext';
+import { listRevisions, loadRevision, loadNoteContent, restoreRevision, NoteRevision } from '../utils/noteStorage';
+import { diffLines } from '../utils/diff';
+import { DecryptionError } from '../utils/crypto';
+import { Ionicons } from '@expo/vector-icons';
+
+type NoteHistoryScreenProps = StackScreenProps<RootStackParamList, 'NoteHistory'>;
+
+const formatRevisionDate = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString([], {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const NoteHistoryScreen: React.FC<NoteHistoryScreenProps> = ({ navigation, route }) => {
+  const { noteId } = route.params;
+  const { encryptionKey } = useCrypto();
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<NoteRevision | null>(null);
+  const [revisionContent, setRevisionContent] = useState<string | null>(null);
+  const [currentContent, setCurrentContent] = useState<string>('');
+
+  useEffect(() => {
+    const load = async () => {
+      if (!encryptionKey) {
+        return;
+      }
+      try {
+        setRevisions(await listRevisions(noteId));
+        setCurrentContent((await loadNoteContent(noteId, encryptionKey)) ?? '');
+      } catch (e) {
+        console.error('Error loading revisions:', e);
+        Alert.alert('Error', 'Failed to load the history of this note.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [noteId, encryptionKey]);
+
+  const handleSelect = async (revision: NoteRevision) => {
+    if (!encryptionKey) {
+      return;
+    }
+    setSelected(revision);
+    setRevisionContent(null);
+    try {
+      setRevisionContent(await loadRevision(noteId, revision.id, encryptionKey));
+    } catch (e) {
+      console.error('Error loading revision:', e);
+      Alert.alert(
+        'Error',
+        e instanceof DecryptionError
+          ? 'This revision failed its integrity check and cannot be shown.'
+          : 'Failed to load this revision.'
+      );
+      setSelected(null);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!selected) {
+      return;
+    }
+    Alert.alert(
+      'Restore Revision',
+      `Replace the current text with the version from ${formatRevisionDate(selected.timestamp)}? The current text is kept in the history.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: async () => {
+            if (!encryptionKey) {
+              return;
+            }
+            try {
+              setLoading(true);
+              await restoreRevision(noteId, selected.id, encryptionKey);
+              // Back to the editor, which reloads the note for the new params
+              navigation.popTo('NoteEditor', { noteId, restoredAt: Date.now() });
+            } catch (e) {
+              console.error('Error restoring revision:', e);
+              Alert.alert('Error', 'Failed to restore this revision. Please try again.');
+              setLoading(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Changes from the selected revision to the current text
+  const diff = useMemo(
+    () => (revisionContent === null ? [] : diffLines(revisionContent, currentContent)),
+    [revisionContent, currentContent]
+  );
+
+  const renderRevision = ({ item }: { item: NoteRevision }) => (
+    <TouchableOpacity style={styles.revisionRow} onPress={() => handleSelect(item)}>
+      <Ionicons name="time-outline" size={22} color="#00f2ea" style={styles.revisionIcon} />
+      <Text style={styles.revisionText}>{formatRevisionDate(item.timestamp)}</Text>
+      <Ionicons name="chevron-forward" size={20} color="#888" />
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => (selected ? setSelected(null) : navigation.goBack())}
+          style={styles.headerButton}
+        >
+          <Ionicons name="arrow-back" size={28} color="#00f2ea" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{selected ? formatRevisionDate(selected.timestamp) : 'History'}</Text>
+        {selected && revisionContent !== null ? (
+          <TouchableOpacity onPress={handleRestore} style={styles.headerButton}>
+            <Ionicons name="arrow-undo-outline" size={28} color="#00f2ea" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerButtonPlaceholder} />
+        )}
+      </View>
+
+      {loading || (selected && revisionContent === null) ? (
+        <View style={styles.centerMessage}>
+          <ActivityIndicator size="large" color="#00f2ea" />
+        </View>
+      ) : selected ? (
+        <ScrollView contentContainerStyle={styles.diffContent}>
+          <Text style={styles.legendText}>
+            <Text style={styles.removedText}>- only in this revision</Text>
+            {'   '}
+            <Text style={styles.addedText}>+ only in the current text</Text>
+          </Text>
+          {diff.map((line, index) => (
+            <Text
+              key={index}
+              style={[
+                styles.diffLine,
+                line.type === 'added' && styles.addedLine,
+                line.type === 'removed' && styles.removedLine,
+              ]}
+            >
+              {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+              {line.text}
+            </Text>
+          ))}
+        </ScrollView>
+      ) : revisions.length === 0 ? (
+        <View style={styles.centerMessage}>
+          <Text style={styles.emptyText}>No earlier versions of this note yet.</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={revisions}
+          renderItem={renderRevision}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 50,
+    paddingHorizontal: 15,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#00f2ea',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  headerButton: {
+    padding: 5,
+  },
+  headerButtonPlaceholder: {
+    width: 38,
+    height: 38,
+  },
+  centerMessage: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  listContent: {
+    paddingVertical: 10,
+    paddingHorizontal: 15,
+  },
+  revisionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    padding: 15,
+    marginBottom: 10,
+  },
+  revisionIcon: {
+    marginRight: 15,
+  },
+  revisionText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#fff',
+  },
+  diffContent: {
+    padding: 15,
+  },
+  legendText: {
+    fontSize: 12,
+    marginBottom: 10,
+  },
+  diffLine: {
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+    fontSize: 14,
+    color: '#aaa',
+    paddingHorizontal: 5,
+    paddingVertical: 1,
+  },
+  addedLine: {
+    color: '#7fffb0',
+    backgroundColor: '#0f2e1c',
+  },
+  removedLine: {
+    color: '#ff6347',
+    backgroundColor: '#330000',
+  },
+  addedText: {
+    color: '#7fffb0',
+  },
+  removedText: {
+    color: '#ff6347',
+  },
+});
+
+export default NoteHistoryScreen;
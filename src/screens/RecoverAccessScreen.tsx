@@ -0,0 +1,207 @@
+// src/screens/RecoverAccessScreen.tsx
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, ScrollView } from 'react-native';
+import { StackScreenProps } from '@react-navigation/stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useCrypto } from '../contexts/CryptoContext';
+import { validateRecoveryPhrase } from '../utils/recoveryPhrase';
+import { hasRecoveryPhrase, resetMasterPasswordWithRecoveryPhrase, VaultWipedError } from '../utils/vault';
+import { LockoutError } from '../utils/lockout';
+import { Ionicons } from '@expo/vector-icons';
+
+type RecoverAccessScreenProps = StackScreenProps<RootStackParamList, 'RecoverAccess'>;
+
+const RecoverAccessScreen: React.FC<RecoverAccessScreenProps> = ({ navigation }) => {
+  const { setEncryptionKey } = useCrypto();
+  const [phrase, setPhrase] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+  const [recoveryAvailable, setRecoveryAvailable] = useState(true);
+
+  useEffect(() => {
+    hasRecoveryPhrase()
+      .then(setRecoveryAvailable)
+      .catch(e => console.error('Error checking recovery phrase status:', e));
+  }, []);
+
+  const handleReset = async () => {
+    const phraseError = validateRecoveryPhrase(phrase);
+    if (phraseError) {
+      setError(phraseError);
+      return;
+    }
+    if (!newPassword || !confirmPassword) {
+      setError('Please fill in both password fields.');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+    setError(null);
+    setWorking(true);
+    try {
+      const vaultKey = await resetMasterPasswordWithRecoveryPhrase(phrase, newPassword);
+      if (!vaultKey) {
+        setError('Incorrect recovery phrase.');
+        return;
+      }
+      setEncryptionKey(vaultKey);
+      Alert.alert('Password Reset', 'Your master password has been reset. Your recovery phrase remains valid.');
+      navigation.reset({ index: 0, routes: [{ name: 'Home' }] });
+    } catch (e) {
+      if (e instanceof LockoutError) {
+        // Recovery attempts share the login counter, so the same back-off applies
+        setError(`Too many failed attempts. Try again after ${new Date(e.lockedUntil).toLocaleTimeString()}.`);
+      } else if (e instanceof VaultWipedError) {
+        Alert.alert('Vault Erased', 'Too many failed attempts. All notes and keys have been erased from this device.');
+        navigation.reset({ index: 0, routes: [{ name: 'Login' }] });
+      } else {
+        console.error('Error resetting master password:', e);
+        setError('Failed to reset master password. Please try again.');
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton} disabled={working}>
+          <Ionicons name="arrow-back" size={28} color="#00f2ea" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Forgot Password</Text>
+        <View style={styles.headerButtonPlaceholder} />
+      </View>
+
+      {!recoveryAvailable ? (
+        <View style={styles.content}>
+          <Text style={styles.errorText}>
+            No recovery phrase was set up for this vault, so a forgotten master password cannot be reset.
+          </Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.infoText}>
+            Enter the recovery phrase you wrote down when setting up CipherNote, then choose a new master password.
+          </Text>
+          <TextInput
+            style={[styles.input, styles.phraseInput]}
+            placeholder="Recovery phrase (words separated by spaces)"
+            placeholderTextColor="#888"
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+            textAlignVertical="top"
+            value={phrase}
+            onChangeText={setPhrase}
+            editable={!working}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="New Master Password"
+            placeholderTextColor="#888"
+            secureTextEntry
+            value={newPassword}
+            onChangeText={setNewPassword}
+            editable={!working}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Confirm New Master Password"
+            placeholderTextColor="#888"
+            secureTextEntry
+            value={confirmPassword}
+            onChangeText={setConfirmPassword}
+            editable={!working}
+          />
+          {error && <Text style={styles.errorText}>{error}</Text>}
+          {working ? (
+            <ActivityIndicator size="large" color="#00f2ea" />
+          ) : (
+            <TouchableOpacity style={styles.button} onPress={handleReset}>
+              <Text style={styles.buttonText}>Reset Password</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 50,
+    paddingHorizontal: 15,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#00f2ea',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  headerButton: {
+    padding: 5,
+  },
+  headerButtonPlaceholder: {
+    width: 38,
+    height: 38,
+  },
+  content: {
+    alignItems: 'center',
+    padding: 20,
+  },
+  infoText: {
+    color: '#aaa',
+    textAlign: 'center',
+    marginBottom: 20,
+    fontSize: 14,
+    paddingHorizontal: 10,
+  },
+  input: {
+    width: '90%',
+    padding: 15,
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    color: '#fff',
+    fontSize: 16,
+    marginBottom: 15,
+    borderWidth: 1,
+    borderColor: '#00f2ea',
+  },
+  phraseInput: {
+    minHeight: 100,
+  },
+  button: {
+    width: '90%',
+    padding: 15,
+    backgroundColor: '#00f2ea',
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  buttonText: {
+    color: '#121212',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  errorText: {
+    color: '#ff6347',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+});
+
+export default RecoverAccessScreen;
@@ -0,0 +1,253 @@
+// src/screens/RecoveryPhraseScreen.tsx
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, ScrollView } from 'react-native';
+import { StackScreenProps } from '@react-navigation/stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useCrypto } from '../contexts/CryptoContext';
+import { generateRecoveryPhrase, normalizeRecoveryPhrase, pickConfirmationIndexes } from '../utils/recoveryPhrase';
+import { setRecoveryPhrase } from '../utils/vault';
+import { Ionicons } from '@expo/vector-icons';
+
+type RecoveryPhraseScreenProps = StackScreenProps<RootStackParamList, 'RecoveryPhrase'>;
+
+const RecoveryPhraseScreen: React.FC<RecoveryPhraseScreenProps> = ({ navigation, route }) => {
+  const onboarding = route.params?.onboarding ?? false;
+  const { encryptionKey } = useCrypto();
+
+  // Generated once per visit; only ever held in memory
+  const [phrase] = useState<string[]>(() => generateRecoveryPhrase());
+  const [confirmIndexes] = useState<number[]>(() => pickConfirmationIndexes());
+  const [step, setStep] = useState<'show' | 'confirm'>('show');
+  const [answers, setAnswers] = useState<string[]>(() => confirmIndexes.map(() => ''));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const finish = () => {
+    if (onboarding) {
+      navigation.replace('Home');
+    } else {
+      navigation.goBack();
+    }
+  };
+
+  const handleConfirm = async () => {
+    const allMatch = confirmIndexes.every(
+      (wordIndex, i) => normalizeRecoveryPhrase(answers[i]) === phrase[wordIndex]
+    );
+    if (!allMatch) {
+      setError('Those words do not match your recovery phrase. Check what you wrote down.');
+      return;
+    }
+    if (!encryptionKey) {
+      Alert.alert('Error', 'Authentication required to set up a recovery phrase.');
+      navigation.replace('Login');
+      return;
+    }
+    setError(null);
+    setSaving(true);
+    try {
+      await setRecoveryPhrase(encryptionKey, phrase);
+      Alert.alert('Recovery Phrase Saved', 'You can now use this phrase to reset a forgotten master password.');
+      finish();
+    } catch (e) {
+      console.error('Error saving recovery phrase:', e);
+      setError('Failed to save the recovery phrase. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSkip = () => {
+    Alert.alert(
+      'Skip Recovery Phrase',
+      'Without a recovery phrase there is NO way to access your notes if you forget your master password. You can set one up later in Settings.',
+      [
+        { text: 'Go Back', style: 'cancel' },
+        { text: 'Skip', style: 'destructive', onPress: finish },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        {onboarding ? (
+          <View style={styles.headerButtonPlaceholder} />
+        ) : (
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+            <Ionicons name="arrow-back" size={28} color="#00f2ea" />
+          </TouchableOpacity>
+        )}
+        <Text style={styles.headerTitle}>Recovery Phrase</Text>
+        <View style={styles.headerButtonPlaceholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {step === 'show' ? (
+          <>
+            <Text style={styles.infoText}>
+              Write these {phrase.length} words down in order and keep them somewhere safe and offline.
+              They are the only way back into your notes if you forget your master password.
+              This phrase will not be shown again.
+            </Text>
+            <View style={styles.wordGrid}>
+              {phrase.map((word, index) => (
+                <View key={index} style={styles.wordCell}>
+                  <Text style={styles.wordIndex}>{index + 1}.</Text>
+                  <Text style={styles.wordText}>{word}</Text>
+                </View>
+              ))}
+            </View>
+            <TouchableOpacity style={styles.button} onPress={() => setStep('confirm')}>
+              <Text style={styles.buttonText}>I Have Written It Down</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.infoText}>Enter the requested words to confirm your copy is correct.</Text>
+            {confirmIndexes.map((wordIndex, i) => (
+              <TextInput
+                key={wordIndex}
+                style={styles.input}
+                placeholder={`Word #${wordIndex + 1}`}
+                placeholderTextColor="#888"
+                autoCapitalize="none"
+                autoCorrect={false}
+                value={answers[i]}
+                onChangeText={(text) => setAnswers(prev => prev.map((answer, j) => (j === i ? text : answer)))}
+                editable={!saving}
+              />
+            ))}
+            {error && <Text style={styles.errorText}>{error}</Text>}
+            {saving ? (
+              <ActivityIndicator size="large" color="#00f2ea" />
+            ) : (
+              <>
+                <TouchableOpacity style={styles.button} onPress={handleConfirm}>
+                  <Text style={styles.buttonText}>Confirm</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.linkButton} onPress={() => setStep('show')}>
+                  <Text style={styles.linkText}>Show the phrase again</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </>
+        )}
+        {onboarding && !saving && (
+          <TouchableOpacity style={styles.linkButton} onPress={handleSkip}>
+            <Text style={styles.skipText}>Skip for now</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 50,
+    paddingHorizontal: 15,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#00f2ea',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  headerButton: {
+    padding: 5,
+  },
+  headerButtonPlaceholder: {
+    width: 38,
+    height: 38,
+  },
+  content: {
+    alignItems: 'center',
+    padding: 20,
+  },
+  infoText: {
+    color: '#aaa',
+    textAlign: 'center',
+    marginBottom: 20,
+    fontSize: 14,
+    paddingHorizontal: 10,
+  },
+  wordGrid: {
+    width: '90%',
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginBottom: 10,
+  },
+  wordCell: {
+    width: '48%',
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+  },
+  wordIndex: {
+    color: '#888',
+    width: 28,
+    fontSize: 14,
+  },
+  wordText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  input: {
+    width: '90%',
+    padding: 15,
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    color: '#fff',
+    fontSize: 16,
+    marginBottom: 15,
+    borderWidth: 1,
+    borderColor: '#00f2ea',
+  },
+  button: {
+    width: '90%',
+    padding: 15,
+    backgroundColor: '#00f2ea',
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  buttonText: {
+    color: '#121212',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  errorText: {
+    color: '#ff6347',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  linkButton: {
+    marginTop: 20,
+    padding: 5,
+  },
+  linkText: {
+    color: '#00f2ea',
+    fontSize: 16,
+  },
+  skipText: {
+    color: '#888',
+    fontSize: 14,
+  },
+});
+
+export default RecoveryPhraseScreen;
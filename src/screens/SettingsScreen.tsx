@@ -0,0 +1,461 @@
+// src/screens/SettingsScreen.tsx
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ScrollView } from 'react-native';
+import { StackScreenProps } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { hasRecoveryPhrase } from '../utils/vault';
+import { benchmarkEncryption, BenchmarkTiming } from '../utils/noteStorage';
+import {
+  BiometricUnlockState,
+  disableBiometricUnlock,
+  enableBiometricUnlock,
+  getBiometricUnlockState,
+} from '../utils/biometric';
+import { useCrypto } from '../contexts/CryptoContext';
+import { Ionicons } from '@expo/vector-icons';
+
+type SettingsScreenProps = StackScreenProps<RootStackParamList, 'Settings'>;
+
+interface SettingsRowProps {
+  icon: React.ComponentProps<typeof Ionicons>['name'];
+  title: string;
+  subtitle?: string;
+  onPress: () => void;
+}
+
+const SettingsRow: React.FC<SettingsRowProps> = ({ icon, title, subtitle, onPress }) => (
+  <TouchableOpacity style={styles.row} onPress={onPress}>
+    <Ionicons name={icon} size={24} color="#00f2ea" style={styles.rowIcon} />
+    <View style={styles.rowTextContainer}>
+      <Text style={styles.rowTitle}>{title}</Text>
+      {subtitle && <Text style={styles.rowSubtitle}>{subtitle}</Text>}
+    </View>
+    <Ionicons name="chevron-forward" size={20} color="#888" />
+  </TouchableOpacity>
+);
+
+interface OptionRowProps<T> {
+  title: string;
+  options: { label: string; value: T }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+const OptionRow = <T,>({ title, options, value, onChange }: OptionRowProps<T>) => (
+  <View style={styles.optionRow}>
+    <Text style={styles.rowTitle}>{title}</Text>
+    <View style={styles.optionChips}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.label}
+          style={[styles.optionChip, option.value === value && styles.optionChipSelected]}
+          onPress={() => onChange(option.value)}
+        >
+          <Text style={[styles.optionChipText, option.value === value && styles.optionChipTextSelected]}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  </View>
+);
+
+const AUTO_LOCK_OPTIONS: { label: string; value: number | null }[] = [
+  { label: '1 min', value: 60 * 1000 },
+  { label: '5 min', value: 5 * 60 * 1000 },
+  { label: '15 min', value: 15 * 60 * 1000 },
+  { label: 'Never', value: null },
+];
+
+const BACKGROUND_GRACE_OPTIONS: { label: string; value: number }[] = [
+  { label: 'Immediately', value: 0 },
+  { label: '15 sec', value: 15 * 1000 },
+  { label: '1 min', value: 60 * 1000 },
+  { label: '5 min', value: 5 * 60 * 1000 },
+];
+
+const WIPE_AFTER_FAILED_ATTEMPTS_OPTIONS: { label: string; value: number | null }[] = [
+  { label: 'Off', value: null },
+  { label: '5', value: 5 },
+  { label: '10', value: 10 },
+  { label: '20', value: 20 },
+];
+
+const BIOMETRIC_PASSWORD_INTERVAL_OPTIONS: { label: string; value: number | null }[] = [
+  { label: '1 day', value: 1 },
+  { label: '7 days', value: 7 },
+  { label: '30 days', value: 30 },
+  { label: 'Never', value: null },
+];
+
+const BIOMETRIC_STATE_LABELS: Record<BiometricUnlockState, string> = {
+  unavailable: 'Not available: no fingerprint or face is enrolled',
+  disabled: 'Off',
+  'password-required': 'On: Face ID or fingerprint unlocks this vault',
+  ready: 'On: Face ID or fingerprint unlocks this vault',
+};
+
+const REVISION_COUNT_OPTIONS: { label: string; value: number | null }[] = [
+  { label: '10', value: 10 },
+  { label: '20', value: 20 },
+  { label: '50', value: 50 },
+  { label: 'No limit', value: null },
+];
+
+const REVISION_AGE_OPTIONS: { label: string; value: number | null }[] = [
+  { label: '7 days', value: 7 },
+  { label: '30 days', value: 30 },
+  { label: '1 year', value: 365 },
+  { label: 'Forever', value: null },
+];
+
+const TRASH_RETENTION_OPTIONS: { label: string; value: number | null }[] = [
+  { label: '7 days', value: 7 },
+  { label: '30 days', value: 30 },
+  { label: '90 days', value: 90 },
+  { label: 'Never', value: null },
+];
+
+const formatTiming = (timing: BenchmarkTiming) => `${timing.ms} ms (stall ${timing.longestStallMs} ms)`;
+
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
+  const { encryptionKey, settings, updateSettings, activeVault, lockVault } = useCrypto();
+  const [recoveryConfigured, setRecoveryConfigured] = useState<boolean | null>(null);
+  const [biometricState, setBiometricState] = useState<BiometricUnlockState | null>(null);
+  const [isBenchmarking, setIsBenchmarking] = useState(false);
+
+  // The password interval doesn't matter here: only whether biometric unlock is set up
+  const refreshBiometricState = useCallback(() => {
+    getBiometricUnlockState(null)
+      .then(setBiometricState)
+      .catch(e => console.error('Error checking biometric unlock status:', e));
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      hasRecoveryPhrase()
+        .then(setRecoveryConfigured)
+        .catch(e => console.error('Error checking recovery phrase status:', e));
+      refreshBiometricState();
+    }, [refreshBiometricState])
+  );
+
+  const handleRecoveryPhrase = () => {
+    if (!recoveryConfigured) {
+      navigation.navigate('RecoveryPhrase', {});
+      return;
+    }
+    Alert.alert(
+      'New Recovery Phrase',
+      'Generating a new recovery phrase permanently invalidates your current one.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Generate', style: 'destructive', onPress: () => navigation.navigate('RecoveryPhrase', {}) },
+      ]
+    );
+  };
+
+  const handleBiometricUnlock = async () => {
+    if (!encryptionKey || biometricState === null) {
+      return;
+    }
+    if (biometricState === 'unavailable') {
+      Alert.alert('Biometric Unlock', 'Enroll a fingerprint or face in the device settings to use biometric unlock.');
+      return;
+    }
+    if (biometricState !== 'disabled') {
+      Alert.alert('Turn Off Biometric Unlock?', 'You will need your master password to unlock.', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn Off',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await disableBiometricUnlock();
+            } catch (e) {
+              console.error('Error disabling biometric unlock:', e);
+              Alert.alert('Error', 'Failed to turn off biometric unlock. Please try again.');
+            }
+            refreshBiometricState();
+          },
+        },
+      ]);
+      return;
+    }
+    try {
+      await enableBiometricUnlock(encryptionKey);
+      Alert.alert(
+        'Biometric Unlock Enabled',
+        'It stops working if the fingerprints or faces enrolled on this device change; unlock with your password and turn it on again.'
+      );
+    } catch (e) {
+      console.error('Error enabling biometric unlock:', e);
+      Alert.alert('Error', e instanceof Error ? e.message : 'Failed to turn on biometric unlock.');
+    }
+    refreshBiometricState();
+  };
+
+  const handleWipeAfterFailedAttempts = (wipeAfterFailedAttempts: number | null) => {
+    if (wipeAfterFailedAttempts === null) {
+      updateSettings({ wipeAfterFailedAttempts });
+      return;
+    }
+    Alert.alert(
+      'Enable Self-Destruct?',
+      `After ${wipeAfterFailedAttempts} wrong passwords in a row, every note and key on this device will be permanently erased. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Enable', style: 'destructive', onPress: () => updateSettings({ wipeAfterFailedAttempts }) },
+      ]
+    );
+  };
+
+  const handleBenchmark = async () => {
+    if (!encryptionKey || isBenchmarking) {
+      return;
+    }
+    try {
+      setIsBenchmarking(true);
+      const results = await benchmarkEncryption(encryptionKey);
+      Alert.alert(
+        'Encryption Benchmark',
+        results
+          .map(result =>
+            [
+              `${Math.round(result.size / 1024)} KB`,
+              `Envelope: write ${formatTiming(result.envelopeWrite)}, read ${formatTiming(result.envelopeRead)}`,
+              `Chunked: write ${formatTiming(result.chunkedWrite)}, read ${formatTiming(result.chunkedRead)}`,
+            ].join('\n')
+          )
+          .join('\n\n')
+      );
+    } catch (e) {
+      console.error('Error running the encryption benchmark:', e);
+      Alert.alert('Error', 'The encryption benchmark failed.');
+    } finally {
+      setIsBenchmarking(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={28} color="#00f2ea" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Settings</Text>
+        <View style={styles.headerButtonPlaceholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>Security</Text>
+        <SettingsRow
+          icon="key-outline"
+          title="Change Master Password"
+          onPress={() => navigation.navigate('ChangePassword')}
+        />
+        <SettingsRow
+          icon="document-lock-outline"
+          title={recoveryConfigured ? 'Generate New Recovery Phrase' : 'Set Up Recovery Phrase'}
+          subtitle={recoveryConfigured ? 'A recovery phrase is set up' : 'Not set up: a forgotten password cannot be reset'}
+          onPress={handleRecoveryPhrase}
+        />
+        <SettingsRow
+          icon="finger-print-outline"
+          title="Biometric Unlock"
+          subtitle={biometricState ? BIOMETRIC_STATE_LABELS[biometricState] : undefined}
+          onPress={handleBiometricUnlock}
+        />
+        <OptionRow
+          title="Ask for the password with biometric unlock every"
+          options={BIOMETRIC_PASSWORD_INTERVAL_OPTIONS}
+          value={settings.biometricPasswordIntervalDays}
+          onChange={(biometricPasswordIntervalDays) => updateSettings({ biometricPasswordIntervalDays })}
+        />
+        <SettingsRow
+          icon="eye-off-outline"
+          title="Duress Password"
+          subtitle="Opens a decoy vault if you are forced to unlock"
+          onPress={() => navigation.navigate('DuressPassword')}
+        />
+        <OptionRow
+          title="Erase all data after failed attempts"
+          options={WIPE_AFTER_FAILED_ATTEMPTS_OPTIONS}
+          value={settings.wipeAfterFailedAttempts}
+          onChange={handleWipeAfterFailedAttempts}
+        />
+
+        <Text style={styles.sectionTitle}>Auto-Lock</Text>
+        <OptionRow
+          title="Lock after inactivity"
+          options={AUTO_LOCK_OPTIONS}
+          value={settings.autoLockTimeoutMs}
+          onChange={(autoLockTimeoutMs) => updateSettings({ autoLockTimeoutMs })}
+        />
+        <OptionRow
+          title="Lock when in background"
+          options={BACKGROUND_GRACE_OPTIONS}
+          value={settings.backgroundGraceMs}
+          onChange={(backgroundGraceMs) => updateSettings({ backgroundGraceMs })}
+        />
+
+        <Text style={styles.sectionTitle}>Revision History</Text>
+        <OptionRow
+          title="Revisions kept per note"
+          options={REVISION_COUNT_OPTIONS}
+          value={settings.revisionRetentionCount}
+          onChange={(revisionRetentionCount) => updateSettings({ revisionRetentionCount })}
+        />
+        <OptionRow
+          title="Keep revisions for"
+          options={REVISION_AGE_OPTIONS}
+          value={settings.revisionRetentionDays}
+          onChange={(revisionRetentionDays) => updateSettings({ revisionRetentionDays })}
+        />
+
+        <Text style={styles.sectionTitle}>Data</Text>
+        <SettingsRow
+          icon="albums-outline"
+          title="Switch Vault"
+          subtitle={activeVault ? `Locks "${activeVault.name}" and returns to the vault list` : undefined}
+          onPress={lockVault}
+        />
+        <SettingsRow
+          icon="archive-outline"
+          title="Backup & Restore"
+          subtitle="Export or import an encrypted backup file"
+          onPress={() => navigation.navigate('Backup')}
+        />
+        <SettingsRow
+          icon="trash-bin-outline"
+          title="Trash"
+          subtitle="Restore or permanently delete deleted notes"
+          onPress={() => navigation.navigate('Trash')}
+        />
+        <SettingsRow
+          icon="shield-checkmark-outline"
+          title="Check Vault"
+          subtitle="Verify every note and repair the note list"
+          onPress={() => navigation.navigate('VaultCheck')}
+        />
+        <OptionRow
+          title="Empty trash automatically after"
+          options={TRASH_RETENTION_OPTIONS}
+          value={settings.trashRetentionDays}
+          onChange={(trashRetentionDays) => updateSettings({ trashRetentionDays })}
+        />
+
+        {__DEV__ && (
+          <>
+            <Text style={styles.sectionTitle}>Developer</Text>
+            <SettingsRow
+              icon="speedometer-outline"
+              title={isBenchmarking ? 'Running Benchmark...' : 'Encryption Benchmark'}
+              subtitle="Compare the envelope and chunked formats on this device"
+              onPress={handleBenchmark}
+            />
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 50,
+    paddingHorizontal: 15,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#00f2ea',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  headerButton: {
+    padding: 5,
+  },
+  headerButtonPlaceholder: {
+    width: 38,
+    height: 38,
+  },
+  content: {
+    paddingVertical: 10,
+    paddingHorizontal: 15,
+  },
+  sectionTitle: {
+    color: '#00f2ea',
+    fontSize: 14,
+    fontWeight: 'bold',
+    textTransform: 'uppercase',
+    marginTop: 15,
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    padding: 15,
+    marginBottom: 10,
+  },
+  rowIcon: {
+    marginRight: 15,
+  },
+  rowTextContainer: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  optionRow: {
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    padding: 15,
+    marginBottom: 10,
+  },
+  optionChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 10,
+  },
+  optionChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#00f2ea',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionChipSelected: {
+    backgroundColor: '#00f2ea',
+  },
+  optionChipText: {
+    color: '#00f2ea',
+    fontSize: 14,
+  },
+  optionChipTextSelected: {
+    color: '#121212',
+    fontWeight: 'bold',
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    color: '#aaa',
+    marginTop: 3,
+  },
+});
+
+export default SettingsScreen;
@@ -0,0 +1,245 @@
+// src/screens/TrashScreen.tsx
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { StackScreenProps } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useCrypto } from '../contexts/CryptoContext';
+import { getTrashedNotes, restoreNote, deleteTrashedNotes, TrashedNote } from '../utils/noteStorage';
+import { Ionicons } from '@expo/vector-icons';
+
+type TrashScreenProps = StackScreenProps<RootStackParamList, 'Trash'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TrashScreen: React.FC<TrashScreenProps> = ({ navigation }) => {
+  const { encryptionKey, settings } = useCrypto();
+  const [trashedNotes, setTrashedNotes] = useState<TrashedNote[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadTrash = useCallback(async () => {
+    if (!encryptionKey) {
+      return;
+    }
+    try {
+      setTrashedNotes(await getTrashedNotes(encryptionKey));
+    } catch (e) {
+      console.error('Error loading trash:', e);
+      Alert.alert('Error', 'Failed to load the trash.');
+    } finally {
+      setLoading(false);
+    }
+  }, [encryptionKey]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [loadTrash])
+  );
+
+  const describeDeletion = (note: TrashedNote): string => {
+    const deleted = `Deleted ${new Date(note.deletedAt).toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' })}`;
+    if (settings.trashRetentionDays === null) {
+      return deleted;
+    }
+    const daysLeft = Math.max(0, Math.ceil((note.deletedAt + settings.trashRetentionDays * DAY_MS - Date.now()) / DAY_MS));
+    return `${deleted} · erased in ${daysLeft} day(s)`;
+  };
+
+  const handleRestore = async (note: TrashedNote) => {
+    if (!encryptionKey) {
+      return;
+    }
+    try {
+      await restoreNote(note.id, encryptionKey);
+      loadTrash();
+    } catch (e) {
+      console.error('Error restoring note:', e);
+      Alert.alert('Error', e instanceof Error ? e.message : 'Failed to restore note. Please try again.');
+    }
+  };
+
+  const confirmDelete = (ids: string[], title: string, message: string) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          if (!encryptionKey) {
+            return;
+          }
+          try {
+            setLoading(true);
+            await deleteTrashedNotes(ids, encryptionKey);
+          } catch (e) {
+            console.error('Error deleting trashed notes:', e);
+            Alert.alert('Error', 'Failed to delete. Please try again.');
+          } finally {
+            loadTrash();
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleDeleteForever = (note: TrashedNote) => {
+    confirmDelete(
+      [note.id],
+      'Delete Forever',
+      `Permanently delete "${note.title || 'Untitled Note'}" and its history? This cannot be undone.`
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    confirmDelete(
+      trashedNotes.map(note => note.id),
+      'Empty Trash',
+      `Permanently delete all ${trashedNotes.length} note(s) in the trash? This cannot be undone.`
+    );
+  };
+
+  const renderTrashedNote = ({ item }: { item: TrashedNote }) => (
+    <View style={styles.noteItemContainer}>
+      <View style={styles.noteItem}>
+        <Text style={styles.noteTitleText} numberOfLines={1}>{item.title || 'Untitled Note'}</Text>
+        {!!item.preview && (
+          <Text style={styles.notePreviewText} numberOfLines={2}>{item.preview}</Text>
+        )}
+        <Text style={styles.noteTimestamp}>{describeDeletion(item)}</Text>
+      </View>
+      <TouchableOpacity style={styles.restoreButton} onPress={() => handleRestore(item)}>
+        <Ionicons name="arrow-undo-outline" size={24} color="#00f2ea" />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.deleteButton} onPress={() => handleDeleteForever(item)}>
+        <Ionicons name="close-circle-outline" size={24} color="#ff6347" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={28} color="#00f2ea" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Trash</Text>
+        {trashedNotes.length > 0 ? (
+          <TouchableOpacity onPress={handleEmptyTrash} style={styles.headerButton}>
+            <Ionicons name="trash-outline" size={28} color="#ff6347" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerButtonPlaceholder} />
+        )}
+      </View>
+
+      {loading ? (
+        <View style={styles.centerMessage}>
+          <ActivityIndicator size="large" color="#00f2ea" />
+        </View>
+      ) : trashedNotes.length === 0 ? (
+        <View style={styles.centerMessage}>
+          <Ionicons name="trash-outline" size={80} color="#00f2ea" style={styles.emptyStateIcon} />
+          <Text style={styles.emptyText}>The trash is empty.</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={trashedNotes}
+          renderItem={renderTrashedNote}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 50,
+    paddingHorizontal: 15,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#00f2ea',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  headerButton: {
+    padding: 5,
+  },
+  headerButtonPlaceholder: {
+    width: 38,
+    height: 38,
+  },
+  centerMessage: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  emptyStateIcon: {
+    marginBottom: 20,
+    opacity: 0.7,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  listContent: {
+    paddingVertical: 10,
+    paddingHorizontal: 15,
+  },
+  noteItemContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    marginBottom: 10,
+    overflow: 'hidden',
+  },
+  noteItem: {
+    flex: 1,
+    padding: 15,
+  },
+  noteTitleText: {
+    fontSize: 16,
+    color: '#fff',
+    marginBottom: 5,
+    fontWeight: '600',
+  },
+  notePreviewText: {
+    fontSize: 14,
+    color: '#ccc',
+    marginBottom: 5,
+  },
+  noteTimestamp: {
+    fontSize: 12,
+    color: '#aaa',
+  },
+  restoreButton: {
+    padding: 15,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  deleteButton: {
+    padding: 15,
+    backgroundColor: '#330000',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+    borderRadius: 8,
+  },
+});
+
+export default TrashScreen;
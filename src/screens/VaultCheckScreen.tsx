@@ -0,0 +1,320 @@
+// src/screens/VaultCheckScreen.tsx
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator, ScrollView } from 'react-native';
+import { StackScreenProps } from '@react-navigation/stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useCrypto } from '../contexts/CryptoContext';
+import {
+  checkVault,
+  dropDanglingEntries,
+  quarantineNotes,
+  rebuildIndexFromFiles,
+  VaultCheckItem,
+  VaultCheckReport,
+} from '../utils/noteStorage';
+import { Ionicons } from '@expo/vector-icons';
+
+type VaultCheckScreenProps = StackScreenProps<RootStackParamList, 'VaultCheck'>;
+
+const REASON_TEXT: Record<VaultCheckReport['undecryptableNotes'][number]['reason'], string> = {
+  INVALID_INPUT: 'empty file',
+  MALFORMED: 'corrupt or truncated',
+  UNSUPPORTED_VERSION: 'written by a newer version',
+  UNSUPPORTED_ALGORITHM: 'written by a newer version',
+  AUTHENTICATION_FAILED: 'wrong key or tampered with',
+  LEGACY_DECRYPT_FAILED: 'wrong key or corrupt',
+  UNREADABLE: 'file could not be read',
+};
+
+interface ReportSectionProps {
+  title: string;
+  description: string;
+  items: (VaultCheckItem & { reason?: string })[];
+  repairLabel: string;
+  onRepair: () => void;
+}
+
+const ReportSection: React.FC<ReportSectionProps> = ({ title, description, items, repairLabel, onRepair }) => (
+  <View style={styles.section}>
+    <View style={styles.sectionHeader}>
+      <Ionicons name="warning-outline" size={20} color="#ff6347" />
+      <Text style={styles.sectionTitle}>{title} ({items.length})</Text>
+    </View>
+    <Text style={styles.sectionDescription}>{description}</Text>
+    {items.map(item => (
+      <Text key={`${item.inTrash}-${item.id}`} style={styles.itemText} numberOfLines={1}>
+        • {item.title || 'Untitled Note'}
+        {item.inTrash ? ' (in trash)' : ''}
+        {item.reason ? ` — ${item.reason}` : ''}
+      </Text>
+    ))}
+    <TouchableOpacity style={styles.repairButton} onPress={onRepair}>
+      <Text style={styles.repairButtonText}>{repairLabel}</Text>
+    </TouchableOpacity>
+  </View>
+);
+
+const VaultCheckScreen: React.FC<VaultCheckScreenProps> = ({ navigation }) => {
+  const { encryptionKey } = useCrypto();
+  const [report, setReport] = useState<VaultCheckReport | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const working = progress !== null;
+
+  const runCheck = async () => {
+    if (!encryptionKey) {
+      return;
+    }
+    setProgress('Reading the index...');
+    try {
+      setReport(
+        await checkVault(encryptionKey, (done, total) => {
+          setProgress(`Verifying note ${done} of ${total}...`);
+        })
+      );
+    } catch (e) {
+      console.error('Error checking vault:', e);
+      Alert.alert('Error', 'The vault check could not be completed.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const runRepair = (title: string, message: string, repair: () => Promise<unknown>) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Repair',
+        onPress: async () => {
+          setProgress('Repairing...');
+          try {
+            await repair();
+          } catch (e) {
+            console.error('Error repairing vault:', e);
+            Alert.alert('Error', e instanceof Error ? e.message : 'The repair failed. Please try again.');
+          }
+          // Check again so the report shows what is left
+          await runCheck();
+        },
+      },
+    ]);
+  };
+
+  const hasProblems =
+    report !== null &&
+    (report.orphanedFiles.length > 0 || report.danglingEntries.length > 0 || report.undecryptableNotes.length > 0);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton} disabled={working}>
+          <Ionicons name="arrow-back" size={28} color="#00f2ea" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Check Vault</Text>
+        <View style={styles.headerButtonPlaceholder} />
+      </View>
+
+      {working ? (
+        <View style={styles.workingContainer}>
+          <ActivityIndicator size="large" color="#00f2ea" />
+          <Text style={styles.progressText}>{progress}</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.infoText}>
+            Decrypts every note to verify it has not been corrupted or tampered with, and compares the note files on
+            this device with the note list.
+          </Text>
+          <TouchableOpacity style={styles.button} onPress={runCheck}>
+            <Text style={styles.buttonText}>{report ? 'Check Again' : 'Check Vault'}</Text>
+          </TouchableOpacity>
+
+          {report && (
+            <>
+              <View style={styles.summary}>
+                <Ionicons
+                  name={hasProblems ? 'alert-circle-outline' : 'checkmark-circle-outline'}
+                  size={28}
+                  color={hasProblems ? '#ff6347' : '#00f2ea'}
+                />
+                <Text style={styles.summaryText}>
+                  {report.verifiedNotes} note(s) verified{hasProblems ? '' : ', no problems found'}.
+                </Text>
+              </View>
+              {report.indexRecovered && (
+                <Text style={styles.noticeText}>
+                  The note list was damaged and has been recovered from its backup copy and the note files.
+                </Text>
+              )}
+
+              {report.undecryptableNotes.length > 0 && (
+                <ReportSection
+                  title="Notes that don't decrypt"
+                  description="These files fail their integrity check. Quarantining moves them out of the vault without deleting them."
+                  items={report.undecryptableNotes.map(item => ({ ...item, reason: REASON_TEXT[item.reason] }))}
+                  repairLabel="Quarantine"
+                  onRepair={() =>
+                    runRepair(
+                      'Quarantine Notes',
+                      `Move ${report.undecryptableNotes.length} unreadable note file(s) out of the vault? They will no longer be listed.`,
+                      () => quarantineNotes(report.undecryptableNotes, encryptionKey!)
+                    )
+                  }
+                />
+              )}
+              {report.orphanedFiles.length > 0 && (
+                <ReportSection
+                  title="Notes missing from the list"
+                  description="These notes are on this device but not in the note list. Rebuilding the list brings them back."
+                  items={report.orphanedFiles}
+                  repairLabel="Rebuild Note List"
+                  onRepair={() =>
+                    runRepair(
+                      'Rebuild Note List',
+                      'Rebuild the note list from the note files? Tags and notebooks of notes already listed are kept.',
+                      () => rebuildIndexFromFiles(encryptionKey!)
+                    )
+                  }
+                />
+              )}
+              {report.danglingEntries.length > 0 && (
+                <ReportSection
+                  title="Listed notes with no file"
+                  description="The note list has entries whose note file is gone. Their content cannot be recovered."
+                  items={report.danglingEntries}
+                  repairLabel="Remove Entries"
+                  onRepair={() =>
+                    runRepair(
+                      'Remove Entries',
+                      `Remove ${report.danglingEntries.length} entr${report.danglingEntries.length === 1 ? 'y' : 'ies'} with no note file from the note list?`,
+                      () => dropDanglingEntries(report.danglingEntries, encryptionKey!)
+                    )
+                  }
+                />
+              )}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 50,
+    paddingHorizontal: 15,
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#00f2ea',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  headerButton: {
+    padding: 5,
+  },
+  headerButtonPlaceholder: {
+    width: 38,
+    height: 38,
+  },
+  content: {
+    padding: 20,
+  },
+  workingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  progressText: {
+    color: '#fff',
+    marginTop: 10,
+    fontSize: 16,
+  },
+  infoText: {
+    color: '#aaa',
+    textAlign: 'center',
+    marginBottom: 15,
+    fontSize: 14,
+  },
+  button: {
+    padding: 15,
+    backgroundColor: '#00f2ea',
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  buttonText: {
+    color: '#121212',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  summaryText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 16,
+    marginLeft: 10,
+  },
+  noticeText: {
+    color: '#aaa',
+    fontSize: 14,
+    marginBottom: 15,
+  },
+  section: {
+    backgroundColor: '#1e1e1e',
+    borderRadius: 8,
+    padding: 15,
+    marginBottom: 15,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 5,
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  sectionDescription: {
+    color: '#aaa',
+    fontSize: 13,
+    marginBottom: 10,
+  },
+  itemText: {
+    color: '#ccc',
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  repairButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    paddingHorizontal: 15,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#00f2ea',
+    marginTop: 10,
+  },
+  repairButtonText: {
+    color: '#00f2ea',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
+
+export default VaultCheckScreen;
@@ -0,0 +1,158 @@
+// src/utils/__tests__/backup.test.ts
+import * as FileSystem from 'expo-file-system';
+import * as SecureStore from 'expo-secure-store';
+import { BackupError, countImportCollisions, DecryptedBackup, importBackup, readBackup } from '../backup';
+import { encryptData, generateVaultKey } from '../crypto';
+import { deriveKeyWithDescriptor } from '../kdf';
+import {
+  clearNoteIndexCache,
+  deleteTrashedNotes,
+  getAllNoteMetadata,
+  getTrashedNotes,
+  listRevisions,
+  loadNoteContent,
+  restoreNote,
+  saveNote,
+  trashNote,
+} from '../noteStorage';
+
+const fileSystem = FileSystem as typeof FileSystem & { __reset: () => void; __getFiles: () => Map<string, Buffer> };
+const secureStore = SecureStore as typeof SecureStore & { __reset: () => void };
+
+const BACKUP_URI = `${FileSystem.cacheDirectory}test.cnbackup`;
+
+const writeBackupFile = async (contents: unknown) => {
+  await FileSystem.writeAsStringAsync(BACKUP_URI, JSON.stringify(contents));
+};
+
+const expectBackupError = async (code: BackupError['code']) => {
+  const error = await readBackup(BACKUP_URI, 'passphrase').catch(caught => caught);
+  expect(error).toBeInstanceOf(BackupError);
+  expect(error.code).toBe(code);
+};
+
+beforeEach(() => {
+  fileSystem.__reset();
+  secureStore.__reset();
+  clearNoteIndexCache();
+});
+
+describe('readBackup', () => {
+  const header = { format: 'ciphernote-backup', version: 1, payload: 'AAAA' };
+
+  it('refuses a key derivation cost above what the app would choose, without deriving', async () => {
+    await writeBackupFile({ ...header, kdf: { algorithm: 'pbkdf2', hash: 'sha256', iterations: 1e9, salt: 'c2FsdA==' } });
+    const started = Date.now();
+    await expectBackupError('NOT_A_BACKUP');
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('refuses unknown algorithms and incomplete descriptors', async () => {
+    for (const kdf of [
+      { algorithm: 'argon2', salt: 'c2FsdA==' },
+      { algorithm: 'pbkdf2', hash: 'md5', iterations: 100000, salt: 'c2FsdA==' },
+      { algorithm: 'pbkdf2', hash: 'sha256', salt: 'c2FsdA==' },
+      { algorithm: 'scrypt', cost: 3 * 2 ** 14, blockSize: 8, parallelization: 1, salt: 'c2FsdA==' },
+      { algorithm: 'pbkdf2', hash: 'sha256', iterations: 100000 },
+      'pbkdf2',
+    ]) {
+      await writeBackupFile({ ...header, kdf });
+      await expectBackupError('NOT_A_BACKUP');
+    }
+  });
+
+  it('reports a wrong passphrase for an acceptable descriptor', async () => {
+    await writeBackupFile({ ...header, kdf: { algorithm: 'pbkdf2', hash: 'sha256', iterations: 10000, salt: 'c2FsdA==' } });
+    await expectBackupError('WRONG_PASSPHRASE');
+  });
+});
+
+describe('importBackup and the trash', () => {
+  const key = generateVaultKey();
+  const backupWith = (id: string, content: string): DecryptedBackup => ({
+    createdAt: 1,
+    notebooks: [],
+    notes: [{ id, content, timestamp: 2, createdAt: 2 }],
+  });
+
+  it('treats the ID of a trashed note as taken, so the trashed note can still be restored', async () => {
+    await saveNote({ id: '100', content: 'trashed note', timestamp: 1 }, key);
+    await trashNote('100', key);
+
+    const backup = backupWith('100', 'from the backup');
+    expect(await countImportCollisions(backup, key)).toBe(1);
+    const result = await importBackup(backup, key, 'overwrite');
+    expect(result).toEqual({ added: 0, overwritten: 0, duplicated: 1, skipped: 0 });
+
+    const [imported] = await getAllNoteMetadata(key);
+    expect(imported.id).not.toBe('100');
+    expect(await loadNoteContent(imported.id, key)).toBe('from the backup');
+
+    await restoreNote('100', key);
+    expect(await loadNoteContent('100', key)).toBe('trashed note');
+    expect(await getTrashedNotes(key)).toEqual([]);
+  });
+
+  it('skips a trashed ID like any other taken one', async () => {
+    await saveNote({ id: '100', content: 'trashed note', timestamp: 1 }, key);
+    await trashNote('100', key);
+    expect(await importBackup(backupWith('100', 'from the backup'), key, 'skip')).toMatchObject({ skipped: 1 });
+    expect(await getAllNoteMetadata(key)).toEqual([]);
+  });
+
+  it("keeps a live note's history when a trashed note with its ID is deleted for good", async () => {
+    // The state an import made before trashed IDs counted as taken
+    const now = Date.now();
+    await saveNote({ id: '200', content: 'first life', timestamp: now - 2000 }, key);
+    await trashNote('200', key);
+    await saveNote({ id: '200', content: 'second life', timestamp: now - 1000 }, key);
+    await saveNote({ id: '200', content: 'second life, edited', timestamp: now }, key);
+    expect(await listRevisions('200')).toHaveLength(1);
+
+    await deleteTrashedNotes(['200'], key);
+    expect(await getTrashedNotes(key)).toEqual([]);
+    expect(await listRevisions('200')).toHaveLength(1);
+    expect(await loadNoteContent('200', key)).toBe('second life, edited');
+  });
+});
+
+describe('IDs from a backup', () => {
+  const key = generateVaultKey();
+  const traversalBackup = (noteId: string, attachmentId = '5'): DecryptedBackup => ({
+    createdAt: 1,
+    notebooks: [],
+    notes: [
+      {
+        id: noteId,
+        content: 'crafted',
+        timestamp: 2,
+        createdAt: 2,
+        attachments: [{ id: attachmentId, name: 'a.txt', mimeType: 'text/plain', size: 1, addedAt: 2, data: 'YQ==' }],
+      },
+    ],
+  });
+  const filesOutsideTheVault = () =>
+    [...fileSystem.__getFiles().keys()].filter(path => !path.startsWith(`${FileSystem.documentDirectory}notes/`));
+
+  it('refuses a backup file whose note IDs could leave the vault directory', async () => {
+    const kdf = { algorithm: 'pbkdf2' as const, hash: 'sha256' as const, iterations: 10000, salt: 'c2FsdA==' };
+    const payload = { ...traversalBackup('../../x'), noteCount: 1 };
+    await writeBackupFile({
+      format: 'ciphernote-backup',
+      version: 1,
+      kdf,
+      payload: encryptData(JSON.stringify(payload), deriveKeyWithDescriptor('passphrase', kdf)),
+    });
+    await expectBackupError('CORRUPT');
+  });
+
+  it('imports nothing when a note or attachment ID is not a timestamp', async () => {
+    for (const backup of [traversalBackup('../../x'), traversalBackup('7', '../../../y'), traversalBackup('')]) {
+      const error = await importBackup(backup, key, 'keep-both').catch(caught => caught);
+      expect(error).toBeInstanceOf(BackupError);
+      expect(error.code).toBe('CORRUPT');
+    }
+    expect(filesOutsideTheVault()).toEqual([]);
+    expect(await getAllNoteMetadata(key)).toEqual([]);
+  });
+});
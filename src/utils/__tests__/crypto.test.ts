@@ -0,0 +1,169 @@
+// src/utils/__tests__/crypto.test.ts
+import CryptoJS from 'crypto-js';
+import {
+  CHUNKED_HEADER_SIZE,
+  CHUNKED_SEGMENT_SIZE,
+  createSegmentCipher,
+  decryptData,
+  DecryptionError,
+  DecryptionErrorCode,
+  encryptData,
+  isChunkedCiphertext,
+  isLegacyCiphertext,
+} from '../crypto';
+
+const key = CryptoJS.enc.Hex.parse('00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff');
+const otherKey = CryptoJS.enc.Hex.parse('ffeeddccbbaa99887766554433221100ffeeddccbbaa99887766554433221100');
+
+/**
+ * Encrypts the way the app did before the envelope: "iv:ciphertext", with no MAC.
+ */
+const encryptLegacy = (data: string, legacyKey: CryptoJS.lib.WordArray) => {
+  const iv = CryptoJS.enc.Hex.parse('0f0e0d0c0b0a09080706050403020100');
+  const encrypted = CryptoJS.AES.encrypt(data, legacyKey, { iv, mode: CryptoJS.mode.CBC, padding: CryptoJS.pad.Pkcs7 });
+  return `${iv.toString()}:${encrypted.toString()}`;
+};
+
+/**
+ * Flips one bit of an envelope's raw bytes.
+ */
+const flipBit = (envelope: string, byteIndex: number) => {
+  const bytes = Buffer.from(envelope, 'base64');
+  bytes[byteIndex] ^= 0x01;
+  return bytes.toString('base64');
+};
+
+const expectDecryptionError = (run: () => unknown, code: DecryptionErrorCode) => {
+  let caught: unknown;
+  try {
+    run();
+  } catch (error) {
+    caught = error;
+  }
+  expect(caught).toBeInstanceOf(DecryptionError);
+  expect((caught as DecryptionError).code).toBe(code);
+};
+
+describe('encryptData / decryptData', () => {
+  it('round-trips text, including multi-byte characters', () => {
+    const text = 'Grocery list: äpfel, 寿司, 🥑';
+    expect(decryptData(encryptData(text, key), key)).toBe(text);
+  });
+
+  it('writes a version 2 envelope with a fresh IV every time', () => {
+    const first = encryptData('same text', key);
+    const second = encryptData('same text', key);
+    expect(first).not.toBe(second);
+    expect(isLegacyCiphertext(first)).toBe(false);
+    const bytes = Buffer.from(first, 'base64');
+    expect(bytes[0]).toBe(0x02);
+    expect(bytes[1]).toBe(0x01);
+  });
+
+  it('rejects the wrong key', () => {
+    expectDecryptionError(() => decryptData(encryptData('secret', key), otherKey), 'AUTHENTICATION_FAILED');
+  });
+
+  it('rejects a tampered IV, ciphertext or tag', () => {
+    const envelope = encryptData('secret', key);
+    const size = Buffer.from(envelope, 'base64').length;
+    for (const byteIndex of [2, 20, size - 1]) {
+      expectDecryptionError(() => decryptData(flipBit(envelope, byteIndex), key), 'AUTHENTICATION_FAILED');
+    }
+  });
+
+  it('rejects a truncated envelope', () => {
+    const bytes = Buffer.from(encryptData('secret', key), 'base64');
+    expectDecryptionError(() => decryptData(bytes.subarray(0, 40).toString('base64'), key), 'MALFORMED');
+  });
+
+  it('rejects unknown versions and algorithms before checking the tag', () => {
+    const bytes = Buffer.from(encryptData('secret', key), 'base64');
+    const newerVersion = Buffer.from(bytes);
+    newerVersion[0] = 0x09;
+    expectDecryptionError(() => decryptData(newerVersion.toString('base64'), key), 'UNSUPPORTED_VERSION');
+    const otherAlgorithm = Buffer.from(bytes);
+    otherAlgorithm[1] = 0x07;
+    expectDecryptionError(() => decryptData(otherAlgorithm.toString('base64'), key), 'UNSUPPORTED_ALGORITHM');
+  });
+
+  it('rejects missing input', () => {
+    expectDecryptionError(() => decryptData('', key), 'INVALID_INPUT');
+  });
+});
+
+describe('legacy "iv:ciphertext" fallback', () => {
+  it('still decrypts data written before the envelope', () => {
+    const legacy = encryptLegacy('an old note', key);
+    expect(isLegacyCiphertext(legacy)).toBe(true);
+    expect(decryptData(legacy, key)).toBe('an old note');
+  });
+
+  it('reports a wrong key as a legacy failure', () => {
+    expectDecryptionError(() => decryptData(encryptLegacy('an old note', key), otherKey), 'LEGACY_DECRYPT_FAILED');
+  });
+
+  it('rejects legacy data without both parts', () => {
+    expectDecryptionError(() => decryptData('abcdef:', key), 'MALFORMED');
+  });
+});
+
+describe('chunked segment format', () => {
+  const segmentOf = (fill: number, size = CHUNKED_SEGMENT_SIZE) =>
+    CryptoJS.lib.WordArray.create(new Uint8Array(size).fill(fill));
+
+  const encryptFile = (segments: CryptoJS.lib.WordArray[]) => {
+    const cipher = createSegmentCipher(key);
+    return {
+      header: cipher.header,
+      stored: segments.map((segment, index) => cipher.encryptSegment(segment, index, index === segments.length - 1)),
+    };
+  };
+
+  it('round-trips segments under a header read back from the file', () => {
+    const segments = [segmentOf(1), segmentOf(2), segmentOf(3, 100)];
+    const { header, stored } = encryptFile(segments);
+    const reader = createSegmentCipher(key, header);
+    expect(header.sigBytes).toBe(CHUNKED_HEADER_SIZE);
+    expect(isChunkedCiphertext(header)).toBe(true);
+    expect(stored[0].sigBytes).toBe(reader.storedSegmentSize);
+    stored.forEach((segment, index) => {
+      const plaintext = reader.decryptSegment(segment, index, index === stored.length - 1);
+      expect(plaintext.toString()).toBe(segments[index].toString());
+    });
+  });
+
+  it('rejects segments in the wrong order', () => {
+    const { header, stored } = encryptFile([segmentOf(1), segmentOf(2), segmentOf(3, 10)]);
+    const reader = createSegmentCipher(key, header);
+    expectDecryptionError(() => reader.decryptSegment(stored[1], 0, false), 'AUTHENTICATION_FAILED');
+  });
+
+  it('rejects a file cut off at a segment boundary', () => {
+    const { header, stored } = encryptFile([segmentOf(1), segmentOf(2), segmentOf(3, 10)]);
+    const reader = createSegmentCipher(key, header);
+    // Without its last segment, the second one would have to be final
+    expectDecryptionError(() => reader.decryptSegment(stored[1], 1, true), 'AUTHENTICATION_FAILED');
+  });
+
+  it('rejects a segment moved in from another file', () => {
+    const first = encryptFile([segmentOf(1), segmentOf(2, 10)]);
+    const second = encryptFile([segmentOf(1), segmentOf(2, 10)]);
+    const reader = createSegmentCipher(key, first.header);
+    expectDecryptionError(() => reader.decryptSegment(second.stored[0], 0, false), 'AUTHENTICATION_FAILED');
+  });
+
+  it('rejects a tampered segment, the wrong key and unknown versions', () => {
+    const { header, stored } = encryptFile([segmentOf(1, 64)]);
+    const tampered = CryptoJS.enc.Base64.parse(flipBit(stored[0].toString(CryptoJS.enc.Base64), 20));
+    expectDecryptionError(() => createSegmentCipher(key, header).decryptSegment(tampered, 0, true), 'AUTHENTICATION_FAILED');
+    expectDecryptionError(() => createSegmentCipher(otherKey, header).decryptSegment(stored[0], 0, true), 'AUTHENTICATION_FAILED');
+    const newerHeader = CryptoJS.enc.Base64.parse(flipBit(header.toString(CryptoJS.enc.Base64), 0));
+    expectDecryptionError(() => createSegmentCipher(key, newerHeader), 'UNSUPPORTED_VERSION');
+  });
+
+  it('never mistakes an envelope for a chunked file', () => {
+    const envelope = CryptoJS.enc.Utf8.parse(encryptData('short note', key));
+    expect(isChunkedCiphertext(envelope)).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+// src/utils/__tests__/lockout.test.ts
+import * as SecureStore from 'expo-secure-store';
+import { assertNotLockedOut, getLockoutState, LockoutError, recordFailedAttempt, resetFailedAttempts } from '../lockout';
+import { getVaultStoreKey } from '../vaultRegistry';
+
+const secureStore = SecureStore as typeof SecureStore & { __reset: () => void };
+const HOUR_MS = 60 * 60 * 1000;
+
+const setClock = (offsetMs: number) => {
+  const realNow = Date.now.bind(Date);
+  return jest.spyOn(Date, 'now').mockImplementation(() => realNow() + offsetMs);
+};
+
+const failTimes = async (count: number) => {
+  for (let i = 0; i < count; i++) {
+    await recordFailedAttempt();
+  }
+};
+
+beforeEach(async () => {
+  jest.restoreAllMocks();
+  secureStore.__reset();
+  await resetFailedAttempts();
+});
+
+describe('lockout', () => {
+  it('allows a few free attempts, then delays', async () => {
+    await failTimes(2);
+    expect((await getLockoutState()).lockedUntil).toBeNull();
+    await failTimes(1);
+    const { failedAttempts, lockedUntil } = await getLockoutState();
+    expect(failedAttempts).toBe(3);
+    expect(lockedUntil).not.toBeNull();
+    await expect(assertNotLockedOut()).rejects.toBeInstanceOf(LockoutError);
+  });
+
+  it('stays locked when the clock is set forward while the app runs', async () => {
+    await failTimes(3);
+    setClock(2 * HOUR_MS);
+    await expect(assertNotLockedOut()).rejects.toBeInstanceOf(LockoutError);
+  });
+
+  it('restarts the delay when the last failure lies in the future', async () => {
+    // As left by a failure before the clock was set back and the app restarted
+    await SecureStore.setItemAsync(
+      getVaultStoreKey('failed_attempts'),
+      JSON.stringify({ count: 3, lastFailureAt: Date.now() + 2 * HOUR_MS })
+    );
+    const { lockedUntil } = await getLockoutState();
+    expect(lockedUntil).not.toBeNull();
+    expect(lockedUntil as number).toBeLessThanOrEqual(Date.now() + 30 * 1000);
+    await expect(assertNotLockedOut()).rejects.toBeInstanceOf(LockoutError);
+  });
+
+  it('clears the delay after a successful unlock', async () => {
+    await failTimes(4);
+    await resetFailedAttempts();
+    expect(await getLockoutState()).toEqual({ failedAttempts: 0, lockedUntil: null });
+  });
+});
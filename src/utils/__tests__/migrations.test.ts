@@ -0,0 +1,111 @@
+// src/utils/__tests__/migrations.test.ts
+import CryptoJS from 'crypto-js';
+import * as FileSystem from 'expo-file-system';
+import * as SecureStore from 'expo-secure-store';
+import { generateVaultKey, isLegacyCiphertext } from '../crypto';
+import {
+  CURRENT_SCHEMA_VERSION,
+  getPendingMigrations,
+  getSchemaVersion,
+  markSchemaVersionCurrent,
+  runMigrations,
+  UnsupportedSchemaError,
+} from '../migrations';
+import * as noteStorage from '../noteStorage';
+import { getVaultNotesDir, getVaultStoreKey } from '../vaultRegistry';
+
+const fileSystem = FileSystem as typeof FileSystem & { __reset: () => void; __getFiles: () => Map<string, Buffer> };
+const secureStore = SecureStore as typeof SecureStore & { __reset: () => void };
+
+const key = generateVaultKey();
+const metadataPath = () => `${getVaultNotesDir()}metadata.json`;
+const notePath = (id: string) => `${getVaultNotesDir()}${id}.encrypted`;
+
+/**
+ * Writes a vault as the first versions of the app left it: "iv:ciphertext" note files and a
+ * plaintext metadata.json, with no schema version stored.
+ */
+const writeVersion1Vault = async (notes: { id: string; content: string }[]) => {
+  await FileSystem.makeDirectoryAsync(getVaultNotesDir(), { intermediates: true });
+  for (const { id, content } of notes) {
+    const iv = CryptoJS.lib.WordArray.random(16);
+    const encrypted = CryptoJS.AES.encrypt(content, key, { iv, mode: CryptoJS.mode.CBC, padding: CryptoJS.pad.Pkcs7 });
+    await FileSystem.writeAsStringAsync(notePath(id), `${iv.toString()}:${encrypted.toString()}`);
+  }
+  await FileSystem.writeAsStringAsync(
+    metadataPath(),
+    JSON.stringify(notes.map(({ id }) => ({ id, timestamp: Number(id) })))
+  );
+};
+
+const readNoteFile = (id: string) => fileSystem.__getFiles().get(notePath(id))?.toString('utf8') ?? '';
+
+const notes = [
+  { id: '1000', content: 'First note' },
+  { id: '2000', content: 'Second note' },
+];
+
+beforeEach(() => {
+  fileSystem.__reset();
+  secureStore.__reset();
+  noteStorage.clearNoteIndexCache();
+  jest.restoreAllMocks();
+});
+
+describe('runMigrations', () => {
+  it('brings a version 1 vault up to date, one step at a time and in order', async () => {
+    await writeVersion1Vault(notes);
+    const started: number[] = [];
+
+    const ran = await runMigrations(key, (migration, done, total) => {
+      if (done === 0 && total === 0) {
+        started.push(migration.version);
+      }
+    });
+
+    expect(ran).toBe(CURRENT_SCHEMA_VERSION - 1);
+    expect(started).toEqual([2, 3]);
+    expect(await getSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION);
+    expect(fileSystem.__getFiles().has(metadataPath())).toBe(false);
+    expect(notes.some(({ id }) => isLegacyCiphertext(readNoteFile(id)))).toBe(false);
+    noteStorage.clearNoteIndexCache();
+    expect((await noteStorage.getAllNoteMetadata(key)).map(entry => entry.id).sort()).toEqual(['1000', '2000']);
+    expect(await noteStorage.loadNoteContent('2000', key)).toBe('Second note');
+  });
+
+  it('does nothing for a vault that is up to date', async () => {
+    await markSchemaVersionCurrent();
+    expect(await getPendingMigrations()).toEqual([]);
+    expect(await runMigrations(key)).toBe(0);
+  });
+
+  it('keeps the last completed step when a step fails, and resumes from there', async () => {
+    await writeVersion1Vault(notes);
+    jest.spyOn(noteStorage, 'upgradeFileFormats').mockRejectedValueOnce(new Error('Storage full'));
+
+    await expect(runMigrations(key)).rejects.toThrow('Storage full');
+    expect(await getSchemaVersion()).toBe(2);
+    expect(isLegacyCiphertext(readNoteFile('1000'))).toBe(true);
+
+    const migrateLegacyNoteList = jest.spyOn(noteStorage, 'migrateLegacyNoteList');
+    expect(await runMigrations(key)).toBe(1);
+    expect(migrateLegacyNoteList).not.toHaveBeenCalled();
+    expect(await getSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION);
+    expect(isLegacyCiphertext(readNoteFile('1000'))).toBe(false);
+  });
+
+  it('refuses a vault written by a newer version without touching it', async () => {
+    await writeVersion1Vault(notes);
+    await SecureStore.setItemAsync(getVaultStoreKey('schema_version'), String(CURRENT_SCHEMA_VERSION + 1));
+    const before = new Map(fileSystem.__getFiles());
+
+    await expect(runMigrations(key)).rejects.toBeInstanceOf(UnsupportedSchemaError);
+    expect(fileSystem.__getFiles()).toEqual(before);
+  });
+
+  it('treats an unreadable schema version as newer', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await SecureStore.setItemAsync(getVaultStoreKey('schema_version'), 'two');
+    await expect(runMigrations(key)).rejects.toBeInstanceOf(UnsupportedSchemaError);
+  });
+});
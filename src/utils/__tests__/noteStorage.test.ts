@@ -0,0 +1,179 @@
+// src/utils/__tests__/noteStorage.test.ts
+import * as FileSystem from 'expo-file-system';
+import * as FileSystemNext from 'expo-file-system/next';
+import * as SecureStore from 'expo-secure-store';
+import { CHUNKED_SEGMENT_SIZE, DecryptionError, generateVaultKey } from '../crypto';
+import {
+  addAttachment,
+  clearNoteIndexCache,
+  decryptAttachmentToFile,
+  getAllNoteMetadata,
+  getTrashedNotes,
+  loadNoteContent,
+  saveNote,
+  trashNote,
+} from '../noteStorage';
+import { getVaultNotesDir } from '../vaultRegistry';
+
+const fileSystem = FileSystem as typeof FileSystem & { __reset: () => void; __getFiles: () => Map<string, Buffer> };
+const secureStore = SecureStore as typeof SecureStore & { __reset: () => void };
+// The mock also exports FileHandle as a class, so its writes can be watched
+const fileHandles = FileSystemNext as typeof FileSystemNext & {
+  FileHandle: { prototype: FileSystemNext.FileHandle };
+  __setHandlesAvailable: (available: boolean) => void;
+};
+
+const key = generateVaultKey();
+const indexPath = () => `${getVaultNotesDir()}index.encrypted`;
+const notePath = (id: string) => `${getVaultNotesDir()}${id}.encrypted`;
+
+/**
+ * Flips a byte in the middle of a file, as a bad sector or a torn write would.
+ */
+const damageFile = (path: string) => {
+  const file = fileSystem.__getFiles().get(path);
+  if (!file) {
+    throw new Error(`No file at ${path}`);
+  }
+  file[Math.floor(file.length / 2)] ^= 0xff;
+};
+
+/**
+ * Reads the index as the next unlock would, without the cached copy.
+ */
+const reloadIds = async () => {
+  clearNoteIndexCache();
+  return (await getAllNoteMetadata(key)).map(entry => entry.id).sort();
+};
+
+beforeEach(() => {
+  fileSystem.__reset();
+  secureStore.__reset();
+  fileHandles.__setHandlesAvailable(true);
+  clearNoteIndexCache();
+  jest.restoreAllMocks();
+});
+
+describe('serialized index updates', () => {
+  it('keeps every note when many saves run at once', async () => {
+    const ids = Array.from({ length: 12 }, (_, i) => String(1000 + i));
+    await Promise.all(ids.map((id, i) => saveNote({ id, content: `Note ${i}`, timestamp: 1 + i }, key)));
+    expect(await reloadIds()).toEqual(ids);
+  });
+
+  it('does not lose a save that races a delete', async () => {
+    await saveNote({ id: '1', content: 'to delete', timestamp: 1 }, key);
+    await Promise.all([trashNote('1', key), saveNote({ id: '2', content: 'new', timestamp: 2 }, key)]);
+    expect(await reloadIds()).toEqual(['2']);
+    expect((await getTrashedNotes(key)).map(entry => entry.id)).toEqual(['1']);
+  });
+});
+
+describe('atomic writes', () => {
+  it('leaves the previous version in place when writing the new one fails', async () => {
+    await saveNote({ id: '1', content: 'first version', timestamp: 1 }, key);
+    const realWrite = FileSystem.writeAsStringAsync;
+    jest.spyOn(FileSystem, 'writeAsStringAsync').mockImplementation(async (path, contents, options) => {
+      if (path === `${notePath('1')}.tmp`) {
+        throw new Error('Disk full');
+      }
+      return realWrite(path, contents, options);
+    });
+    await expect(saveNote({ id: '1', content: 'second version', timestamp: 2 }, key)).rejects.toThrow('Disk full');
+    jest.restoreAllMocks();
+    clearNoteIndexCache();
+    expect(await loadNoteContent('1', key)).toBe('first version');
+  });
+
+  it('finishes a write interrupted between removing the old file and renaming the new one', async () => {
+    await saveNote({ id: '1', content: 'saved', timestamp: 1 }, key);
+    for (const path of [notePath('1'), indexPath()]) {
+      await FileSystem.moveAsync({ from: path, to: `${path}.tmp` });
+    }
+    expect(await reloadIds()).toEqual(['1']);
+    expect(await loadNoteContent('1', key)).toBe('saved');
+  });
+});
+
+describe('index recovery', () => {
+  it('restores a damaged index from the copy kept by the last write, adding notes saved since', async () => {
+    await saveNote({ id: '1', content: 'First\nbody', timestamp: 1 }, key);
+    await saveNote({ id: '2', content: 'Second', timestamp: 2 }, key);
+    damageFile(indexPath());
+
+    clearNoteIndexCache();
+    const entries = await getAllNoteMetadata(key);
+    expect(entries.map(entry => entry.id).sort()).toEqual(['1', '2']);
+    expect(entries.find(entry => entry.id === '1')?.title).toBe('First');
+    // The recovered index was written back, so the next unlock reads it directly
+    expect(await reloadIds()).toEqual(['1', '2']);
+  });
+
+  it('rebuilds the index from the note files when the kept copy is damaged too', async () => {
+    await saveNote({ id: '1', content: 'One', timestamp: 1 }, key);
+    await saveNote({ id: '2', content: 'Two', timestamp: 2 }, key);
+    await trashNote('2', key);
+    damageFile(indexPath());
+    damageFile(`${indexPath()}.bak`);
+
+    expect(await reloadIds()).toEqual(['1']);
+    expect((await getTrashedNotes(key)).map(entry => entry.id)).toEqual(['2']);
+  });
+
+  it('never replaces the index with an empty one when the key is wrong', async () => {
+    await saveNote({ id: '1', content: 'One', timestamp: 1 }, key);
+    const indexBefore = Buffer.from(fileSystem.__getFiles().get(indexPath()) as Buffer);
+    clearNoteIndexCache();
+    await expect(getAllNoteMetadata(generateVaultKey())).rejects.toThrow();
+    expect(fileSystem.__getFiles().get(indexPath())).toEqual(indexBefore);
+    expect(await reloadIds()).toEqual(['1']);
+  });
+});
+
+describe('chunked files', () => {
+  // Three and a bit segments
+  const longNote = 'Lorem ipsum dolor sit amet. '.repeat(Math.ceil((CHUNKED_SEGMENT_SIZE * 3.5) / 28));
+
+  it('appends a long note to the file a segment at a time', async () => {
+    const writeBytes = jest.spyOn(fileHandles.FileHandle.prototype, 'writeBytes');
+    await saveNote({ id: '1', content: longNote, timestamp: 1 }, key);
+    expect(fileSystem.__getFiles().get(notePath('1'))?.[0]).toBe(0x03);
+    // The header and four segments
+    expect(writeBytes).toHaveBeenCalledTimes(5);
+    expect(await loadNoteContent('1', key)).toBe(longNote);
+  });
+
+  it('writes the file in one piece where file handles are unavailable', async () => {
+    fileHandles.__setHandlesAvailable(false);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await saveNote({ id: '1', content: longNote, timestamp: 1 }, key);
+    expect(await loadNoteContent('1', key)).toBe(longNote);
+  });
+
+  describe('attachment export', () => {
+    const source = 'file:///cache/picked.bin';
+    const destination = 'file:///cache/export.bin';
+    const contents = Buffer.from(Array.from({ length: CHUNKED_SEGMENT_SIZE * 2 + 123 }, (_, i) => (i * 7) % 256));
+
+    const attach = async () => {
+      await saveNote({ id: '1', content: 'with a file', timestamp: 1 }, key);
+      fileSystem.__getFiles().set(source, Buffer.from(contents));
+      return addAttachment('1', { uri: source, name: 'picked.bin' }, key);
+    };
+
+    it('decrypts an attachment to a file unchanged', async () => {
+      const attachment = await attach();
+      await decryptAttachmentToFile('1', attachment.id, destination, key);
+      expect(fileSystem.__getFiles().get(destination)?.equals(contents)).toBe(true);
+    });
+
+    it('removes a partial export when a segment fails to decrypt', async () => {
+      const attachment = await attach();
+      damageFile(`${getVaultNotesDir()}attachments/1/${attachment.id}.encrypted`);
+      await expect(decryptAttachmentToFile('1', attachment.id, destination, key)).rejects.toBeInstanceOf(
+        DecryptionError
+      );
+      expect(fileSystem.__getFiles().has(destination)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+// src/utils/__tests__/vault.test.ts
+import * as FileSystem from 'expo-file-system';
+import * as SecureStore from 'expo-secure-store';
+import CryptoJS from 'crypto-js';
+import * as biometric from '../biometric';
+import { encryptData, getKeyWrapper, isLegacyVault, verifyMasterPassword } from '../crypto';
+import { getDecoyVaultId, setDuressPassword } from '../duress';
+import { deriveKeyWithDescriptor, LEGACY_KDF_PARAMS } from '../kdf';
+import { getLockoutState, resetFailedAttempts } from '../lockout';
+import * as noteStorage from '../noteStorage';
+import { clearNoteIndexCache, loadNoteContent, saveNote } from '../noteStorage';
+import { updateSettings } from '../settings';
+import {
+  changeMasterPassword,
+  closeDecoyVault,
+  createVault,
+  resumeInterruptedErase,
+  unlockVault,
+  unlockVaultWithBiometrics,
+  VaultWipedError,
+} from '../vault';
+import { DEFAULT_VAULT_ID, getActiveVaultId, getVaultNotesDir, listVaults, loadActiveVault } from '../vaultRegistry';
+
+const fileSystem = FileSystem as typeof FileSystem & { __reset: () => void; __getFiles: () => Map<string, Buffer> };
+const secureStore = SecureStore as typeof SecureStore & {
+  __reset: () => void;
+  __getStore: () => Map<string, string>;
+};
+
+const MASTER_PASSWORD = 'correct horse battery staple';
+const DURESS_PASSWORD = 'open the other one';
+
+/**
+ * Creates the default vault with a duress password, then opens the decoy once so it has keys
+ * and a note of its own, as it would after being used.
+ * @returns The decoy's ID.
+ */
+const createVaultWithDecoy = async (wipeRealVault = false) => {
+  const vaultKey = await createVault(MASTER_PASSWORD);
+  await setDuressPassword(vaultKey, DURESS_PASSWORD, false);
+  const decoyKey = await unlockVault(DURESS_PASSWORD);
+  const decoyId = getActiveVaultId();
+  await saveNote({ id: '1', content: 'Shopping list', timestamp: 1 }, decoyKey!);
+  closeDecoyVault();
+  clearNoteIndexCache();
+  if (wipeRealVault) {
+    await setDuressPassword(vaultKey, DURESS_PASSWORD, true);
+  }
+  return decoyId;
+};
+
+/**
+ * Lists what a vault left behind: files under its directory and SecureStore keys with its ID.
+ */
+const remainsOf = (vaultId: string) => [
+  ...[...fileSystem.__getFiles().keys()].filter(path => path.includes(`/vaults/${vaultId}/`)),
+  ...[...secureStore.__getStore().keys()].filter(key => key.includes(`_vault_${vaultId}_`)),
+];
+
+beforeEach(async () => {
+  fileSystem.__reset();
+  secureStore.__reset();
+  // Keeps key derivation at the floor, so each test derives in well under a second
+  await SecureStore.setItemAsync('ciphernote_kdf_calibration', JSON.stringify({ iterations: 10000 }));
+  closeDecoyVault();
+  clearNoteIndexCache();
+  await loadActiveVault();
+  await resetFailedAttempts();
+  jest.restoreAllMocks();
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe('duress decoy vaults', () => {
+  it('erases the decoy along with the vault when the self-destruct runs', async () => {
+    const decoyId = await createVaultWithDecoy();
+    expect(remainsOf(decoyId)).not.toEqual([]);
+    await updateSettings({ wipeAfterFailedAttempts: 1 });
+
+    await expect(unlockVault('wrong password')).rejects.toBeInstanceOf(VaultWipedError);
+    expect(remainsOf(decoyId)).toEqual([]);
+    expect(await verifyMasterPassword(MASTER_PASSWORD)).toBeNull();
+  });
+
+  it('finishes the interrupted erase of an open decoy without opening or reporting it', async () => {
+    const decoyId = await createVaultWithDecoy();
+    // The app was killed right after eraseVault wrote its marker inside the decoy
+    await FileSystem.writeAsStringAsync(
+      `${FileSystem.documentDirectory}erase-in-progress.json`,
+      JSON.stringify({ startedAt: Date.now(), vaultId: decoyId, deleteVault: false })
+    );
+
+    expect(await resumeInterruptedErase()).toBeNull();
+    expect(remainsOf(decoyId)).toEqual([]);
+    expect(getActiveVaultId()).toBe(DEFAULT_VAULT_ID);
+    expect((await listVaults()).map(vault => vault.id)).toEqual([DEFAULT_VAULT_ID]);
+    expect(await verifyMasterPassword(MASTER_PASSWORD)).not.toBeNull();
+    expect(fileSystem.__getFiles().has(`${FileSystem.documentDirectory}erase-in-progress.json`)).toBe(false);
+  });
+
+  it('erases the real vault once when the launch check runs during a duress wipe', async () => {
+    const decoyId = await createVaultWithDecoy(true);
+    const shred = jest.spyOn(noteStorage, 'shredAllNotes');
+
+    const decoyKey = await unlockVault(DURESS_PASSWORD);
+    // The wipe goes on in the background; the next launch check must wait for it, not repeat it
+    await resumeInterruptedErase();
+
+    expect(shred).toHaveBeenCalledTimes(1);
+    expect(shred).toHaveBeenCalledWith(undefined, getVaultNotesDir(DEFAULT_VAULT_ID));
+    expect((await listVaults()).map(vault => vault.id)).toEqual([decoyId]);
+    expect(await SecureStore.getItemAsync('ciphernote_pending_wipes')).toBeNull();
+    clearNoteIndexCache();
+    expect(await loadNoteContent('1', decoyKey!)).toBe('Shopping list');
+  });
+
+  it('counts the duress password as a failed attempt when changing the master password', async () => {
+    const decoyId = await createVaultWithDecoy(true);
+
+    await expect(changeMasterPassword(DURESS_PASSWORD, 'new password')).rejects.toThrow(
+      'Current master password is incorrect.'
+    );
+    expect((await getLockoutState()).failedAttempts).toBe(1);
+    expect(getActiveVaultId()).toBe(DEFAULT_VAULT_ID);
+    expect(await SecureStore.getItemAsync('ciphernote_pending_wipes')).toBeNull();
+    expect(await verifyMasterPassword(MASTER_PASSWORD)).not.toBeNull();
+    expect(await getDecoyVaultId()).toBe(decoyId);
+  });
+});
+
+describe('biometric unlock', () => {
+  it('clears earlier failed password attempts', async () => {
+    const vaultKey = await createVault(MASTER_PASSWORD);
+    await updateSettings({ wipeAfterFailedAttempts: 3 });
+    expect(await unlockVault('typo one')).toBeNull();
+    expect(await unlockVault('typo two')).toBeNull();
+    // The keychain prompt can't run here; it succeeds as it would on a device
+    jest.spyOn(biometric, 'getBiometricUnlockState').mockResolvedValue('ready');
+    jest.spyOn(biometric, 'unwrapVaultKeyWithBiometrics').mockResolvedValue(vaultKey);
+
+    expect(await unlockVaultWithBiometrics()).toBe(vaultKey);
+    expect((await getLockoutState()).failedAttempts).toBe(0);
+    // A typo days later is the first of three again, not the last
+    expect(await unlockVault('typo three')).toBeNull();
+    expect(await verifyMasterPassword(MASTER_PASSWORD)).not.toBeNull();
+  });
+});
+
+describe('legacy vault migration', () => {
+  /**
+   * Writes a vault as the first versions of the app left it: notes encrypted directly with the
+   * password-derived key, listed in a plaintext metadata.json.
+   */
+  const writeLegacyVault = async () => {
+    const salt = CryptoJS.lib.WordArray.random(16).toString(CryptoJS.enc.Base64);
+    const legacyKey = deriveKeyWithDescriptor(MASTER_PASSWORD, { ...LEGACY_KDF_PARAMS, salt });
+    await SecureStore.setItemAsync('ciphernote_salt', salt);
+    await SecureStore.setItemAsync('ciphernote_test_data', encryptData('CipherNoteTest', legacyKey));
+    await FileSystem.makeDirectoryAsync(getVaultNotesDir(), { intermediates: true });
+    await FileSystem.writeAsStringAsync(`${getVaultNotesDir()}1000.encrypted`, encryptData('An old note', legacyKey));
+    await FileSystem.writeAsStringAsync(`${getVaultNotesDir()}metadata.json`, JSON.stringify([{ id: '1000', timestamp: 1000 }]));
+  };
+
+  it('stays a legacy vault when the commit fails after storing the new wrapper', async () => {
+    await writeLegacyVault();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const deleteItem = SecureStore.deleteItemAsync;
+    jest.spyOn(SecureStore, 'deleteItemAsync').mockImplementation(async (key, options) => {
+      if (key === 'ciphernote_test_data') {
+        throw new Error('Keychain unavailable');
+      }
+      return deleteItem(key, options);
+    });
+
+    await expect(unlockVault(MASTER_PASSWORD)).rejects.toThrow('Keychain unavailable');
+    expect(await getKeyWrapper('password')).toBeNull();
+    expect(await isLegacyVault()).toBe(true);
+
+    jest.mocked(SecureStore.deleteItemAsync).mockRestore();
+    clearNoteIndexCache();
+    const vaultKey = await unlockVault(MASTER_PASSWORD);
+    expect(vaultKey).not.toBeNull();
+    expect(await isLegacyVault()).toBe(false);
+    expect(await loadNoteContent('1000', vaultKey!)).toBe('An old note');
+  });
+});
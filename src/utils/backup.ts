@@ -0,0 +1,323 @@
+// src/utils/backup.ts
+import * as FileSystem from 'expo-file-system';
+import CryptoJS from 'crypto-js';
+import { createPassphraseKey, decryptData, DecryptionError, encryptData } from './crypto';
+import { deriveKeyWithDescriptor, isKdfDescriptorAcceptable, KdfDescriptor } from './kdf';
+import {
+  generateNoteId,
+  getAllNoteMetadata,
+  getNotebooks,
+  getTrashedNotes,
+  loadNoteContent,
+  mergeNotebooks,
+  Note,
+  loadAttachment,
+  Notebook,
+  NoteAttachment,
+  NoteType,
+  restoreAttachment,
+  saveNote,
+} from './noteStorage';
+
+const BACKUP_FORMAT = 'ciphernote-backup';
+const BACKUP_VERSION = 1;
+const BACKUP_FILE_EXTENSION = 'cnbackup';
+// Note and attachment IDs are creation timestamps, and become file names: a backup with any
+// other ID (e.g. "../x") could write outside the vault, so it is refused as a whole
+const STORED_ID_PATTERN = /^\d{1,16}$/;
+
+// Outer file: plaintext JSON with only what is needed to derive the backup key.
+// Everything about the notes, including how many there are, is inside the encrypted payload.
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  kdf: KdfDescriptor;
+  payload: string; // encryptData envelope of a BackupPayload
+}
+
+export interface BackupNote {
+  id: string;
+  content: string;
+  timestamp: number;
+  createdAt: number;
+  tags?: string[]; // Optional: absent in backups made before tags existed
+  notebookId?: string | null;
+  type?: NoteType; // Optional: absent in backups made before checklists existed
+  attachments?: BackupAttachment[];
+}
+
+export interface BackupAttachment extends NoteAttachment {
+  data: string; // File contents, base64 encoded
+}
+
+interface BackupPayload {
+  createdAt: number;
+  noteCount: number; // Checked against notes.length on import
+  notes: BackupNote[];
+  notebooks?: Notebook[];
+}
+
+// A backup that decrypted and passed validation, ready to import
+export interface DecryptedBackup {
+  createdAt: number;
+  notes: BackupNote[];
+  notebooks: Notebook[];
+}
+
+export type BackupErrorCode =
+  | 'NOT_A_BACKUP' // File is not a CipherNote backup
+  | 'UNSUPPORTED_VERSION' // Written by a newer app version
+  | 'WRONG_PASSPHRASE' // Auth check failed: wrong passphrase or damaged file
+  | 'CORRUPT'; // Decrypted but the contents are inconsistent
+
+/**
+ * Raised when a backup file cannot be read or fails validation.
+ */
+export class BackupError extends Error {
+  code: BackupErrorCode;
+
+  constructor(code: BackupErrorCode, message: string) {
+    super(message);
+    this.name = 'BackupError';
+    this.code = code;
+  }
+}
+
+// What to do with a backed-up note whose ID already exists in the vault
+export type ImportCollisionStrategy = 'skip' | 'overwrite' | 'keep-both';
+
+export interface ImportResult {
+  added: number;
+  overwritten: number;
+  duplicated: number; // Imported under a new ID next to the existing note
+  skipped: number;
+}
+
+/**
+ * Writes every note into a single backup file encrypted under its own passphrase.
+ * The file goes to the cache directory; the caller shares it and then deletes it.
+ * @param passphrase The backup passphrase, independent of the master password.
+ * @param encryptionKey The vault key, to read the notes.
+ * @param onProgress Called after each note is read.
+ * @returns The URI of the backup file.
+ */
+export const exportBackup = async (
+  passphrase: string,
+  encryptionKey: CryptoJS.lib.WordArray,
+  onProgress?: (done: number, total: number) => void
+): Promise<string> => {
+  const metadata = await getAllNoteMetadata(encryptionKey);
+  const notes: BackupNote[] = [];
+  for (const [index, entry] of metadata.entries()) {
+    const content = await loadNoteContent(entry.id, encryptionKey);
+    if (content === null) {
+      console.warn(`WARN: Note ${entry.id} is listed but missing, leaving it out of the backup.`);
+    } else {
+      const attachments: BackupAttachment[] = [];
+      for (const attachment of entry.attachments ?? []) {
+        try {
+          attachments.push({ ...attachment, data: await loadAttachment(entry.id, attachment.id, encryptionKey) });
+        } catch (e) {
+          console.warn(`WARN: Attachment ${attachment.id} of note ${entry.id} can't be read, leaving it out of the backup.`, e);
+        }
+      }
+      notes.push({
+        id: entry.id,
+        content,
+        timestamp: entry.timestamp,
+        createdAt: entry.createdAt,
+        tags: entry.tags,
+        notebookId: entry.notebookId,
+        type: entry.type ?? 'text',
+        attachments,
+      });
+    }
+    onProgress?.(index + 1, metadata.length);
+  }
+
+  const payload: BackupPayload = {
+    createdAt: Date.now(),
+    noteCount: notes.length,
+    notes,
+    notebooks: await getNotebooks(encryptionKey),
+  };
+  const { key, kdf } = await createPassphraseKey(passphrase);
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    kdf,
+    payload: encryptData(JSON.stringify(payload), key),
+  };
+
+  const date = new Date(payload.createdAt).toISOString().slice(0, 10);
+  const uri = `${FileSystem.cacheDirectory}CipherNote-${date}.${BACKUP_FILE_EXTENSION}`;
+  await FileSystem.writeAsStringAsync(uri, JSON.stringify(file));
+  console.log(`LOG: Exported ${notes.length} note(s) to backup.`);
+  return uri;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isStoredId = (value: unknown): value is string => typeof value === 'string' && STORED_ID_PATTERN.test(value);
+
+const isBackupAttachment = (value: unknown): value is BackupAttachment =>
+  isRecord(value) &&
+  isStoredId(value.id) &&
+  typeof value.name === 'string' &&
+  typeof value.mimeType === 'string' &&
+  typeof value.size === 'number' &&
+  typeof value.addedAt === 'number' &&
+  typeof value.data === 'string';
+
+const isBackupNote = (value: unknown): value is BackupNote =>
+  isRecord(value) &&
+  isStoredId(value.id) &&
+  typeof value.content === 'string' &&
+  typeof value.timestamp === 'number' &&
+  typeof value.createdAt === 'number' &&
+  (value.tags === undefined || (Array.isArray(value.tags) && value.tags.every((tag: unknown) => typeof tag === 'string'))) &&
+  (value.type === undefined || value.type === 'text' || value.type === 'checklist') &&
+  (value.attachments === undefined || (Array.isArray(value.attachments) && value.attachments.every(isBackupAttachment)));
+
+/**
+ * Reads, decrypts and validates a backup file.
+ * @param uri The backup file.
+ * @param passphrase The passphrase it was exported with.
+ * @returns The notes in the backup.
+ * @throws BackupError if the file is not a valid backup or the passphrase is wrong.
+ */
+export const readBackup = async (uri: string, passphrase: string): Promise<DecryptedBackup> => {
+  let file: BackupFile;
+  try {
+    file = JSON.parse(await FileSystem.readAsStringAsync(uri));
+  } catch (e) {
+    throw new BackupError('NOT_A_BACKUP', 'This file is not a CipherNote backup.');
+  }
+  if (!file || file.format !== BACKUP_FORMAT || typeof file.payload !== 'string' || !file.kdf) {
+    throw new BackupError('NOT_A_BACKUP', 'This file is not a CipherNote backup.');
+  }
+  if (file.version !== BACKUP_VERSION) {
+    throw new BackupError('UNSUPPORTED_VERSION', 'This backup was made by a newer version of CipherNote.');
+  }
+  // The header isn't authenticated: a crafted cost could freeze the app before the passphrase is checked
+  if (!isKdfDescriptorAcceptable(file.kdf)) {
+    throw new BackupError('NOT_A_BACKUP', 'This backup file is damaged or was not made by CipherNote.');
+  }
+
+  let payload: BackupPayload;
+  try {
+    const key = deriveKeyWithDescriptor(passphrase, file.kdf);
+    payload = JSON.parse(decryptData(file.payload, key));
+  } catch (e) {
+    if (e instanceof DecryptionError) {
+      // The auth tag covers the whole payload, so a wrong passphrase and a modified file look the same
+      throw new BackupError('WRONG_PASSPHRASE', 'Incorrect backup passphrase, or the backup file is damaged.');
+    }
+    throw new BackupError('CORRUPT', 'The backup contents could not be read.');
+  }
+
+  const isConsistent =
+    payload &&
+    Array.isArray(payload.notes) &&
+    payload.notes.length === payload.noteCount &&
+    payload.notes.every(isBackupNote) &&
+    (payload.notebooks === undefined || Array.isArray(payload.notebooks));
+  if (!isConsistent) {
+    throw new BackupError('CORRUPT', 'The backup contents are incomplete or inconsistent.');
+  }
+  return { createdAt: payload.createdAt, notes: payload.notes, notebooks: payload.notebooks ?? [] };
+};
+
+/**
+ * Lists the IDs a note coming from a backup can't simply take: those of live notes and of
+ * notes in the trash, which could no longer be restored if a live note took their ID.
+ */
+const getTakenNoteIds = async (encryptionKey: CryptoJS.lib.WordArray): Promise<Set<string>> => {
+  const live = await getAllNoteMetadata(encryptionKey);
+  const trashed = await getTrashedNotes(encryptionKey);
+  return new Set([...live, ...trashed].map(entry => entry.id));
+};
+
+/**
+ * Counts the notes in a backup whose IDs already exist in the vault, in the trash included.
+ * @param backup The decrypted backup.
+ * @param encryptionKey The vault key.
+ * @returns The number of colliding notes.
+ */
+export const countImportCollisions = async (
+  backup: DecryptedBackup,
+  encryptionKey: CryptoJS.lib.WordArray
+): Promise<number> => {
+  const takenIds = await getTakenNoteIds(encryptionKey);
+  return backup.notes.filter(note => takenIds.has(note.id)).length;
+};
+
+/**
+ * Saves the notes of a backup into the vault, re-encrypting them under the vault key.
+ * @param backup The decrypted backup.
+ * @param encryptionKey The vault key.
+ * @param strategy What to do when a note ID already exists. Notes in the trash are never
+ * overwritten: with 'overwrite' the backed-up note is imported next to them, as with 'keep-both'.
+ * @param onProgress Called after each note is handled.
+ * @returns How many notes were added, overwritten, duplicated and skipped.
+ * @throws BackupError if a note or attachment ID is not one the app could have made.
+ */
+export const importBackup = async (
+  backup: DecryptedBackup,
+  encryptionKey: CryptoJS.lib.WordArray,
+  strategy: ImportCollisionStrategy,
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult> => {
+  // readBackup checked this already; the IDs become file paths, so nothing else may get through
+  if (!backup.notes.every(isBackupNote)) {
+    throw new BackupError('CORRUPT', 'The backup contents are incomplete or inconsistent.');
+  }
+  const takenIds = await getTakenNoteIds(encryptionKey);
+  const trashedIds = new Set((await getTrashedNotes(encryptionKey)).map(entry => entry.id));
+  const notebookIds = await mergeNotebooks(backup.notebooks, encryptionKey);
+  const result: ImportResult = { added: 0, overwritten: 0, duplicated: 0, skipped: 0 };
+
+  for (const [index, backupNote] of backup.notes.entries()) {
+    const note: Note = {
+      id: backupNote.id,
+      content: backupNote.content,
+      timestamp: backupNote.timestamp,
+      tags: backupNote.tags ?? [],
+      notebookId: backupNote.notebookId ? notebookIds.get(backupNote.notebookId) ?? null : null,
+      type: backupNote.type ?? 'text',
+    };
+
+    if (!takenIds.has(note.id)) {
+      await saveNote(note, encryptionKey, backupNote.createdAt);
+      result.added++;
+    } else if (strategy === 'overwrite' && !trashedIds.has(note.id)) {
+      await saveNote(note, encryptionKey);
+      result.overwritten++;
+    } else if (strategy !== 'skip') {
+      // Keep both; a note in the trash is never overwritten, as it would lose its way back.
+      // IDs are timestamps, so count up from now until one is free
+      let candidate = Number(generateNoteId());
+      while (takenIds.has(String(candidate))) {
+        candidate++;
+      }
+      note.id = String(candidate);
+      await saveNote(note, encryptionKey, backupNote.createdAt);
+      result.duplicated++;
+    } else {
+      result.skipped++;
+      onProgress?.(index + 1, backup.notes.length);
+      continue;
+    }
+
+    for (const { data, ...attachment } of backupNote.attachments ?? []) {
+      await restoreAttachment(note.id, attachment, data, encryptionKey);
+    }
+    takenIds.add(note.id);
+    onProgress?.(index + 1, backup.notes.length);
+  }
+
+  console.log(
+    `LOG: Backup imported: ${result.added} added, ${result.overwritten} overwritten, ${result.duplicated} duplicated, ${result.skipped} skipped.`
+  );
+  return result;
+};
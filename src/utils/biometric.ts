@@ -0,0 +1,134 @@
+// src/utils/biometric.ts
+import CryptoJS from 'crypto-js';
+import * as SecureStore from 'expo-secure-store';
+import { getKeyWrapper, randomWordArray, revokeKeyWrapper, storeKeyWrapper, unwrapVaultKey, wrapVaultKey } from './crypto';
+import { getVaultStoreKey } from './vaultRegistry';
+
+// Biometric unlock keeps the key-encryption key of the "biometric" wrapper in SecureStore with
+// requireAuthentication: the system releases it only after a Face ID / fingerprint prompt, and
+// destroys it when the enrolled biometrics change. It lives under its own keychain service,
+// since authenticated items can't share one with the app's other values.
+const BIOMETRIC_KEK_KEY = 'biometric_kek'; // Per vault
+const BIOMETRIC_KEYCHAIN_SERVICE = 'ciphernote_biometric';
+const BIOMETRIC_KEK_SIZE = 256 / 8;
+const LAST_PASSWORD_UNLOCK_KEY = 'last_password_unlock'; // Per vault; biometric unlock expires this long after it
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BIOMETRIC_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainService: BIOMETRIC_KEYCHAIN_SERVICE,
+  requireAuthentication: true,
+  authenticationPrompt: 'Unlock CipherNote',
+};
+
+// 'unavailable': the device has no (sufficiently secure) biometrics enrolled.
+// 'password-required': set up, but the password hasn't been entered recently enough.
+export type BiometricUnlockState = 'unavailable' | 'disabled' | 'password-required' | 'ready';
+
+/**
+ * Raised when the biometric key was invalidated because the enrolled fingerprints or faces
+ * changed. Biometric unlock has been turned off; the password still works.
+ */
+export class BiometricInvalidatedError extends Error {
+  constructor() {
+    super('The biometrics enrolled on this device changed. Biometric unlock has been turned off.');
+    this.name = 'BiometricInvalidatedError';
+  }
+}
+
+/**
+ * Checks whether the device can protect a key with biometrics.
+ */
+export const isBiometricUnlockAvailable = (): boolean => SecureStore.canUseBiometricAuthentication();
+
+/**
+ * Records that the vault was just unlocked with its password (or recovery phrase), which
+ * restarts the period in which biometric unlock is allowed.
+ */
+export const recordPasswordUnlock = async () => {
+  await SecureStore.setItemAsync(getVaultStoreKey(LAST_PASSWORD_UNLOCK_KEY), String(Date.now()));
+};
+
+/**
+ * Works out whether the Login screen may offer biometric unlock.
+ * @param passwordIntervalDays Days after a password unlock during which biometrics are
+ * accepted; null for no limit.
+ * @returns The state of biometric unlock for the active vault.
+ */
+export const getBiometricUnlockState = async (passwordIntervalDays: number | null): Promise<BiometricUnlockState> => {
+  if (!(await getKeyWrapper('biometric'))) {
+    return isBiometricUnlockAvailable() ? 'disabled' : 'unavailable';
+  }
+  if (passwordIntervalDays !== null) {
+    const lastPasswordUnlock = Number(await SecureStore.getItemAsync(getVaultStoreKey(LAST_PASSWORD_UNLOCK_KEY)));
+    if (!lastPasswordUnlock || Date.now() - lastPasswordUnlock >= passwordIntervalDays * DAY_MS) {
+      return 'password-required';
+    }
+  }
+  return 'ready';
+};
+
+/**
+ * Turns on biometric unlock for the unlocked vault. On Android this already asks for the
+ * fingerprint; on iOS only reading the key does.
+ * @param vaultKey The vault key.
+ * @throws Error if the device has no biometrics or the prompt was cancelled.
+ */
+export const enableBiometricUnlock = async (vaultKey: CryptoJS.lib.WordArray) => {
+  if (!isBiometricUnlockAvailable()) {
+    throw new Error('No fingerprint or face is enrolled on this device.');
+  }
+  const kek = randomWordArray(BIOMETRIC_KEK_SIZE);
+  await SecureStore.setItemAsync(
+    getVaultStoreKey(BIOMETRIC_KEK_KEY),
+    kek.toString(CryptoJS.enc.Hex),
+    BIOMETRIC_OPTIONS
+  );
+  await storeKeyWrapper(wrapVaultKey('biometric', vaultKey, kek));
+  console.log('LOG: Biometric unlock enabled.');
+};
+
+/**
+ * Deletes the key behind the biometric prompt. Used on its own when a vault is erased, along
+ * with the rest of its SecureStore values.
+ * @param vaultId The vault; defaults to the active one.
+ */
+export const deleteBiometricKey = async (vaultId?: string) => {
+  await SecureStore.deleteItemAsync(getVaultStoreKey(BIOMETRIC_KEK_KEY, vaultId), {
+    keychainService: BIOMETRIC_KEYCHAIN_SERVICE,
+  });
+};
+
+/**
+ * Turns off biometric unlock: removes the wrapper and the key behind the biometric prompt.
+ */
+export const disableBiometricUnlock = async () => {
+  await revokeKeyWrapper('biometric');
+  await deleteBiometricKey();
+  console.log('LOG: Biometric unlock disabled.');
+};
+
+/**
+ * Shows the biometric prompt and unwraps the vault key with the key it releases.
+ * @returns The vault key, or null if the prompt was cancelled or failed.
+ * @throws BiometricInvalidatedError if enrolled biometrics changed since it was set up.
+ */
+export const unwrapVaultKeyWithBiometrics = async (): Promise<CryptoJS.lib.WordArray | null> => {
+  const record = await getKeyWrapper('biometric');
+  if (!record) {
+    return null;
+  }
+  let kekHex: string | null;
+  try {
+    kekHex = await SecureStore.getItemAsync(getVaultStoreKey(BIOMETRIC_KEK_KEY), BIOMETRIC_OPTIONS);
+  } catch (error) {
+    console.warn('WARN: Biometric prompt cancelled or failed:', error);
+    return null;
+  }
+  if (kekHex === null) {
+    // The system deletes the key when enrollment changes: someone else's finger may now be enrolled
+    console.warn('WARN: Biometric key invalidated, turning biometric unlock off.');
+    await disableBiometricUnlock();
+    throw new BiometricInvalidatedError();
+  }
+  return unwrapVaultKey(record, CryptoJS.enc.Hex.parse(kekHex));
+};
@@ -0,0 +1,73 @@
+// src/utils/checklist.ts
+// Checklist notes are stored as Markdown task lists ("- [ ] item"), so they go through
+// saveNote, search, history and backups exactly like text notes and read well as text.
+
+export interface ChecklistItem {
+  text: string;
+  checked: boolean;
+}
+
+export interface Checklist {
+  title: string;
+  items: ChecklistItem[]; // In display order
+}
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+const TASK_PATTERN = /^\s*[-*+]\s+\[( |x|X)\]\s?(.*)$/;
+// Bullets and numbers are dropped when a plain line becomes an item
+const LIST_MARKER_PATTERN = /^\s*([-*+]|\d+[.)])\s+/;
+
+/**
+ * Reads a checklist from note text. The first line is the title unless it is already an
+ * item; every other non-empty line becomes an item, so converting a text note keeps all of it.
+ * @param content The note text.
+ * @returns The checklist.
+ */
+export const parseChecklist = (content: string): Checklist => {
+  const lines = content.split('\n').filter(line => line.trim() !== '');
+  let title = '';
+  if (lines.length > 0 && !TASK_PATTERN.test(lines[0])) {
+    title = lines.shift()!;
+  }
+  const items = lines.map(line => {
+    const task = TASK_PATTERN.exec(line);
+    return task
+      ? { text: task[2], checked: task[1] !== ' ' }
+      : { text: line.replace(LIST_MARKER_PATTERN, ''), checked: false };
+  });
+  return { title, items };
+};
+
+/**
+ * Writes a checklist as note text.
+ * @param checklist The checklist.
+ * @returns The title line followed by one task line per item.
+ */
+export const serializeChecklist = (checklist: Checklist): string => {
+  const lines = checklist.items.map(item => `- [${item.checked ? 'x' : ' '}] ${item.text}`);
+  return (checklist.title ? [checklist.title, ...lines] : lines).join('\n');
+};
+
+/**
+ * Counts the checked items of a checklist note.
+ * @param content The note text.
+ * @returns How many items are checked, out of how many.
+ */
+export const getChecklistProgress = (content: string): ChecklistProgress => {
+  const { items } = parseChecklist(content);
+  return { done: items.filter(item => item.checked).length, total: items.length };
+};
+
+/**
+ * Moves checked items below the unchecked ones, keeping the order within each group.
+ * @param items The items.
+ * @returns The reordered items.
+ */
+export const moveCheckedToBottom = (items: ChecklistItem[]): ChecklistItem[] => [
+  ...items.filter(item => !item.checked),
+  ...items.filter(item => item.checked),
+];
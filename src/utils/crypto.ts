@@ -1,14 +1,17 @@
 import CryptoJS from 'crypto-js';
 import * as SecureStore from 'expo-secure-store';
 import * as ExpoCrypto from 'expo-crypto'; // For robust IV generation
+import { deriveKeyWithDescriptor, getRecommendedKdfParams, isKdfWeak, KdfDescriptor, LEGACY_KDF_PARAMS } from './kdf';
+import { getVaultStoreKey } from './vaultRegistry';
 
 // --- Constants for Key Derivation ---
-const PBKDF2_ITERATIONS = 10000;
-const KEY_SIZE = 256 / 32; // AES-256 (256 bits / 32 bits per word)
+// Algorithm, hash and cost live in a KdfDescriptor stored with each wrapper (see kdf.ts)
 const SALT_SIZE = 128 / 8; // 128 bits for salt (16 bytes)
 const IV_SIZE = 128 / 8; // AES block size is 128 bits (16 bytes) for IV
-const SECURE_STORE_SALT_KEY = 'ciphernote_salt'; // Key for storing the PBKDF2 salt
-const TEST_DATA_KEY = 'ciphernote_test_data'; // Key for storing encrypted test data for password verification
+// Legacy vaults (before the key hierarchy) keep these until they are migrated.
+// SecureStore key names are per vault: see getVaultStoreKey.
+const SECURE_STORE_SALT_KEY = 'salt'; // Key for storing the PBKDF2 salt
+const TEST_DATA_KEY = 'test_data'; // Key for storing encrypted test data for password verification
 const TEST_PLAIN_TEXT = "CipherNoteTest"; // Plaintext used for master password verification
 
 /**
@@ -22,140 +25,570 @@ const generateSalt = (): CryptoJS.lib.WordArray => {
 };
 
 /**
- * Derives a strong encryption key from a master password and a salt using PBKDF2.
+ * Derives a strong encryption key from a master password using the stored KDF descriptor.
  * @param password The user's master password.
- * @param salt The salt (CryptoJS WordArray) used for key derivation.
+ * @param kdf The descriptor (algorithm, cost parameters and salt) used for key derivation.
  * @returns A CryptoJS WordArray representing the derived encryption key.
  */
-const deriveKey = (password: string, salt: CryptoJS.lib.WordArray): CryptoJS.lib.WordArray => {
+const deriveKey = (password: string, kdf: KdfDescriptor): CryptoJS.lib.WordArray => {
   console.log('DEBUG: deriveKey - Input password length:', password.length);
-  console.log('DEBUG: deriveKey - Input salt (type, words, sigBytes):', typeof salt, salt?.words, salt?.sigBytes);
+  console.log('DEBUG: deriveKey - KDF:', kdf.algorithm, kdf.hash ?? '', kdf.iterations ?? kdf.cost);
   try {
-    const derived = CryptoJS.PBKDF2(password, salt, {
-      keySize: KEY_SIZE,
-      iterations: PBKDF2_ITERATIONS,
-    });
-    console.log('DEBUG: deriveKey - CryptoJS.PBKDF2 returned:', derived?.toString());
-    return derived;
+    return deriveKeyWithDescriptor(password, kdf);
   } catch (error) {
     console.error('DEBUG: deriveKey - Error during PBKDF2 derivation:', error);
     throw error;
   }
 };
 
+// --- Constants for the ciphertext envelope ---
+// Envelope layout (base64 encoded): [version (1)][algorithm id (1)][IV (16)][ciphertext (n)][auth tag (32)]
+const ENVELOPE_VERSION = 0x02; // Version 1 was the unauthenticated "iv:ciphertext" format
+const ALG_AES256_CBC_HMAC_SHA256 = 0x01; // AES-256-CBC, then HMAC-SHA256 over header, IV and ciphertext
+const HEADER_SIZE = 2;
+const TAG_SIZE = 256 / 8; // HMAC-SHA256 output (32 bytes)
+const ENC_SUBKEY_LABEL = 'ciphernote-enc-v2';
+const MAC_SUBKEY_LABEL = 'ciphernote-mac-v2';
+
+export type DecryptionErrorCode =
+  | 'INVALID_INPUT' // Missing ciphertext or key
+  | 'MALFORMED' // Envelope too short or not decodable
+  | 'UNSUPPORTED_VERSION' // Envelope written by an unknown format version
+  | 'UNSUPPORTED_ALGORITHM' // Envelope uses an unknown algorithm id
+  | 'AUTHENTICATION_FAILED' // Auth tag mismatch: wrong key or tampered/truncated data
+  | 'LEGACY_DECRYPT_FAILED'; // Legacy "iv:ciphertext" data did not decrypt to valid UTF-8
+
+/**
+ * Raised by decryptData when ciphertext cannot be decrypted.
+ * The code tells callers whether the data was tampered with, corrupt or simply unreadable.
+ */
+export class DecryptionError extends Error {
+  code: DecryptionErrorCode;
+
+  constructor(code: DecryptionErrorCode, message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+    this.code = code;
+  }
+}
+
+/**
+ * Generates cryptographically secure random bytes using expo-crypto.
+ * @param size The number of bytes to generate.
+ * @returns A CryptoJS WordArray holding the random bytes.
+ */
+export const randomWordArray = (size: number): CryptoJS.lib.WordArray => {
+  return CryptoJS.lib.WordArray.create(ExpoCrypto.getRandomBytes(size));
+};
+
+/**
+ * Returns bytes [start, end) of a WordArray as a new WordArray.
+ */
+const sliceWordArray = (wordArray: CryptoJS.lib.WordArray, start: number, end: number): CryptoJS.lib.WordArray => {
+  const hex = CryptoJS.enc.Hex.stringify(wordArray);
+  return CryptoJS.enc.Hex.parse(hex.substring(start * 2, end * 2));
+};
+
+/**
+ * Compares two WordArrays without short-circuiting on the first differing byte.
+ */
+const constantTimeEquals = (a: CryptoJS.lib.WordArray, b: CryptoJS.lib.WordArray): boolean => {
+  if (a.sigBytes !== b.sigBytes) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.words.length && i < b.words.length; i++) {
+    diff |= a.words[i] ^ b.words[i];
+  }
+  return diff === 0;
+};
+
+/**
+ * Derives independent encryption and MAC sub-keys from a vault key,
+ * so the same key material is never used for both AES and HMAC.
+ */
+const deriveSubKeys = (key: CryptoJS.lib.WordArray) => ({
+  encKey: CryptoJS.HmacSHA256(ENC_SUBKEY_LABEL, key),
+  macKey: CryptoJS.HmacSHA256(MAC_SUBKEY_LABEL, key),
+});
+
+/**
+ * Checks whether ciphertext uses the legacy unauthenticated "iv:ciphertext" format.
+ * Base64 envelopes never contain ':' so the separator is enough to tell them apart.
+ * @param encryptedText The stored ciphertext.
+ * @returns True if the data should be re-encrypted in the current format.
+ */
+export const isLegacyCiphertext = (encryptedText: string): boolean => {
+  return encryptedText.includes(':');
+};
+
 /**
- * Encrypts data using AES-256 with a derived key and an explicitly generated IV.
+ * Encrypts data into a versioned, authenticated envelope.
+ * AES-256-CBC with a random IV, followed by HMAC-SHA256 over the header, IV and ciphertext.
  * @param data The plaintext string to encrypt.
  * @param key The CryptoJS WordArray encryption key.
- * @returns The encrypted data as a string in format "iv:ciphertext".
+ * @returns The base64 encoded envelope.
  */
 export const encryptData = (data: string, key: CryptoJS.lib.WordArray): string => {
   console.log('DEBUG: encryptData - Input data length:', data.length);
-  console.log('DEBUG: encryptData - Input key (type, words, sigBytes):', typeof key, key?.words, key?.sigBytes);
 
   if (!data || !key) {
-    console.error('ERROR: encryptData received invalid input (data or key is null/undefined). Data:', data, 'Key:', key);
+    console.error('ERROR: encryptData received invalid input (data or key is null/undefined).');
     throw new Error('Encrypt data received invalid input.');
   }
 
-  // Generate random IV using expo-crypto
-  const ivUint8 = ExpoCrypto.getRandomBytes(IV_SIZE);
-  const iv = CryptoJS.lib.WordArray.create(Array.from(ivUint8));
-  console.log('DEBUG: encryptData - Generated IV:', iv.toString());
+  const { encKey, macKey } = deriveSubKeys(key);
+  const iv = randomWordArray(IV_SIZE);
 
-  // Perform encryption with explicit IV
-  const encrypted = CryptoJS.AES.encrypt(data, key, {
+  const encrypted = CryptoJS.AES.encrypt(data, encKey, {
     iv: iv,
     mode: CryptoJS.mode.CBC,
     padding: CryptoJS.pad.Pkcs7
   });
 
-  // Return the encrypted data in a format that includes the IV
-  return iv.toString() + ':' + encrypted.toString();
+  // header || IV || ciphertext, authenticated as a whole
+  const envelope = CryptoJS.lib.WordArray.create([(ENVELOPE_VERSION << 24) | (ALG_AES256_CBC_HMAC_SHA256 << 16)], HEADER_SIZE)
+    .concat(iv)
+    .concat(encrypted.ciphertext);
+  const tag = CryptoJS.HmacSHA256(envelope, macKey);
+
+  return envelope.concat(tag).toString(CryptoJS.enc.Base64);
 };
 
 /**
- * Decrypts data using AES-256 with a derived key.
- * Expects input in format "iv:ciphertext".
- * @param encryptedText The encrypted string (from encryptData).
- * @param key The CryptoJS WordArray encryption key.
- * @returns The decrypted plaintext string, or null if decryption fails or input is invalid.
+ * Decrypts data written by the legacy (v1) encryptData: "iv:ciphertext" with no MAC.
+ * Only the padding and UTF-8 checks can detect a wrong key or corrupted data here.
  */
-export const decryptData = (encryptedText: string, key: CryptoJS.lib.WordArray): string | null => {
-  console.log('DEBUG: decryptData - encryptedText (first 50 chars):', encryptedText ? encryptedText.substring(0, 50) : 'null/undefined');
-  console.log('DEBUG: decryptData - Input key (type, words, sigBytes):', typeof key, key?.words, key?.sigBytes);
+const decryptLegacyData = (encryptedText: string, key: CryptoJS.lib.WordArray): string => {
+  const [ivString, ciphertext] = encryptedText.split(':');
+  if (!ivString || !ciphertext) {
+    throw new DecryptionError('MALFORMED', 'Invalid legacy data format. Expected "iv:ciphertext".');
+  }
 
+  let plaintext = '';
   try {
-    if (!encryptedText || typeof encryptedText !== 'string' || !key) {
-      console.warn('WARN: decryptData received invalid input type for encryptedText or key.');
-      return null;
-    }
-
-    // Split the input into IV and ciphertext
-    const [ivString, ciphertext] = encryptedText.split(':');
-    if (!ivString || !ciphertext) {
-      console.warn('WARN: decryptData - Invalid encrypted data format. Expected "iv:ciphertext"');
-      return null;
-    }
-
-    // Parse the IV and attempt decryption
-    const iv = CryptoJS.enc.Hex.parse(ivString);
-    
     const decrypted = CryptoJS.AES.decrypt(ciphertext, key, {
-      iv: iv,
+      iv: CryptoJS.enc.Hex.parse(ivString),
       mode: CryptoJS.mode.CBC,
       padding: CryptoJS.pad.Pkcs7
     });
+    if (decrypted && decrypted.sigBytes > 0) {
+      plaintext = decrypted.toString(CryptoJS.enc.Utf8);
+    }
+  } catch (error) {
+    // Malformed UTF-8 after decrypting with the wrong key lands here
+    console.warn('WARN: decryptLegacyData - Legacy decryption threw:', error);
+  }
 
-    console.log('DEBUG: decryptData - Result of CryptoJS.AES.decrypt:', decrypted);
-    console.log('DEBUG: decryptData - decrypted.words:', decrypted?.words);
-    console.log('DEBUG: decryptData - decrypted.sigBytes:', decrypted?.sigBytes);
+  if (!plaintext) {
+    throw new DecryptionError('LEGACY_DECRYPT_FAILED', 'Legacy data could not be decrypted.');
+  }
+  return plaintext;
+};
 
-    // CRITICAL CHECK: Ensure decrypted has valid bytes before converting to string
-    if (!decrypted || !decrypted.words || decrypted.words.length === 0 || decrypted.sigBytes <= 0) {
-      console.warn('WARN: Decryption resulted in no valid words/bytes or zero sigBytes.');
-      return null;
-    }
+/**
+ * Decrypts data produced by encryptData, verifying its auth tag first.
+ * Legacy "iv:ciphertext" data is still accepted; callers re-encrypt it on the next save.
+ * @param encryptedText The encrypted string (from encryptData).
+ * @param key The CryptoJS WordArray encryption key.
+ * @returns The decrypted plaintext string.
+ * @throws DecryptionError if the data is malformed, tampered with, or the key is wrong.
+ */
+export const decryptData = (encryptedText: string, key: CryptoJS.lib.WordArray): string => {
+  if (!encryptedText || typeof encryptedText !== 'string' || !key) {
+    throw new DecryptionError('INVALID_INPUT', 'decryptData received invalid input.');
+  }
 
-    const plaintext = decrypted.toString(CryptoJS.enc.Utf8);
-    console.log('DEBUG: decryptData - Converted plaintext (first 50 chars):', plaintext ? plaintext.substring(0, 50) : 'null/empty');
+  if (isLegacyCiphertext(encryptedText)) {
+    console.log('DEBUG: decryptData - Legacy "iv:ciphertext" data detected.');
+    return decryptLegacyData(encryptedText, key);
+  }
 
-    if (!plaintext) {
-      console.warn('WARN: Decryption resulted in empty plaintext string.');
-      return null;
+  let envelope: CryptoJS.lib.WordArray;
+  try {
+    envelope = CryptoJS.enc.Base64.parse(encryptedText);
+  } catch (error) {
+    throw new DecryptionError('MALFORMED', 'Encrypted data is not valid base64.');
+  }
+
+  // Smallest valid envelope holds one AES block of ciphertext
+  if (envelope.sigBytes < HEADER_SIZE + IV_SIZE + 16 + TAG_SIZE) {
+    throw new DecryptionError('MALFORMED', 'Encrypted data is truncated.');
+  }
+
+  const version = (envelope.words[0] >>> 24) & 0xff;
+  const algorithm = (envelope.words[0] >>> 16) & 0xff;
+  if (version !== ENVELOPE_VERSION) {
+    throw new DecryptionError('UNSUPPORTED_VERSION', `Unsupported envelope version ${version}.`);
+  }
+  if (algorithm !== ALG_AES256_CBC_HMAC_SHA256) {
+    throw new DecryptionError('UNSUPPORTED_ALGORITHM', `Unsupported algorithm id ${algorithm}.`);
+  }
+
+  const tagStart = envelope.sigBytes - TAG_SIZE;
+  const authenticated = sliceWordArray(envelope, 0, tagStart);
+  const tag = sliceWordArray(envelope, tagStart, envelope.sigBytes);
+
+  const { encKey, macKey } = deriveSubKeys(key);
+  if (!constantTimeEquals(CryptoJS.HmacSHA256(authenticated, macKey), tag)) {
+    throw new DecryptionError('AUTHENTICATION_FAILED', 'Auth tag mismatch: wrong key or tampered data.');
+  }
+
+  const iv = sliceWordArray(envelope, HEADER_SIZE, HEADER_SIZE + IV_SIZE);
+  const ciphertext = sliceWordArray(envelope, HEADER_SIZE + IV_SIZE, tagStart);
+  const decrypted = CryptoJS.AES.decrypt(CryptoJS.lib.CipherParams.create({ ciphertext }), encKey, {
+    iv: iv,
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.Pkcs7
+  });
+
+  try {
+    return decrypted.toString(CryptoJS.enc.Utf8);
+  } catch (error) {
+    // Unreachable unless encryptData was fed non-UTF-8 input; the tag already matched
+    throw new DecryptionError('MALFORMED', 'Decrypted data is not valid UTF-8.');
+  }
+};
+
+// --- Constants for the chunked format ---
+// Large notes and attachments are split into fixed-size segments that are encrypted and
+// authenticated one at a time, so neither side ever holds the whole file in one WordArray.
+// File layout (raw bytes): [header (24)] then segments of [IV (16)][ciphertext][auth tag (32)]
+// Header: [version (1)][algorithm id (1)][reserved (2)][segment size (4)][file nonce (16)]
+const CHUNKED_VERSION = 0x03;
+export const CHUNKED_HEADER_SIZE = 24;
+const FILE_NONCE_SIZE = 16;
+// Every segment but the last holds exactly this much plaintext; with PKCS#7 padding a full
+// segment is stored as 32832 bytes.
+export const CHUNKED_SEGMENT_SIZE = 32 * 1024;
+const SEGMENT_OVERHEAD = IV_SIZE + 16 + TAG_SIZE; // IV, a full block of padding and the tag
+
+// Encrypts and decrypts the segments of one chunked file
+export interface SegmentCipher {
+  header: CryptoJS.lib.WordArray;
+  segmentSize: number; // Plaintext bytes per segment
+  storedSegmentSize: number; // Bytes a full segment takes on disk
+  encryptSegment: (plaintext: CryptoJS.lib.WordArray, index: number, isFinal: boolean) => CryptoJS.lib.WordArray;
+  decryptSegment: (stored: CryptoJS.lib.WordArray, index: number, isFinal: boolean) => CryptoJS.lib.WordArray;
+}
+
+/**
+ * Returns bytes [start, end) of a WordArray. Much faster than sliceWordArray,
+ * but start must fall on a word boundary.
+ */
+const sliceAlignedWordArray = (wordArray: CryptoJS.lib.WordArray, start: number, end: number): CryptoJS.lib.WordArray =>
+  CryptoJS.lib.WordArray.create(wordArray.words.slice(start / 4, Math.ceil(end / 4)), end - start);
+
+/**
+ * Checks whether the first bytes of a file are a chunked-format header.
+ * Files in the older formats hold base64 or hex text, which never starts with this version byte.
+ * @param firstBytes At least the first two bytes of the file.
+ * @returns True if the file should be read with createSegmentCipher.
+ */
+export const isChunkedCiphertext = (firstBytes: CryptoJS.lib.WordArray): boolean =>
+  firstBytes.sigBytes >= 2 && ((firstBytes.words[0] >>> 24) & 0xff) === CHUNKED_VERSION;
+
+/**
+ * Sets up the encryption of one chunked file. Pass no header to start a new file (with a
+ * fresh file nonce), or the header read from an existing file to decrypt it.
+ * Each segment's auth tag covers the header, the segment's index and whether it is the last
+ * one, so segments can't be reordered, moved between files, or cut off at a segment boundary.
+ * @param key The CryptoJS WordArray encryption key.
+ * @param header The header of an existing file.
+ * @returns The cipher for that file's segments.
+ * @throws DecryptionError if the header is malformed or from an unknown version.
+ */
+export const createSegmentCipher = (key: CryptoJS.lib.WordArray, header?: CryptoJS.lib.WordArray): SegmentCipher => {
+  if (!key) {
+    throw new DecryptionError('INVALID_INPUT', 'createSegmentCipher received no key.');
+  }
+  if (!header) {
+    header = CryptoJS.lib.WordArray.create(
+      [(CHUNKED_VERSION << 24) | (ALG_AES256_CBC_HMAC_SHA256 << 16), CHUNKED_SEGMENT_SIZE],
+      CHUNKED_HEADER_SIZE - FILE_NONCE_SIZE
+    ).concat(randomWordArray(FILE_NONCE_SIZE));
+  }
+  if (header.sigBytes !== CHUNKED_HEADER_SIZE) {
+    throw new DecryptionError('MALFORMED', 'Chunked data has a truncated header.');
+  }
+  const version = (header.words[0] >>> 24) & 0xff;
+  const algorithm = (header.words[0] >>> 16) & 0xff;
+  if (version !== CHUNKED_VERSION) {
+    throw new DecryptionError('UNSUPPORTED_VERSION', `Unsupported chunked format version ${version}.`);
+  }
+  if (algorithm !== ALG_AES256_CBC_HMAC_SHA256) {
+    throw new DecryptionError('UNSUPPORTED_ALGORITHM', `Unsupported algorithm id ${algorithm}.`);
+  }
+  // Only checked for sanity here; a changed segment size fails the first segment's tag
+  const segmentSize = header.words[1] >>> 0;
+  if (segmentSize === 0 || segmentSize % 16 !== 0) {
+    throw new DecryptionError('MALFORMED', `Invalid segment size ${segmentSize}.`);
+  }
+
+  const { encKey, macKey } = deriveSubKeys(key);
+  const fileHeader = header;
+  // header || segment index (4) || final flag (1) || zero padding (3) || IV || ciphertext
+  const computeTag = (index: number, isFinal: boolean, iv: CryptoJS.lib.WordArray, ciphertext: CryptoJS.lib.WordArray) =>
+    CryptoJS.HmacSHA256(
+      fileHeader.clone().concat(CryptoJS.lib.WordArray.create([index, isFinal ? 0x01000000 : 0], 8)).concat(iv).concat(ciphertext),
+      macKey
+    );
+
+  return {
+    header: fileHeader,
+    segmentSize,
+    storedSegmentSize: segmentSize + SEGMENT_OVERHEAD,
+    encryptSegment: (plaintext, index, isFinal) => {
+      const iv = randomWordArray(IV_SIZE);
+      const { ciphertext } = CryptoJS.AES.encrypt(plaintext, encKey, {
+        iv: iv,
+        mode: CryptoJS.mode.CBC,
+        padding: CryptoJS.pad.Pkcs7
+      });
+      return iv.clone().concat(ciphertext).concat(computeTag(index, isFinal, iv, ciphertext));
+    },
+    decryptSegment: (stored, index, isFinal) => {
+      const ciphertextLength = stored.sigBytes - IV_SIZE - TAG_SIZE;
+      if (ciphertextLength < 16 || ciphertextLength % 16 !== 0 || stored.sigBytes > segmentSize + SEGMENT_OVERHEAD) {
+        throw new DecryptionError('MALFORMED', `Segment ${index} has an invalid length.`);
+      }
+      const iv = sliceAlignedWordArray(stored, 0, IV_SIZE);
+      const ciphertext = sliceAlignedWordArray(stored, IV_SIZE, IV_SIZE + ciphertextLength);
+      const tag = sliceAlignedWordArray(stored, IV_SIZE + ciphertextLength, stored.sigBytes);
+      if (!constantTimeEquals(computeTag(index, isFinal, iv, ciphertext), tag)) {
+        throw new DecryptionError('AUTHENTICATION_FAILED', `Segment ${index}: wrong key, or tampered, reordered or truncated data.`);
+      }
+      return CryptoJS.AES.decrypt(CryptoJS.lib.CipherParams.create({ ciphertext }), encKey, {
+        iv: iv,
+        mode: CryptoJS.mode.CBC,
+        padding: CryptoJS.pad.Pkcs7
+      });
+    },
+  };
+};
+
+// --- Key hierarchy ---
+// Notes are encrypted with a random vault key (data-encryption key). The vault key is never
+// stored in the clear: each unlock method keeps its own copy, wrapped (encrypted) under a
+// key-encryption key only that method can produce. Wrappers are added or revoked independently
+// without touching note files.
+const VAULT_KEY_SIZE = 256 / 8; // AES-256 vault key (32 bytes)
+const WRAPPER_KEY_PREFIX = 'wrapper_'; // SecureStore key name prefix for wrapped copies of the vault key
+
+export type KeyWrapperId = 'password' | 'recovery' | 'biometric';
+const KEY_WRAPPER_IDS: KeyWrapperId[] = ['password', 'recovery', 'biometric'];
+
+// A copy of the vault key wrapped under one unlock method's key-encryption key.
+export interface KeyWrapperRecord {
+  id: KeyWrapperId;
+  kdf?: KdfDescriptor; // For wrappers whose key-encryption key is derived from a passphrase
+  salt?: string; // Base64 salt of records written before KDF descriptors; implies LEGACY_KDF_PARAMS
+  wrappedKey: string; // The vault key (hex) encrypted with encryptData under the key-encryption key
+  createdAt: number;
+}
+
+/**
+ * Generates a new random vault key.
+ * @returns A CryptoJS WordArray holding the 256-bit vault key.
+ */
+export const generateVaultKey = (): CryptoJS.lib.WordArray => randomWordArray(VAULT_KEY_SIZE);
+
+/**
+ * Wraps the vault key under a key-encryption key.
+ * @param id The unlock method the wrapper belongs to.
+ * @param vaultKey The vault key to wrap.
+ * @param kek The key-encryption key.
+ * @param kdf How the key-encryption key was derived, if it came from a passphrase.
+ * @returns The wrapper record, ready to be stored with storeKeyWrapper.
+ */
+export const wrapVaultKey = (
+  id: KeyWrapperId,
+  vaultKey: CryptoJS.lib.WordArray,
+  kek: CryptoJS.lib.WordArray,
+  kdf?: KdfDescriptor
+): KeyWrapperRecord => ({
+  id,
+  kdf,
+  wrappedKey: encryptData(vaultKey.toString(CryptoJS.enc.Hex), kek),
+  createdAt: Date.now(),
+});
+
+/**
+ * Derives a new key from a passphrase with a fresh salt and the currently recommended
+ * KDF parameters.
+ * @param passphrase The password or phrase.
+ * @returns The key and the descriptor needed to derive it again.
+ */
+export const createPassphraseKey = async (
+  passphrase: string
+): Promise<{ key: CryptoJS.lib.WordArray; kdf: KdfDescriptor }> => {
+  if (!passphrase) {
+    throw new Error('Passphrase cannot be empty.');
+  }
+  const kdf: KdfDescriptor = {
+    ...(await getRecommendedKdfParams()),
+    salt: generateSalt().toString(CryptoJS.enc.Base64),
+  };
+  return { key: deriveKey(passphrase, kdf), kdf };
+};
+
+/**
+ * Wraps the vault key under a key derived from a passphrase, a fresh salt and the
+ * currently recommended KDF parameters.
+ * @param id The unlock method the wrapper belongs to.
+ * @param vaultKey The vault key to wrap.
+ * @param passphrase The password or phrase that will unlock this wrapper.
+ * @returns The wrapper record, ready to be stored with storeKeyWrapper.
+ */
+export const wrapVaultKeyWithPassphrase = async (
+  id: KeyWrapperId,
+  vaultKey: CryptoJS.lib.WordArray,
+  passphrase: string
+): Promise<KeyWrapperRecord> => {
+  const { key: kek, kdf } = await createPassphraseKey(passphrase);
+  return wrapVaultKey(id, vaultKey, kek, kdf);
+};
+
+/**
+ * Returns the KDF descriptor of a passphrase wrapper, filling in the legacy parameters
+ * for records stored before descriptors existed.
+ */
+const getWrapperKdf = (record: KeyWrapperRecord): KdfDescriptor | null => {
+  if (record.kdf) {
+    return record.kdf;
+  }
+  return record.salt ? { ...LEGACY_KDF_PARAMS, salt: record.salt } : null;
+};
+
+/**
+ * Stores a wrapper record, replacing any existing wrapper with the same id.
+ * Each wrapper is a single SecureStore entry, so replacing one is atomic.
+ * @param record The wrapper record to store.
+ */
+export const storeKeyWrapper = async (record: KeyWrapperRecord) => {
+  try {
+    await SecureStore.setItemAsync(getVaultStoreKey(`${WRAPPER_KEY_PREFIX}${record.id}`), JSON.stringify(record));
+    console.log(`LOG: Key wrapper "${record.id}" stored securely.`);
+  } catch (error) {
+    console.error(`ERROR: Failed to store key wrapper "${record.id}":`, error);
+    throw new Error('Failed to store critical encryption data.');
+  }
+};
+
+/**
+ * Retrieves a stored wrapper record.
+ * @param id The unlock method to look up.
+ * @returns The wrapper record, or null if that unlock method is not set up.
+ */
+export const getKeyWrapper = async (id: KeyWrapperId): Promise<KeyWrapperRecord | null> => {
+  try {
+    const raw = await SecureStore.getItemAsync(getVaultStoreKey(`${WRAPPER_KEY_PREFIX}${id}`));
+    return raw ? (JSON.parse(raw) as KeyWrapperRecord) : null;
+  } catch (error) {
+    console.error(`ERROR: Failed to retrieve key wrapper "${id}":`, error);
+    return null;
+  }
+};
+
+/**
+ * Lists the unlock methods that currently hold a wrapped copy of the vault key.
+ * @returns The ids of every stored wrapper.
+ */
+export const listKeyWrappers = async (): Promise<KeyWrapperId[]> => {
+  const ids: KeyWrapperId[] = [];
+  for (const id of KEY_WRAPPER_IDS) {
+    if (await getKeyWrapper(id)) {
+      ids.push(id);
     }
+  }
+  return ids;
+};
 
-    return plaintext;
+/**
+ * Removes an unlock method. Notes and other wrappers are unaffected.
+ * @param id The unlock method to revoke.
+ */
+export const revokeKeyWrapper = async (id: KeyWrapperId) => {
+  if (id === 'password') {
+    throw new Error('The password wrapper cannot be revoked; change the password instead.');
+  }
+  await SecureStore.deleteItemAsync(getVaultStoreKey(`${WRAPPER_KEY_PREFIX}${id}`));
+  console.log(`LOG: Key wrapper "${id}" revoked.`);
+};
 
+/**
+ * Unwraps the vault key from a wrapper record.
+ * The wrapped key is authenticated, so a wrong key-encryption key is detected reliably.
+ * @param record The wrapper record.
+ * @param kek The key-encryption key for this wrapper.
+ * @returns The vault key, or null if the key-encryption key is wrong or the record is corrupt.
+ */
+export const unwrapVaultKey = (record: KeyWrapperRecord, kek: CryptoJS.lib.WordArray): CryptoJS.lib.WordArray | null => {
+  try {
+    const vaultKey = CryptoJS.enc.Hex.parse(decryptData(record.wrappedKey, kek));
+    return vaultKey.sigBytes === VAULT_KEY_SIZE ? vaultKey : null;
   } catch (error) {
-    console.error('ERROR: Decryption failed:', error);
+    console.warn(`WARN: Failed to unwrap vault key from "${record.id}" wrapper.`, error);
+    return null;
+  }
+};
+
+/**
+ * Unwraps the vault key using a passphrase-based wrapper.
+ * @param id The unlock method to use.
+ * @param passphrase The password or phrase entered by the user.
+ * @returns The vault key, or null if the passphrase is wrong or the wrapper does not exist.
+ */
+export const unwrapVaultKeyWithPassphrase = async (
+  id: KeyWrapperId,
+  passphrase: string
+): Promise<CryptoJS.lib.WordArray | null> => {
+  const record = await getKeyWrapper(id);
+  const kdf = record ? getWrapperKdf(record) : null;
+  if (!record || !kdf) {
+    console.warn(`WARN: No passphrase wrapper "${id}" found.`);
     return null;
   }
+  const kek = deriveKey(passphrase, kdf);
+  return unwrapVaultKey(record, kek);
 };
 
 /**
- * Stores the PBKDF2 salt securely.
- * The salt is essential for deriving the same key every time.
- * @param salt The CryptoJS WordArray salt to store.
+ * Re-wraps the vault key with the recommended KDF parameters if the wrapper's are weaker.
+ * Call right after a successful unlock, while the passphrase is still at hand.
+ * Failures are logged and ignored: the existing wrapper keeps working.
+ * @param id The passphrase wrapper that was just used.
+ * @param vaultKey The unlocked vault key.
+ * @param passphrase The passphrase that unlocked it.
+ * @returns True if the wrapper was upgraded.
  */
-const storeSalt = async (salt: CryptoJS.lib.WordArray) => {
+export const upgradeWeakKeyWrapper = async (
+  id: KeyWrapperId,
+  vaultKey: CryptoJS.lib.WordArray,
+  passphrase: string
+): Promise<boolean> => {
   try {
-    // Ensure salt is convertible to string. toString(Base64) is reliable.
-    await SecureStore.setItemAsync(SECURE_STORE_SALT_KEY, salt.toString(CryptoJS.enc.Base64));
-    console.log('LOG: Salt stored securely.');
+    const record = await getKeyWrapper(id);
+    const kdf = record ? getWrapperKdf(record) : null;
+    if (!kdf || !isKdfWeak(kdf, await getRecommendedKdfParams())) {
+      return false;
+    }
+    await storeKeyWrapper(await wrapVaultKeyWithPassphrase(id, vaultKey, passphrase));
+    console.log(`LOG: Upgraded key derivation parameters of "${id}" wrapper.`);
+    return true;
   } catch (error) {
-    console.error('ERROR: Failed to store salt:', error);
-    throw new Error('Failed to store critical encryption data.');
+    console.warn(`WARN: Failed to upgrade key derivation parameters of "${id}" wrapper:`, error);
+    return false;
   }
 };
 
 /**
- * Retrieves the PBKDF2 salt securely.
+ * Retrieves the PBKDF2 salt of a vault created before the key hierarchy existed.
  * @returns The CryptoJS WordArray salt, or null if not found.
  */
-const getStoredSalt = async (): Promise<CryptoJS.lib.WordArray | null> => {
+const getLegacySalt = async (): Promise<CryptoJS.lib.WordArray | null> => {
   try {
-    const saltBase64 = await SecureStore.getItemAsync(SECURE_STORE_SALT_KEY);
+    const saltBase64 = await SecureStore.getItemAsync(getVaultStoreKey(SECURE_STORE_SALT_KEY));
     if (saltBase64) {
       return CryptoJS.enc.Base64.parse(saltBase64); // This expects a string
     }
@@ -167,69 +600,69 @@ const getStoredSalt = async (): Promise<CryptoJS.lib.WordArray | null> => {
 };
 
 /**
- * Checks if a master password has been set (by checking for the stored salt).
+ * Checks whether the vault still uses the legacy scheme, where notes are encrypted
+ * directly with the password-derived key, and needs a one-time migration.
+ * @returns True if a legacy salt exists and no password wrapper has been stored yet.
+ */
+export const isLegacyVault = async (): Promise<boolean> => {
+  return (await getKeyWrapper('password')) === null && (await getLegacySalt()) !== null;
+};
+
+/**
+ * Checks if a master password has been set.
  * @returns True if a master password has been set, false otherwise.
  */
 export const hasMasterPassword = async (): Promise<boolean> => {
-  const salt = await getStoredSalt();
-  return salt !== null;
+  return (await getKeyWrapper('password')) !== null || (await getLegacySalt()) !== null;
 };
 
 /**
  * Sets the master password for the first time.
- * Generates a new salt, derives the key, and stores the salt securely.
- * It also sets a test encrypted value for future password verification.
+ * Generates a random vault key and stores it wrapped under the password-derived key.
  * @param password The master password to set.
- * @returns The derived encryption key (CryptoJS WordArray).
+ * @returns The vault key (CryptoJS WordArray) used to encrypt notes.
  */
 export const setMasterPassword = async (password: string): Promise<CryptoJS.lib.WordArray> => {
   if (!password) {
     throw new Error('Password cannot be empty.');
   }
-  const salt = generateSalt();
-  await storeSalt(salt);
-
-  const derivedKey = deriveKey(password, salt);
-
-  // Ensure derivedKey is not undefined or empty after derivation
-  if (!derivedKey || derivedKey.sigBytes === 0) {
-      console.error('ERROR: Derived key is undefined or empty after derivation.');
-      throw new Error('Failed to derive encryption key.');
-  }
+  const vaultKey = generateVaultKey();
+  await storeKeyWrapper(await wrapVaultKeyWithPassphrase('password', vaultKey, password));
+  return vaultKey;
+};
 
-  // Encrypt and store test data immediately after setting the password
-  try {
-    const encryptedTest = encryptData(TEST_PLAIN_TEXT, derivedKey);
-    await SecureStore.setItemAsync(TEST_DATA_KEY, encryptedTest);
-    console.log('DEBUG: Test data set securely.');
-  } catch (e) {
-    console.error('ERROR: Failed to set test data:', e);
-    throw new Error('Failed to secure internal test data for password verification.');
+/**
+ * Verifies the entered master password by unwrapping the vault key with it.
+ * Legacy vaults are not handled here; see verifyLegacyMasterPassword.
+ * @param password The master password entered by the user.
+ * @returns The vault key (CryptoJS WordArray) if successful, or null if verification fails.
+ */
+export const verifyMasterPassword = async (password: string): Promise<CryptoJS.lib.WordArray | null> => {
+  if (!password) {
+    return null;
   }
-
-  return derivedKey;
+  return unwrapVaultKeyWithPassphrase('password', password);
 };
 
-
 /**
- * Verifies the entered master password and returns the derived key if correct.
+ * Verifies the master password of a legacy vault against its stored test data.
  * @param password The master password entered by the user.
- * @returns The derived encryption key (CryptoJS WordArray) if successful, or null if verification fails.
+ * @returns The password-derived key the legacy notes are encrypted with, or null if verification fails.
  */
-export const verifyMasterPassword = async (password: string): Promise<CryptoJS.lib.WordArray | null> => {
+export const verifyLegacyMasterPassword = async (password: string): Promise<CryptoJS.lib.WordArray | null> => {
   if (!password) {
     return null;
   }
 
-  const salt = await getStoredSalt();
+  const salt = await getLegacySalt();
   if (!salt) {
     console.warn('WARN: Attempted to verify password but no salt found.');
     return null;
   }
 
-  const derivedKey = deriveKey(password, salt);
+  const derivedKey = deriveKey(password, { ...LEGACY_KDF_PARAMS, salt: salt.toString(CryptoJS.enc.Base64) });
 
-  const STORED_TEST_DATA = await SecureStore.getItemAsync(TEST_DATA_KEY);
+  const STORED_TEST_DATA = await SecureStore.getItemAsync(getVaultStoreKey(TEST_DATA_KEY));
 
   // CRITICAL CHECK: If test data is missing, we cannot verify the password.
   if (!STORED_TEST_DATA) {
@@ -237,14 +670,74 @@ export const verifyMasterPassword = async (password: string): Promise<CryptoJS.l
       return null;
   }
 
-  const decryptedTest = decryptData(STORED_TEST_DATA, derivedKey);
-
-  if (decryptedTest === TEST_PLAIN_TEXT) {
+  try {
+    if (decryptData(STORED_TEST_DATA, derivedKey) === TEST_PLAIN_TEXT) {
       return derivedKey; // Password is correct
-  } else {
-      console.warn('WARN: Decrypted test data does not match. Incorrect password or data corruption.');
-      return null;
+    }
+  } catch (error) {
+    console.warn('WARN: Test data failed to decrypt. Incorrect password or data corruption.', error);
+    return null;
+  }
+
+  console.warn('WARN: Decrypted test data does not match. Incorrect password or data corruption.');
+  return null;
+};
+
+/**
+ * Prepares the one-time migration of a legacy vault to the key hierarchy.
+ * The legacy password-derived key becomes the key-encryption key of a new, random vault key.
+ * Nothing is stored; the caller re-encrypts the notes and then calls completeLegacyVaultMigration.
+ * @param legacyKey The key returned by verifyLegacyMasterPassword.
+ * @returns The new vault key and the password wrapper to store once the notes are re-encrypted.
+ */
+export const prepareLegacyVaultMigration = async (
+  legacyKey: CryptoJS.lib.WordArray
+): Promise<{ vaultKey: CryptoJS.lib.WordArray; passwordWrapper: KeyWrapperRecord }> => {
+  const salt = await getLegacySalt();
+  if (!salt) {
+    throw new Error('No legacy vault to migrate.');
   }
+  const vaultKey = generateVaultKey();
+  return {
+    vaultKey,
+    passwordWrapper: wrapVaultKey('password', vaultKey, legacyKey, {
+      ...LEGACY_KDF_PARAMS,
+      salt: salt.toString(CryptoJS.enc.Base64),
+    }),
+  };
+};
+
+/**
+ * Stores the password wrapper of a migrated vault and removes the legacy salt and test data.
+ * Idempotent, so it can be re-run when recovering an interrupted migration.
+ * @param passwordWrapper The wrapper created by prepareLegacyVaultMigration.
+ */
+export const completeLegacyVaultMigration = async (passwordWrapper: KeyWrapperRecord) => {
+  await storeKeyWrapper(passwordWrapper);
+  await SecureStore.deleteItemAsync(getVaultStoreKey(SECURE_STORE_SALT_KEY));
+  await SecureStore.deleteItemAsync(getVaultStoreKey(TEST_DATA_KEY));
+  console.log('LOG: Legacy vault migrated to a wrapped vault key.');
+};
+
+/**
+ * Undoes completeLegacyVaultMigration, however far it got, when the notes go back to the
+ * legacy key: the legacy salt and test data are put back before the password wrapper is
+ * removed, so the password unlocks the vault the legacy way again. Idempotent.
+ * @param passwordWrapper The wrapper created by prepareLegacyVaultMigration; it holds the legacy salt.
+ * @param legacyKey The key returned by verifyLegacyMasterPassword.
+ */
+export const revertLegacyVaultMigration = async (
+  passwordWrapper: KeyWrapperRecord,
+  legacyKey: CryptoJS.lib.WordArray
+) => {
+  const salt = passwordWrapper.kdf?.salt ?? passwordWrapper.salt;
+  if (!salt) {
+    throw new Error('The migrated password wrapper has no legacy salt.');
+  }
+  await SecureStore.setItemAsync(getVaultStoreKey(SECURE_STORE_SALT_KEY), salt);
+  await SecureStore.setItemAsync(getVaultStoreKey(TEST_DATA_KEY), encryptData(TEST_PLAIN_TEXT, legacyKey));
+  await SecureStore.deleteItemAsync(getVaultStoreKey(`${WRAPPER_KEY_PREFIX}password`));
+  console.log('LOG: Legacy vault migration reverted.');
 };
 
 /**
@@ -253,11 +746,14 @@ export const verifyMasterPassword = async (password: string): Promise<CryptoJS.l
  */
 export const clearMasterPassword = async () => {
   try {
-    await SecureStore.deleteItemAsync(SECURE_STORE_SALT_KEY);
-    await SecureStore.deleteItemAsync(TEST_DATA_KEY);
+    for (const id of KEY_WRAPPER_IDS) {
+      await SecureStore.deleteItemAsync(getVaultStoreKey(`${WRAPPER_KEY_PREFIX}${id}`));
+    }
+    await SecureStore.deleteItemAsync(getVaultStoreKey(SECURE_STORE_SALT_KEY));
+    await SecureStore.deleteItemAsync(getVaultStoreKey(TEST_DATA_KEY));
     console.log('LOG: Master password and associated data cleared.');
   } catch (error) {
     console.error('ERROR: Failed to clear master password:', error);
     throw new Error('Failed to clear master password data.');
   }
-};
\ No newline at end of file
+};
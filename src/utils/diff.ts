@@ -0,0 +1,77 @@
+// src/utils/diff.ts
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// Above this many cells the LCS table gets too big for the JS thread; the changed
+// middle is then shown as a plain remove-then-add block instead.
+const MAX_LCS_CELLS = 1000000;
+
+/**
+ * Computes a line diff between two texts.
+ * @param oldText The earlier text.
+ * @param newText The later text.
+ * @returns Every line of both texts, marked as unchanged, removed from oldText or added in newText.
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  // Common prefix and suffix are cheap to strip and usually most of a note
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const result: DiffLine[] = oldLines.slice(0, prefix).map(text => ({ type: 'same', text }));
+
+  if (oldMiddle.length * newMiddle.length > MAX_LCS_CELLS) {
+    oldMiddle.forEach(text => result.push({ type: 'removed', text }));
+    newMiddle.forEach(text => result.push({ type: 'added', text }));
+  } else {
+    // lcs[i][j]: length of the longest common subsequence of oldMiddle[i..] and newMiddle[j..]
+    const lcs: number[][] = Array.from({ length: oldMiddle.length + 1 }, () => new Array(newMiddle.length + 1).fill(0));
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lcs[i][j] = oldMiddle[i] === newMiddle[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length && j < newMiddle.length) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        result.push({ type: 'same', text: oldMiddle[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        result.push({ type: 'removed', text: oldMiddle[i++] });
+      } else {
+        result.push({ type: 'added', text: newMiddle[j++] });
+      }
+    }
+    while (i < oldMiddle.length) {
+      result.push({ type: 'removed', text: oldMiddle[i++] });
+    }
+    while (j < newMiddle.length) {
+      result.push({ type: 'added', text: newMiddle[j++] });
+    }
+  }
+
+  oldLines.slice(oldLines.length - suffix).forEach(text => result.push({ type: 'same', text }));
+  return result;
+};
@@ -0,0 +1,228 @@
+// src/utils/duress.ts
+import CryptoJS from 'crypto-js';
+import * as SecureStore from 'expo-secure-store';
+import {
+  createPassphraseKey,
+  decryptData,
+  encryptData,
+  generateVaultKey,
+  KeyWrapperRecord,
+  randomWordArray,
+  verifyMasterPassword,
+  wrapVaultKey,
+  wrapVaultKeyWithPassphrase,
+} from './crypto';
+import { deriveKeyWithDescriptor, getRecommendedKdfParams, KdfDescriptor } from './kdf';
+import { createVaultId, getVaultStoreKey } from './vaultRegistry';
+
+// A duress password opens a decoy vault instead of the real one. Every vault has a duress
+// record, whether a duress password is set or not: without one it is filler of the same shape
+// and size, and checking a password against it costs the same key derivation. So neither the
+// stored keys nor the time an unlock takes show whether a duress password exists.
+const DURESS_KEY = 'duress'; // Per vault
+const SALT_SIZE = 128 / 8;
+
+interface DuressRecord {
+  kdf: KdfDescriptor; // Derives the key that opens `sealed` from the duress password
+  sealed: string; // DecoyAccess, encrypted under the duress password
+  owner: string; // DecoyVault plus the wipe choice, encrypted under the key of the vault the record belongs to
+  // The decoy's ID in the clear, so erasing the vault reaches the decoy without the vault key.
+  // Filler records have one too, under which nothing is ever stored. Absent in records from
+  // before it was kept here, until the vault is next unlocked (see recordDecoyVaultId).
+  decoyId?: string;
+  createdAt: number;
+}
+
+// The decoy vault. It is never in the vault list, so nothing but this record leads to it.
+interface DecoyVault {
+  vaultId: string;
+  vaultKey: string; // Hex
+}
+
+// What the duress password opens
+export interface DecoyAccess extends DecoyVault {
+  passwordWrapper: KeyWrapperRecord; // The decoy's own password wrapper, stored on first use
+  wipe: number; // 1 to erase the real vault once the decoy is open; a number, so the size doesn't depend on it
+}
+
+interface DuressOwnerRecord extends DecoyVault {
+  wipe: number;
+}
+
+export interface DuressSettings {
+  wipeRealVault: boolean;
+}
+
+const readRecord = async (vaultId?: string): Promise<DuressRecord | null> => {
+  const raw = await SecureStore.getItemAsync(getVaultStoreKey(DURESS_KEY, vaultId));
+  return raw ? JSON.parse(raw) : null;
+};
+
+const writeRecord = async (record: DuressRecord, vaultId?: string) => {
+  await SecureStore.setItemAsync(getVaultStoreKey(DURESS_KEY, vaultId), JSON.stringify(record));
+};
+
+/**
+ * Opens one of the record's encrypted parts.
+ * @returns The contents, or null if the key is wrong.
+ */
+const openSealed = <T>(sealed: string, key: CryptoJS.lib.WordArray): T | null => {
+  try {
+    return JSON.parse(decryptData(sealed, key));
+  } catch (error) {
+    return null; // Not logged: every ordinary unlock gets here, and the log must not tell them apart
+  }
+};
+
+/**
+ * Makes a record that no password opens: both parts are sealed under random keys that are
+ * thrown away, around contents of the same shape as a real record's.
+ */
+const createFillerRecord = async (): Promise<DuressRecord> => {
+  const kdf: KdfDescriptor = {
+    ...(await getRecommendedKdfParams()),
+    salt: randomWordArray(SALT_SIZE).toString(CryptoJS.enc.Base64),
+  };
+  const decoy: DuressOwnerRecord = {
+    vaultId: createVaultId(),
+    vaultKey: generateVaultKey().toString(CryptoJS.enc.Hex),
+    wipe: 0,
+  };
+  const passwordWrapper = wrapVaultKey('password', generateVaultKey(), generateVaultKey(), {
+    ...kdf,
+    salt: randomWordArray(SALT_SIZE).toString(CryptoJS.enc.Base64),
+  });
+  const access: DecoyAccess = { ...decoy, passwordWrapper };
+  return {
+    kdf,
+    sealed: encryptData(JSON.stringify(access), generateVaultKey()),
+    owner: encryptData(JSON.stringify(decoy), generateVaultKey()),
+    decoyId: decoy.vaultId,
+    createdAt: Date.now(),
+  };
+};
+
+/**
+ * Gives the vault a filler duress record if it has none yet. Runs whenever a vault is created
+ * or unlocked, so vaults from before duress passwords existed get one too.
+ */
+export const ensureDuressRecord = async () => {
+  if (!(await readRecord())) {
+    await writeRecord(await createFillerRecord());
+  }
+};
+
+/**
+ * Checks a password against the vault's duress record. Always derives a key, so it takes as
+ * long whether or not a duress password is set; call it on every password unlock.
+ * @param password The password entered on the Login screen.
+ * @returns Access to the decoy vault, or null if this is not the duress password.
+ */
+export const checkDuressPassword = async (password: string): Promise<DecoyAccess | null> => {
+  const record = await readRecord();
+  if (!record || !password) {
+    return null;
+  }
+  return openSealed<DecoyAccess>(record.sealed, deriveKeyWithDescriptor(password, record.kdf));
+};
+
+/**
+ * Reads the duress settings of an unlocked vault.
+ * @param vaultKey The vault key.
+ * @returns The settings, or null if no duress password is set.
+ */
+export const getDuressSettings = async (vaultKey: CryptoJS.lib.WordArray): Promise<DuressSettings | null> => {
+  const record = await readRecord();
+  const owner = record ? openSealed<DuressOwnerRecord>(record.owner, vaultKey) : null;
+  return owner ? { wipeRealVault: owner.wipe === 1 } : null;
+};
+
+/**
+ * Returns the ID of a vault's decoy vault, to erase it along with the vault. Needs no key, so
+ * the self-destruct can use it too. Vaults without a duress password return the ID of their
+ * filler record, under which nothing is stored, so the answer doesn't tell them apart.
+ * @param vaultId The vault; defaults to the active one.
+ * @returns The decoy's ID, or null if the vault has no record or one from before the ID was kept.
+ */
+export const getDecoyVaultId = async (vaultId?: string): Promise<string | null> =>
+  (await readRecord(vaultId))?.decoyId ?? null;
+
+/**
+ * Adds the decoy's ID in the clear to a record from before it was kept there. Call once the
+ * vault itself is unlocked.
+ * @param vaultKey The vault key.
+ */
+export const recordDecoyVaultId = async (vaultKey: CryptoJS.lib.WordArray) => {
+  const record = await readRecord();
+  if (!record || record.decoyId) {
+    return;
+  }
+  // A filler record's owner part opens with no key: it gets a fresh ID that leads nowhere
+  const owner = openSealed<DuressOwnerRecord>(record.owner, vaultKey);
+  await writeRecord({ ...record, decoyId: owner?.vaultId ?? createVaultId() });
+};
+
+/**
+ * Sets or changes the duress password of the unlocked vault. Changing it keeps the same decoy
+ * vault and its notes. The decoy's storage is only created the first time it is opened.
+ * @param vaultKey The vault key.
+ * @param password The duress password; must differ from the master password.
+ * @param wipeRealVault Whether using the duress password erases this vault.
+ * @throws Error if the password is empty or is the master password.
+ */
+export const setDuressPassword = async (
+  vaultKey: CryptoJS.lib.WordArray,
+  password: string,
+  wipeRealVault: boolean
+) => {
+  if (!password) {
+    throw new Error('Password cannot be empty.');
+  }
+  if (await verifyMasterPassword(password)) {
+    throw new Error('The duress password must be different from the master password.');
+  }
+
+  const record = await readRecord();
+  const existing = record ? openSealed<DuressOwnerRecord>(record.owner, vaultKey) : null;
+  const decoy: DuressOwnerRecord = {
+    vaultId: existing?.vaultId ?? createVaultId(),
+    vaultKey: existing?.vaultKey ?? generateVaultKey().toString(CryptoJS.enc.Hex),
+    wipe: wipeRealVault ? 1 : 0,
+  };
+  const passwordWrapper = await wrapVaultKeyWithPassphrase('password', CryptoJS.enc.Hex.parse(decoy.vaultKey), password);
+  const { key, kdf } = await createPassphraseKey(password);
+  const access: DecoyAccess = { ...decoy, passwordWrapper };
+  await writeRecord({
+    kdf,
+    sealed: encryptData(JSON.stringify(access), key),
+    owner: encryptData(JSON.stringify(decoy), vaultKey),
+    decoyId: decoy.vaultId,
+    createdAt: Date.now(),
+  });
+  console.log('LOG: Duress password set.');
+};
+
+/**
+ * Re-seals a vault's duress record under a new duress password. Used when the password of an
+ * open decoy is changed, so the new password keeps opening it from the Login screen.
+ * @param ownerVaultId The vault the record belongs to.
+ * @param access The decoy access, with the decoy's new password wrapper.
+ * @param password The new duress password.
+ */
+export const resealDuressRecord = async (ownerVaultId: string, access: DecoyAccess, password: string) => {
+  const record = await readRecord(ownerVaultId);
+  if (!record) {
+    return;
+  }
+  const { key, kdf } = await createPassphraseKey(password);
+  await writeRecord({ ...record, kdf, sealed: encryptData(JSON.stringify(access), key) }, ownerVaultId);
+};
+
+/**
+ * Turns the vault's duress password off by replacing its record with filler. The caller
+ * erases the decoy vault.
+ */
+export const clearDuressPassword = async () => {
+  await writeRecord(await createFillerRecord());
+  console.log('LOG: Duress password removed.');
+};
@@ -0,0 +1,202 @@
+// src/utils/kdf.ts
+import CryptoJS from 'crypto-js';
+import * as SecureStore from 'expo-secure-store';
+import { syncScrypt } from 'scrypt-js';
+
+export type KdfAlgorithm = 'pbkdf2' | 'scrypt';
+export type KdfHash = 'sha1' | 'sha256' | 'sha512';
+
+// Everything needed to re-derive a key from a passphrase. Stored alongside each
+// passphrase-based wrapper, so parameters can change without locking anyone out.
+export interface KdfDescriptor {
+  algorithm: KdfAlgorithm;
+  salt: string; // Base64
+  hash?: KdfHash; // PBKDF2 only
+  iterations?: number; // PBKDF2 only
+  cost?: number; // scrypt N (CPU/memory cost, a power of two)
+  blockSize?: number; // scrypt r
+  parallelization?: number; // scrypt p
+}
+
+export type KdfParams = Omit<KdfDescriptor, 'salt'>;
+
+const KEY_SIZE_BYTES = 256 / 8; // AES-256
+const CALIBRATION_KEY = 'ciphernote_kdf_calibration'; // Cached result of calibrateKdf
+
+// Parameters every vault used before descriptors were stored. crypto-js 4.2 defaults
+// PBKDF2 to SHA-256; it is spelled out here so a library default change can't break unlock.
+export const LEGACY_KDF_PARAMS: KdfParams = { algorithm: 'pbkdf2', hash: 'sha256', iterations: 10000 };
+
+// Calibration bounds for PBKDF2-SHA256
+const TARGET_DERIVATION_MS = 750; // Keep a single unlock under this on the current device
+const MIN_PBKDF2_ITERATIONS = 10000; // Never weaker than the legacy setting
+const MAX_PBKDF2_ITERATIONS = 600000; // OWASP recommendation for PBKDF2-SHA256
+const CALIBRATION_BATCH = 1000;
+const CALIBRATION_MIN_MS = 500;
+
+// Floor for scrypt descriptors; anything below is treated as weak
+const MIN_SCRYPT_COST = 2 ** 14;
+// Ceilings for descriptors read from outside the app, e.g. a backup file: more than this
+// would freeze the JS thread (or exhaust memory) before the passphrase could even be checked
+const MAX_SCRYPT_COST = 2 ** 17;
+const MAX_SCRYPT_BLOCK_SIZE = 16;
+const MAX_SCRYPT_PARALLELIZATION = 4;
+
+const HASHERS = {
+  sha1: CryptoJS.algo.SHA1,
+  sha256: CryptoJS.algo.SHA256,
+  sha512: CryptoJS.algo.SHA512,
+};
+
+const wordArrayToBytes = (wordArray: CryptoJS.lib.WordArray): Uint8Array => {
+  const bytes = new Uint8Array(wordArray.sigBytes);
+  for (let i = 0; i < wordArray.sigBytes; i++) {
+    bytes[i] = (wordArray.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+  }
+  return bytes;
+};
+
+/**
+ * Derives a 256-bit key from a passphrase as described by a KDF descriptor.
+ * @param passphrase The password or phrase.
+ * @param kdf The descriptor, including the salt.
+ * @returns A CryptoJS WordArray holding the derived key.
+ */
+export const deriveKeyWithDescriptor = (passphrase: string, kdf: KdfDescriptor): CryptoJS.lib.WordArray => {
+  const salt = CryptoJS.enc.Base64.parse(kdf.salt);
+
+  if (kdf.algorithm === 'scrypt') {
+    if (!kdf.cost || !kdf.blockSize || !kdf.parallelization) {
+      throw new Error('Incomplete scrypt parameters.');
+    }
+    const derived = syncScrypt(
+      wordArrayToBytes(CryptoJS.enc.Utf8.parse(passphrase)),
+      wordArrayToBytes(salt),
+      kdf.cost,
+      kdf.blockSize,
+      kdf.parallelization,
+      KEY_SIZE_BYTES
+    );
+    return CryptoJS.lib.WordArray.create(derived);
+  }
+
+  if (kdf.algorithm === 'pbkdf2') {
+    if (!kdf.hash || !HASHERS[kdf.hash] || !kdf.iterations) {
+      throw new Error('Incomplete PBKDF2 parameters.');
+    }
+    return CryptoJS.PBKDF2(passphrase, salt, {
+      keySize: KEY_SIZE_BYTES / 4,
+      iterations: kdf.iterations,
+      hasher: HASHERS[kdf.hash],
+    });
+  }
+
+  throw new Error(`Unsupported key derivation algorithm: ${kdf.algorithm}`);
+};
+
+const isIntegerInRange = (value: unknown, min: number, max: number): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Checks a descriptor from an untrusted source before anything is derived with it: the
+ * algorithm must be supported and its cost within the bounds this app would choose itself.
+ * @param value The parsed descriptor.
+ * @returns True if deriving a key with it is safe.
+ */
+export const isKdfDescriptorAcceptable = (value: unknown): value is KdfDescriptor => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const kdf = value as Record<string, unknown>;
+  if (typeof kdf.salt !== 'string' || kdf.salt.length === 0) {
+    return false;
+  }
+  if (kdf.algorithm === 'pbkdf2') {
+    return (
+      typeof kdf.hash === 'string' &&
+      Object.prototype.hasOwnProperty.call(HASHERS, kdf.hash) &&
+      isIntegerInRange(kdf.iterations, MIN_PBKDF2_ITERATIONS, MAX_PBKDF2_ITERATIONS)
+    );
+  }
+  if (kdf.algorithm === 'scrypt') {
+    return (
+      isIntegerInRange(kdf.cost, MIN_SCRYPT_COST, MAX_SCRYPT_COST) &&
+      ((kdf.cost as number) & ((kdf.cost as number) - 1)) === 0 && // A power of two
+      isIntegerInRange(kdf.blockSize, 1, MAX_SCRYPT_BLOCK_SIZE) &&
+      isIntegerInRange(kdf.parallelization, 1, MAX_SCRYPT_PARALLELIZATION)
+    );
+  }
+  return false;
+};
+
+/**
+ * Measures PBKDF2-SHA256 speed on this device and picks an iteration count that keeps
+ * one derivation close to TARGET_DERIVATION_MS.
+ * @returns The calibrated iteration count, clamped to the supported range.
+ */
+const calibratePbkdf2Iterations = (): number => {
+  const salt = CryptoJS.lib.WordArray.random(16);
+  const runBatch = () =>
+    CryptoJS.PBKDF2('calibration', salt, { keySize: 1, iterations: CALIBRATION_BATCH, hasher: CryptoJS.algo.SHA256 });
+  runBatch(); // Warm-up, so JIT compilation doesn't skew the measurement
+
+  let iterations = 0;
+  const start = Date.now();
+  while (Date.now() - start < CALIBRATION_MIN_MS) {
+    runBatch();
+    iterations += CALIBRATION_BATCH;
+  }
+  const msPerIteration = (Date.now() - start) / iterations;
+  const target = Math.round(TARGET_DERIVATION_MS / msPerIteration / 1000) * 1000;
+  return Math.min(MAX_PBKDF2_ITERATIONS, Math.max(MIN_PBKDF2_ITERATIONS, target));
+};
+
+/**
+ * Returns the key derivation parameters currently recommended for this device.
+ * Calibration runs once and is cached, so the recommendation is stable across launches.
+ * @returns PBKDF2-SHA256 parameters with a device-calibrated iteration count.
+ */
+export const getRecommendedKdfParams = async (): Promise<KdfParams> => {
+  let iterations: number | null = null;
+  try {
+    const cached = await SecureStore.getItemAsync(CALIBRATION_KEY);
+    iterations = cached ? JSON.parse(cached).iterations : null;
+  } catch (error) {
+    console.warn('WARN: Failed to read KDF calibration, recalibrating.', error);
+  }
+
+  if (!iterations) {
+    iterations = calibratePbkdf2Iterations();
+    console.log(`LOG: Calibrated PBKDF2-SHA256 to ${iterations} iterations.`);
+    try {
+      await SecureStore.setItemAsync(CALIBRATION_KEY, JSON.stringify({ iterations, calibratedAt: Date.now() }));
+    } catch (error) {
+      console.warn('WARN: Failed to cache KDF calibration.', error);
+    }
+  }
+
+  return { algorithm: 'pbkdf2', hash: 'sha256', iterations };
+};
+
+/**
+ * Checks whether a descriptor is weaker than the current recommendation and should be upgraded.
+ * @param kdf The stored descriptor.
+ * @param recommended The parameters from getRecommendedKdfParams.
+ * @returns True if the key should be re-derived with the recommended parameters.
+ */
+export const isKdfWeak = (kdf: KdfDescriptor, recommended: KdfParams): boolean => {
+  if (kdf.algorithm === 'scrypt') {
+    return (kdf.cost ?? 0) < MIN_SCRYPT_COST;
+  }
+  if (kdf.hash === 'sha1') {
+    return true;
+  }
+  return (kdf.iterations ?? 0) < (recommended.iterations ?? MIN_PBKDF2_ITERATIONS);
+};
+
+/**
+ * Removes the KDF calibration cache, e.g. when all app data is wiped.
+ */
+export const clearKdfCalibration = async () => {
+  await SecureStore.deleteItemAsync(CALIBRATION_KEY);
+};
@@ -0,0 +1,116 @@
+// src/utils/lockout.ts
+import * as SecureStore from 'expo-secure-store';
+import { getActiveVaultId, getVaultStoreKey } from './vaultRegistry';
+
+const FAILED_ATTEMPTS_KEY = 'failed_attempts'; // Per vault; persisted so restarting the app doesn't reset it
+const FREE_ATTEMPTS = 3; // Attempts allowed before any delay kicks in
+const BASE_DELAY_MS = 30 * 1000; // Delay after the first attempt over the free allowance
+const MAX_DELAY_MS = 60 * 60 * 1000; // Delays stop doubling at one hour
+
+interface FailedAttemptsRecord {
+  count: number;
+  lastFailureAt: number;
+}
+
+// When this process last counted a failure, on the monotonic clock. The wall clock can be
+// set forward to skip a delay; while the app keeps running, this one can't.
+let lastFailureMonotonic: { vaultId: string; at: number } | null = null;
+
+export interface LockoutState {
+  failedAttempts: number;
+  lockedUntil: number | null; // Timestamp before which no unlock may be attempted
+}
+
+/**
+ * Raised when an unlock is attempted while the back-off delay is still running.
+ */
+export class LockoutError extends Error {
+  lockedUntil: number;
+
+  constructor(lockedUntil: number) {
+    super('Too many failed attempts. Try again later.');
+    this.name = 'LockoutError';
+    this.lockedUntil = lockedUntil;
+  }
+}
+
+/**
+ * Back-off delay after a number of consecutive failures: none for the first few,
+ * then doubling from BASE_DELAY_MS up to MAX_DELAY_MS.
+ */
+const delayForAttempts = (count: number): number => {
+  if (count < FREE_ATTEMPTS) {
+    return 0;
+  }
+  return Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (count - FREE_ATTEMPTS));
+};
+
+const writeRecord = async (record: FailedAttemptsRecord) => {
+  await SecureStore.setItemAsync(getVaultStoreKey(FAILED_ATTEMPTS_KEY), JSON.stringify(record));
+};
+
+const readRecord = async (): Promise<FailedAttemptsRecord> => {
+  const raw = await SecureStore.getItemAsync(getVaultStoreKey(FAILED_ATTEMPTS_KEY));
+  const record: FailedAttemptsRecord = raw ? JSON.parse(raw) : { count: 0, lastFailureAt: 0 };
+  if (record.lastFailureAt > Date.now()) {
+    // The clock was set back since the failure: the delay starts over rather than running out early
+    console.warn('WARN: Last failed attempt is in the future; restarting the back-off delay.');
+    const restarted = { ...record, lastFailureAt: Date.now() };
+    await writeRecord(restarted);
+    return restarted;
+  }
+  return record;
+};
+
+const toState = (record: FailedAttemptsRecord): LockoutState => {
+  const delay = delayForAttempts(record.count);
+  const now = Date.now();
+  let elapsed = now - record.lastFailureAt;
+  if (lastFailureMonotonic?.vaultId === getActiveVaultId()) {
+    elapsed = Math.min(elapsed, performance.now() - lastFailureMonotonic.at);
+  }
+  return {
+    failedAttempts: record.count,
+    lockedUntil: delay > 0 && elapsed < delay ? now + (delay - elapsed) : null,
+  };
+};
+
+/**
+ * Reads the persisted failed-attempt counter.
+ * @returns The number of consecutive failures and when the current delay ends, if any.
+ */
+export const getLockoutState = async (): Promise<LockoutState> => {
+  return toState(await readRecord());
+};
+
+/**
+ * Counts an unlock attempt as failed. Called *before* the password is checked, so killing
+ * the app mid-attempt still uses up an attempt; resetFailedAttempts undoes it on success.
+ * @returns The updated lockout state.
+ */
+export const recordFailedAttempt = async (): Promise<LockoutState> => {
+  const record = await readRecord();
+  const updated: FailedAttemptsRecord = { count: record.count + 1, lastFailureAt: Date.now() };
+  await writeRecord(updated);
+  lastFailureMonotonic = { vaultId: getActiveVaultId(), at: performance.now() };
+  return toState(updated);
+};
+
+/**
+ * Clears the counter. Only to be called after a successful unlock.
+ */
+export const resetFailedAttempts = async () => {
+  await SecureStore.deleteItemAsync(getVaultStoreKey(FAILED_ATTEMPTS_KEY));
+  lastFailureMonotonic = null;
+};
+
+/**
+ * Throws if the back-off delay from earlier failures has not yet passed.
+ * @throws LockoutError while locked out.
+ */
+export const assertNotLockedOut = async () => {
+  const { lockedUntil } = await getLockoutState();
+  if (lockedUntil !== null) {
+    throw new LockoutError(lockedUntil);
+  }
+};
@@ -0,0 +1,312 @@
+// src/utils/markdown.ts
+// A small Markdown parser for note previews. It runs entirely on-device and only
+// produces a tree for MarkdownView; nothing here fetches links or images.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'bold' | 'italic' | 'strike'; children: InlineNode[] }
+  | { type: 'link'; url: string; children: InlineNode[] }
+  | { type: 'image'; url: string; alt: string };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'listItem'; ordered: boolean; number: number; depth: number; checked?: boolean; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'rule' };
+
+export type MarkdownFormat =
+  | 'heading'
+  | 'bold'
+  | 'italic'
+  | 'strike'
+  | 'code'
+  | 'bulletList'
+  | 'numberedList'
+  | 'quote'
+  | 'link';
+
+export interface TextSelection {
+  start: number;
+  end: number;
+}
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|(\d+)[.)])\s+(.*)$/;
+const TASK_BOX_PATTERN = /^\[( |x|X)\]\s+(.*)$/; // "[ ] " or "[x] " opening a list item
+const LIST_INDENT = 2; // Spaces per nesting level
+
+// Tried in order at each position; earlier rules win, so code spans keep their contents literal
+const INLINE_RULES: { pattern: RegExp; build: (match: RegExpExecArray) => InlineNode }[] = [
+  { pattern: /`([^`]+)`/y, build: match => ({ type: 'code', text: match[1] }) },
+  { pattern: /!\[([^\]]*)\]\(([^)\s]+)\)/y, build: match => ({ type: 'image', alt: match[1], url: match[2] }) },
+  {
+    pattern: /\[([^\]]+)\]\(([^)\s]+)\)/y,
+    build: match => ({ type: 'link', url: match[2], children: parseInline(match[1]) }),
+  },
+  { pattern: /(\*\*|__)(\S(?:.*?\S)?)\1/y, build: match => ({ type: 'bold', children: parseInline(match[2]) }) },
+  { pattern: /~~(\S(?:.*?\S)?)~~/y, build: match => ({ type: 'strike', children: parseInline(match[1]) }) },
+  { pattern: /(\*|_)(\S(?:.*?\S)?)\1/y, build: match => ({ type: 'italic', children: parseInline(match[2]) }) },
+];
+
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+/**
+ * Parses emphasis, code spans, links and images in a line of text.
+ * @param text The text of a block.
+ * @returns The inline nodes, in order.
+ */
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let plain = '';
+  let position = 0;
+
+  while (position < text.length) {
+    const char = text[position];
+    let matched = false;
+    // Underscores inside words (snake_case) are not emphasis
+    const intraword = char === '_' && position > 0 && WORD_CHARACTER.test(text[position - 1]);
+    if ('`![*_~'.includes(char) && !intraword) {
+      for (const rule of INLINE_RULES) {
+        rule.pattern.lastIndex = position;
+        const match = rule.pattern.exec(text);
+        if (match) {
+          if (plain) {
+            nodes.push({ type: 'text', text: plain });
+            plain = '';
+          }
+          nodes.push(rule.build(match));
+          position += match[0].length;
+          matched = true;
+          break;
+        }
+      }
+    }
+    if (!matched) {
+      plain += char;
+      position++;
+    }
+  }
+
+  if (plain) {
+    nodes.push({ type: 'text', text: plain });
+  }
+  return nodes;
+};
+
+/**
+ * Splits Markdown text into blocks. Line breaks inside a paragraph are kept, as notes
+ * are usually written line by line.
+ * @param text The Markdown text.
+ * @returns The blocks, in order.
+ */
+export const parseMarkdown = (text: string): MarkdownBlock[] => {
+  const lines = text.split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      flushParagraph();
+      const codeLines: string[] = [];
+      index++;
+      // An unclosed fence runs to the end of the note
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+        codeLines.push(lines[index]);
+        index++;
+      }
+      blocks.push({ type: 'code', text: codeLines.join('\n') });
+      index++;
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+      index++;
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      index++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      flushParagraph();
+      const quoteLines: string[] = [];
+      let quote: RegExpExecArray | null;
+      while (index < lines.length && (quote = QUOTE_PATTERN.exec(lines[index]))) {
+        quoteLines.push(quote[1]);
+        index++;
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoteLines.join('\n')) });
+      continue;
+    }
+
+    const listItem = LIST_ITEM_PATTERN.exec(line);
+    if (listItem) {
+      flushParagraph();
+      const taskBox = TASK_BOX_PATTERN.exec(listItem[4]);
+      blocks.push({
+        type: 'listItem',
+        ordered: listItem[3] !== undefined,
+        number: listItem[3] !== undefined ? parseInt(listItem[3], 10) : 0,
+        depth: Math.floor(listItem[1].replace(/\t/g, '  ').length / LIST_INDENT),
+        checked: taskBox ? taskBox[1] !== ' ' : undefined,
+        text: taskBox ? taskBox[2] : listItem[4],
+      });
+      index++;
+      continue;
+    }
+
+    paragraph.push(line);
+    index++;
+  }
+
+  flushParagraph();
+  return blocks;
+};
+
+const inlineToPlainText = (nodes: InlineNode[]): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'image':
+          return node.alt;
+        default:
+          return inlineToPlainText(node.children);
+      }
+    })
+    .join('');
+
+const blocksToPlainLines = (blocks: MarkdownBlock[]): string[] =>
+  blocks.flatMap(block => {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+      case 'listItem':
+        return block.text.split('\n').map(line => inlineToPlainText(parseInline(line)));
+      case 'code':
+        return block.text.split('\n');
+      case 'quote':
+        return blocksToPlainLines(block.children);
+      case 'rule':
+        return [];
+    }
+  });
+
+/**
+ * Removes Markdown markup, keeping the text a reader would see.
+ * @param text The Markdown text.
+ * @returns The plain text, one line per line of rendered text.
+ */
+export const stripMarkdown = (text: string): string => blocksToPlainLines(parseMarkdown(text)).join('\n');
+
+const LINE_PREFIXES: Partial<Record<MarkdownFormat, { pattern: RegExp; prefix: (lineNumber: number) => string }>> = {
+  heading: { pattern: /^#{1,6}\s+/, prefix: () => '# ' },
+  bulletList: { pattern: /^\s*[-*+]\s+/, prefix: () => '- ' },
+  numberedList: { pattern: /^\s*\d+[.)]\s+/, prefix: lineNumber => `${lineNumber}. ` },
+  quote: { pattern: /^\s*>\s?/, prefix: () => '> ' },
+};
+
+const WRAP_MARKERS: Partial<Record<MarkdownFormat, string>> = {
+  bold: '**',
+  italic: '_',
+  strike: '~~',
+  code: '`',
+};
+
+const LINK_URL_PLACEHOLDER = 'https://';
+
+/**
+ * Applies a toolbar format to the selected text. Line formats (headings, lists, quotes)
+ * apply to every selected line and are removed again if all of them already have it.
+ * @param text The note text.
+ * @param selection The current selection; start and end are equal for a plain cursor.
+ * @param format The format to apply.
+ * @returns The new text and where the selection should go.
+ */
+export const applyMarkdownFormat = (
+  text: string,
+  selection: TextSelection,
+  format: MarkdownFormat
+): { text: string; selection: TextSelection } => {
+  const { start, end } = selection;
+  const selected = text.substring(start, end);
+  const before = text.substring(0, start);
+  const after = text.substring(end);
+
+  const linePrefix = LINE_PREFIXES[format];
+  if (linePrefix) {
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const nextBreak = text.indexOf('\n', end);
+    const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+    const lines = text.substring(lineStart, lineEnd).split('\n');
+    const removing = lines.every(line => linePrefix.pattern.test(line));
+    const updated = lines
+      .map((line, index) =>
+        removing ? line.replace(linePrefix.pattern, '') : `${linePrefix.prefix(index + 1)}${line.replace(linePrefix.pattern, '')}`
+      )
+      .join('\n');
+    const newText = `${text.substring(0, lineStart)}${updated}${text.substring(lineEnd)}`;
+    // With a plain cursor, keep it at the end of its line; otherwise select the changed lines
+    return {
+      text: newText,
+      selection: start === end
+        ? { start: lineStart + updated.length, end: lineStart + updated.length }
+        : { start: lineStart, end: lineStart + updated.length },
+    };
+  }
+
+  if (format === 'link') {
+    const label = selected || 'link';
+    const newText = `${before}[${label}](${LINK_URL_PLACEHOLDER})${after}`;
+    const urlStart = start + label.length + 3;
+    return { text: newText, selection: { start: urlStart, end: urlStart + LINK_URL_PLACEHOLDER.length } };
+  }
+
+  // Code spanning lines becomes a fenced block
+  if (format === 'code' && selected.includes('\n')) {
+    const fenced = `\`\`\`\n${selected}\n\`\`\``;
+    const needsBreakBefore = before !== '' && !before.endsWith('\n');
+    const newText = `${before}${needsBreakBefore ? '\n' : ''}${fenced}${after}`;
+    const fencedStart = start + (needsBreakBefore ? 1 : 0);
+    return { text: newText, selection: { start: fencedStart, end: fencedStart + fenced.length } };
+  }
+
+  const marker = WRAP_MARKERS[format] ?? '';
+  const newText = `${before}${marker}${selected}${marker}${after}`;
+  return {
+    text: newText,
+    selection: { start: start + marker.length, end: end + marker.length },
+  };
+};
@@ -0,0 +1,129 @@
+// src/utils/migrations.ts
+import CryptoJS from 'crypto-js';
+import * as SecureStore from 'expo-secure-store';
+import { migrateLegacyNoteList, upgradeFileFormats } from './noteStorage';
+import { getVaultStoreKey } from './vaultRegistry';
+
+// The version of the vault's on-disk layout: note files, the index and the SecureStore keys.
+// Vaults from before it was stored are version 1. Moving a legacy vault onto a wrapped vault
+// key is not a step here: it needs the password, so unlockVault does it while unlocking.
+export const CURRENT_SCHEMA_VERSION = 3;
+const SCHEMA_VERSION_KEY = 'schema_version'; // Per vault; readable before unlock, to refuse newer vaults
+
+// One step of upgrading a vault, run after unlock. The schema version is only raised once a
+// step has finished, so an interrupted step runs again from the start: every step must be
+// idempotent.
+export interface Migration {
+  version: number; // The schema version the vault is at once this step has run
+  description: string; // Shown on the Login screen while it runs
+  run: (vaultKey: CryptoJS.lib.WordArray, onProgress: (done: number, total: number) => void) => Promise<void>;
+}
+
+// In order of version. Add new steps at the end and raise CURRENT_SCHEMA_VERSION with them.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Encrypting the note list',
+    run: vaultKey => migrateLegacyNoteList(vaultKey),
+  },
+  {
+    version: 3,
+    description: 'Upgrading note and attachment files',
+    run: async (vaultKey, onProgress) => {
+      await upgradeFileFormats(vaultKey, onProgress);
+    },
+  },
+];
+
+/**
+ * Raised when the vault was written by a newer version of the app. Nothing may read or
+ * change it: this version can't tell what it would break.
+ */
+export class UnsupportedSchemaError extends Error {
+  schemaVersion: number;
+
+  constructor(schemaVersion: number) {
+    super(`The vault uses storage version ${schemaVersion}; this app only supports up to ${CURRENT_SCHEMA_VERSION}.`);
+    this.name = 'UnsupportedSchemaError';
+    this.schemaVersion = schemaVersion;
+  }
+}
+
+/**
+ * Reads the vault's schema version.
+ * @returns The stored version, or 1 for vaults from before it was stored.
+ */
+export const getSchemaVersion = async (): Promise<number> => {
+  const raw = await SecureStore.getItemAsync(getVaultStoreKey(SCHEMA_VERSION_KEY));
+  if (raw === null) {
+    return 1;
+  }
+  const version = Number(raw);
+  if (!Number.isInteger(version) || version < 1) {
+    // Unreadable is treated like newer: guessing low could run migrations over a layout they don't know
+    console.error(`ERROR: Invalid schema version "${raw}".`);
+    return Number.MAX_SAFE_INTEGER;
+  }
+  return version;
+};
+
+/**
+ * Records the vault's schema version.
+ * @param version The version the vault is now at.
+ */
+const setSchemaVersion = async (version: number) => {
+  await SecureStore.setItemAsync(getVaultStoreKey(SCHEMA_VERSION_KEY), String(version));
+};
+
+/**
+ * Marks a newly created vault as being at the current schema version, so no migrations run for it.
+ */
+export const markSchemaVersionCurrent = () => setSchemaVersion(CURRENT_SCHEMA_VERSION);
+
+/**
+ * Refuses vaults written by a newer version of the app. Must run before anything reads or
+ * changes the vault, including the recovery of interrupted writes.
+ * @throws UnsupportedSchemaError if the vault's schema version is newer than this app's.
+ */
+export const assertSchemaVersionSupported = async () => {
+  const version = await getSchemaVersion();
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new UnsupportedSchemaError(version);
+  }
+};
+
+/**
+ * Lists the migrations the vault still needs.
+ * @returns The pending steps, in the order they must run.
+ */
+export const getPendingMigrations = async (): Promise<Migration[]> => {
+  const version = await getSchemaVersion();
+  return MIGRATIONS.filter(migration => migration.version > version);
+};
+
+/**
+ * Brings an unlocked vault up to the current schema version, one step at a time.
+ * Safe to call on every unlock: it does nothing when the vault is up to date.
+ * @param vaultKey The unlocked vault key.
+ * @param onProgress Optional callback reporting the running step and its progress.
+ * @returns How many steps ran.
+ * @throws UnsupportedSchemaError if the vault is newer than this app; any error of a failed
+ * step, in which case the vault stays at the last completed step and the step runs again next time.
+ */
+export const runMigrations = async (
+  vaultKey: CryptoJS.lib.WordArray,
+  onProgress?: (migration: Migration, done: number, total: number) => void
+): Promise<number> => {
+  await assertSchemaVersionSupported();
+  const pending = await getPendingMigrations();
+  for (const migration of pending) {
+    console.log(`LOG: Running migration to schema version ${migration.version}: ${migration.description}.`);
+    onProgress?.(migration, 0, 0);
+    await migration.run(vaultKey, (done, total) => onProgress?.(migration, done, total));
+    await setSchemaVersion(migration.version);
+  }
+  if (pending.length > 0) {
+    console.log(`LOG: Vault migrated to schema version ${CURRENT_SCHEMA_VERSION}.`);
+  }
+  return pending.length;
+};
@@ -1,77 +1,1146 @@
 // src/utils/noteStorage.ts
 import * as FileSystem from 'expo-file-system';
-import { encryptData, decryptData } from './crypto';
+import { File as HandleFile, FileHandle } from 'expo-file-system/next';
+import {
+  encryptData,
+  decryptData,
+  isLegacyCiphertext,
+  createSegmentCipher,
+  isChunkedCiphertext,
+  CHUNKED_HEADER_SIZE,
+  DecryptionError,
+  DecryptionErrorCode,
+} from './crypto';
+import {
+  clearSearchIndex,
+  getSearchIndexEpoch,
+  isSearchIndexReady,
+  removeSearchDocument,
+  setSearchDocuments,
+  updateSearchDocument,
+} from './search';
+import { getSettings } from './settings';
+import { stripMarkdown } from './markdown';
+import { getChecklistProgress, ChecklistProgress } from './checklist';
+import { getVaultNotesDir } from './vaultRegistry';
 import CryptoJS from 'crypto-js'; // For type inference of encryptionKey
 import 'react-native-get-random-values'; // Ensure this is imported once globally in App.tsx
 
+// Checklist notes keep their items as a Markdown task list in the content (see checklist.ts)
+export type NoteType = 'text' | 'checklist';
+
 // Define the structure for a Note
 export interface Note {
   id: string; // Unique identifier for the note (e.g., a timestamp)
   content: string; // The plaintext content of the note
   timestamp: number; // Last modified timestamp for sorting
+  tags?: string[]; // Left undefined to keep the note's current tags
+  notebookId?: string | null; // Left undefined to keep the note's current notebook; null for none
+  type?: NoteType; // Left undefined to keep the note's current type
+}
+
+// A named group of notes. Notes refer to it by ID, so renaming never touches them.
+export interface Notebook {
+  id: string;
+  name: string;
+  createdAt: number;
 }
 
-// Define the structure for a Note stored in the file system
+// Define the structure of a note's entry in the encrypted note index
 export interface StoredNoteMetadata {
   id: string;
+  timestamp: number; // Last modified
+  createdAt: number;
+  title: string; // First non-empty line of the note
+  preview: string; // Snippet of the text after the title
+  size: number; // Plaintext size in bytes
+  tags: string[];
+  notebookId: string | null;
+  type?: NoteType; // Absent in entries written before checklists existed, meaning 'text'
+  checklist?: ChecklistProgress; // Only set for checklist notes
+  attachments?: NoteAttachment[]; // Absent when the note has none
+}
+
+// A file attached to a note. Its contents are a separate encrypted blob; the name and
+// type only ever appear here, inside the encrypted index.
+export interface NoteAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes of the original file
+  addedAt: number;
+}
+
+// A saved earlier version of a note. The ID is the time that version was saved,
+// so listing and pruning revisions never needs the key.
+export interface NoteRevision {
+  id: string;
+  timestamp: number;
+}
+
+// A note in the trash. Its file is kept, still encrypted, until it is restored or purged.
+export interface TrashedNote extends StoredNoteMetadata {
+  deletedAt: number;
+}
+
+// Shape of a decrypted revision file
+interface RevisionFile {
   timestamp: number;
+  content: string;
+}
+
+// A note file or index entry the vault check found a problem with
+export interface VaultCheckItem {
+  id: string;
+  title: string;
+  inTrash: boolean;
+}
+
+export interface VaultCheckReport {
+  checkedAt: number;
+  verifiedNotes: number; // Note files that decrypted and passed their integrity check
+  indexRecovered: boolean; // The index itself was unreadable and had to be recovered
+  orphanedFiles: VaultCheckItem[]; // Readable note files that have no index entry
+  danglingEntries: VaultCheckItem[]; // Index entries whose note file is missing
+  undecryptableNotes: (VaultCheckItem & { reason: DecryptionErrorCode | 'UNREADABLE' })[];
+}
+
+// How long one benchmarked operation took, and the longest it kept the JS thread busy
+export interface BenchmarkTiming {
+  ms: number;
+  longestStallMs: number;
+}
+
+export interface EncryptionBenchmarkResult {
+  size: number; // Characters of sample text
+  envelopeWrite: BenchmarkTiming; // encryptData, then writing the file
+  envelopeRead: BenchmarkTiming;
+  chunkedWrite: BenchmarkTiming; // The chunked format, segment by segment
+  chunkedRead: BenchmarkTiming;
+}
+
+// Shape of the decrypted index file
+interface NoteIndexFile {
+  version: 1;
+  notes: StoredNoteMetadata[];
+  notebooks?: Notebook[]; // Absent in indexes written before notebooks existed
+  trash?: TrashedNote[]; // Absent in indexes written before the trash existed
+}
+
+// Directory where the active vault's notes are stored. Every path below is a function of it,
+// so switching vaults needs nothing here beyond dropping the caches.
+const notesDir = () => getVaultNotesDir();
+const INDEX_FILE_NAME = 'index.encrypted';
+const indexFile = () => `${notesDir()}${INDEX_FILE_NAME}`; // Encrypted index with titles, previews and timestamps
+const indexBackupFile = () => `${indexFile()}.bak`; // The index as it was before the last write
+const TEMP_FILE_SUFFIX = '.tmp'; // Files are written under this suffix, then renamed into place
+// Notes and revisions longer than this many characters are written in the chunked format, so
+// saving or opening them never blocks the UI for long (see benchmarkEncryption)
+const CHUNKED_TEXT_THRESHOLD = 64 * 1024;
+// How much plaintext the chunked writer takes in at a time; the segment size is set in crypto.ts
+const TEXT_PIECE_LENGTH = 16 * 1024; // Characters
+const BASE64_PIECE_LENGTH = 64 * 1024; // Characters, a multiple of 4
+const FILE_PIECE_LENGTH = 48 * 1024; // Bytes
+const BENCHMARK_SIZES = [16 * 1024, 256 * 1024, 1024 * 1024, 4 * 1024 * 1024]; // Characters
+const BENCHMARK_TICK_MS = 10;
+const NOTE_FILE_SUFFIX = '.encrypted';
+const legacyMetadataFile = () => `${notesDir()}metadata.json`; // Plaintext id/timestamp list of older versions, migrated into the index
+
+// Earlier versions of each note, one subdirectory of encrypted snapshots per note ID
+const revisionsDir = () => `${notesDir()}revisions/`;
+const REVISION_COALESCE_MS = 5 * 60 * 1000; // Saves this close to the last revision don't make a new one...
+const REVISION_MAJOR_CHANGE_RATIO = 0.5; // ...unless they remove at least half of the text
+
+// Attached files, one subdirectory of encrypted blobs per note ID. Like revisions, they
+// stay here while the note is in the trash.
+const attachmentsDir = () => `${notesDir()}attachments/`;
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024; // Previews decrypt an attachment into memory whole; exports stream it
+
+// Files of trashed notes, moved out of notesDir() so nothing that lists live notes sees them
+const trashDir = () => `${notesDir()}trash/`;
+// Note files that no longer decrypt, set aside by the vault check rather than deleted
+const quarantineDir = () => `${notesDir()}quarantine/`;
+
+const TITLE_MAX_LENGTH = 80;
+const PREVIEW_MAX_LENGTH = 120;
+
+// Working area used while re-encrypting the vault under a new key.
+// Kept inside notesDir() so moves between it and the notes stay on one volume.
+const rekeyDir = () => `${notesDir()}.rekey/`;
+const rekeyStagedDir = () => `${rekeyDir()}staged/`; // Notes re-encrypted under the new key
+const rekeyOldDir = () => `${rekeyDir()}old/`; // Original notes, moved aside during the swap
+const rekeyJournalFile = () => `${rekeyDir()}journal.json`; // Written once every note is staged
+
+// Contents of the re-key journal. Its presence means the new key must win.
+interface RekeyJournal {
+  fileNames: string[]; // Files in notesDir() that were staged: every note plus the index
+  payload: string; // Opaque data the caller needs to finish switching keys
 }
 
-// Directory where notes will be stored
-const NOTES_DIR = `${FileSystem.documentDirectory}notes/`;
-const METADATA_FILE = `${NOTES_DIR}metadata.json`; // File to store note metadata (id and timestamp)
+export interface ReencryptOptions {
+  journalPayload: string; // Stored in the journal and handed back to the recovery callback
+  commit: () => Promise<void>; // Makes the new key the active one
+  rollBack?: () => Promise<void>; // Undoes whatever a failed commit() had already stored; must be idempotent
+  onProgress?: (done: number, total: number) => void;
+}
 
 /**
  * Ensures the notes directory exists.
  */
 const ensureDirExists = async () => {
-  const dirInfo = await FileSystem.getInfoAsync(NOTES_DIR);
+  const dirInfo = await FileSystem.getInfoAsync(notesDir());
   if (!dirInfo.isDirectory) {
-    await FileSystem.makeDirectoryAsync(NOTES_DIR, { intermediates: true });
+    await FileSystem.makeDirectoryAsync(notesDir(), { intermediates: true });
+  }
+};
+
+/**
+ * Writes a file so that a crash can never leave it half-written: the contents go to a
+ * temporary file first, which then replaces the original.
+ * @param path The file to write.
+ * @param contents The new contents.
+ * @param backupPath If given, the version being replaced is moved there instead of deleted.
+ * @param encoding Base64 to write the bytes that contents encodes rather than the text itself.
+ */
+const writeFileAtomically = async (
+  path: string,
+  contents: string,
+  backupPath?: string,
+  encoding: FileSystem.EncodingType = FileSystem.EncodingType.UTF8
+) => {
+  await FileSystem.writeAsStringAsync(`${path}${TEMP_FILE_SUFFIX}`, contents, { encoding });
+  await commitTempFile(path, backupPath);
+};
+
+/**
+ * The second half of an atomic write: the fully written temporary file replaces the original.
+ * @param path The file being written; its temporary file must be complete.
+ * @param backupPath If given, the version being replaced is moved there instead of deleted.
+ */
+const commitTempFile = async (path: string, backupPath?: string) => {
+  const tempPath = `${path}${TEMP_FILE_SUFFIX}`;
+  if ((await FileSystem.getInfoAsync(path)).exists) {
+    if (backupPath) {
+      await FileSystem.deleteAsync(backupPath, { idempotent: true });
+      await FileSystem.moveAsync({ from: path, to: backupPath });
+    } else {
+      await FileSystem.deleteAsync(path);
+    }
+  }
+  await FileSystem.moveAsync({ from: tempPath, to: path });
+};
+
+/**
+ * Finishes a writeFileAtomically that was interrupted after the original was removed but
+ * before the temporary file was renamed into place. The temporary file is the newest
+ * version then; should it be truncated after all, it fails its integrity check on decrypt.
+ * @param path The file to check.
+ * @returns Whether the file exists (now).
+ */
+const completeInterruptedWrite = async (path: string): Promise<boolean> => {
+  if ((await FileSystem.getInfoAsync(path)).exists) {
+    return true;
+  }
+  const tempPath = `${path}${TEMP_FILE_SUFFIX}`;
+  if (!(await FileSystem.getInfoAsync(tempPath)).exists) {
+    return false;
+  }
+  await FileSystem.moveAsync({ from: tempPath, to: path });
+  console.warn(`WARN: Completed an interrupted write of ${path}.`);
+  return true;
+};
+
+/**
+ * Lets the UI run between segments of a long encryption or decryption.
+ */
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Returns one byte of a WordArray.
+ */
+const byteAt = (wordArray: CryptoJS.lib.WordArray, index: number): number =>
+  (wordArray.words[index >>> 2] >>> (24 - (index % 4) * 8)) & 0xff;
+
+/**
+ * Splits a WordArray in two at a byte offset. Fast when the offset is a multiple of 4;
+ * otherwise the tail is copied byte by byte, so it should be short.
+ */
+const splitWordArray = (
+  wordArray: CryptoJS.lib.WordArray,
+  at: number
+): [CryptoJS.lib.WordArray, CryptoJS.lib.WordArray] => {
+  wordArray.clamp();
+  const head = CryptoJS.lib.WordArray.create(wordArray.words.slice(0, Math.ceil(at / 4)), at);
+  head.clamp();
+  if (at % 4 === 0) {
+    return [head, CryptoJS.lib.WordArray.create(wordArray.words.slice(at / 4), wordArray.sigBytes - at)];
+  }
+  const tail = CryptoJS.lib.WordArray.create([], 0);
+  for (let i = at; i < wordArray.sigBytes; i++) {
+    tail.concat(CryptoJS.lib.WordArray.create([byteAt(wordArray, i) << 24], 1));
+  }
+  return [head, tail];
+};
+
+/**
+ * Finds where the last complete UTF-8 character of some bytes ends, so a character split
+ * across two segments is decoded once both halves are in.
+ */
+const completeUtf8Length = (bytes: CryptoJS.lib.WordArray): number => {
+  for (let i = bytes.sigBytes - 1; i >= Math.max(0, bytes.sigBytes - 4); i--) {
+    const byte = byteAt(bytes, i);
+    if ((byte & 0xc0) !== 0x80) {
+      const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+      return i + length <= bytes.sigBytes ? bytes.sigBytes : i;
+    }
+  }
+  return bytes.sigBytes; // Not UTF-8 at all; decoding will say so
+};
+
+/**
+ * Reads part of a file as raw bytes.
+ */
+const readFileBytes = async (path: string, position: number, length: number): Promise<CryptoJS.lib.WordArray> =>
+  CryptoJS.enc.Base64.parse(
+    await FileSystem.readAsStringAsync(path, { encoding: FileSystem.EncodingType.Base64, position, length })
+  );
+
+/**
+ * Copies a WordArray into a byte array.
+ */
+const toUint8Array = (wordArray: CryptoJS.lib.WordArray): Uint8Array => {
+  const bytes = new Uint8Array(wordArray.sigBytes);
+  for (let i = 0; i < wordArray.sigBytes; i++) {
+    bytes[i] = byteAt(wordArray, i);
+  }
+  return bytes;
+};
+
+// Writes a file a piece at a time
+interface FileAppender {
+  append: (bytes: CryptoJS.lib.WordArray) => Promise<void>;
+  close: () => Promise<void>; // Must be called for the file to be complete
+}
+
+/**
+ * Creates (or empties) a file to be written a piece at a time. expo-file-system can only
+ * write whole files, so this uses the file handles of expo-file-system/next, and only ever
+ * holds one piece. Expo Go doesn't include those: there the pieces are collected in memory
+ * and written in one go on close.
+ * @param path The file to write.
+ */
+const openFileAppender = (path: string): FileAppender => {
+  let handle: FileHandle | null = null;
+  try {
+    const file = new HandleFile(path);
+    file.create({ overwrite: true });
+    handle = file.open();
+  } catch (error) {
+    console.warn('WARN: File handles are not available, writing the file in one piece:', error);
+  }
+
+  if (handle) {
+    const open = handle;
+    return {
+      append: async bytes => open.writeBytes(toUint8Array(bytes)),
+      close: async () => open.close(),
+    };
+  }
+  const collected = CryptoJS.lib.WordArray.create([], 0);
+  return {
+    append: async bytes => {
+      collected.concat(bytes);
+    },
+    close: async () => {
+      await FileSystem.writeAsStringAsync(path, collected.toString(CryptoJS.enc.Base64), {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+    },
+  };
+};
+
+/**
+ * Yields a string as UTF-8 bytes, a few thousand characters at a time.
+ */
+const textPieces = async function* (text: string): AsyncGenerator<CryptoJS.lib.WordArray> {
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + TEXT_PIECE_LENGTH, text.length);
+    const lastCode = text.charCodeAt(end - 1);
+    if (end < text.length && lastCode >= 0xd800 && lastCode <= 0xdbff) {
+      end--; // Keep surrogate pairs together
+    }
+    yield CryptoJS.enc.Utf8.parse(text.substring(start, end));
+    start = end;
+  }
+};
+
+/**
+ * Yields the bytes encoded by a base64 string, a piece at a time.
+ */
+const base64Pieces = async function* (base64: string): AsyncGenerator<CryptoJS.lib.WordArray> {
+  for (let start = 0; start < base64.length; start += BASE64_PIECE_LENGTH) {
+    yield CryptoJS.enc.Base64.parse(base64.substring(start, start + BASE64_PIECE_LENGTH));
+  }
+};
+
+/**
+ * Yields the bytes of a file, read from disk a piece at a time.
+ */
+const filePieces = async function* (path: string, size: number): AsyncGenerator<CryptoJS.lib.WordArray> {
+  for (let position = 0; position < size; position += FILE_PIECE_LENGTH) {
+    yield await readFileBytes(path, position, Math.min(FILE_PIECE_LENGTH, size - position));
+  }
+};
+
+/**
+ * Encrypts plaintext into a file in the chunked format (see createSegmentCipher), one segment
+ * at a time with the UI getting a turn in between. Each segment is appended to the temporary
+ * file as soon as it is encrypted (see openFileAppender), which then replaces the original.
+ * @param path The file to write.
+ * @param pieces The plaintext, in pieces of any size.
+ * @param encryptionKey The derived encryption key.
+ */
+const writeChunkedFile = async (
+  path: string,
+  pieces: AsyncIterable<CryptoJS.lib.WordArray>,
+  encryptionKey: CryptoJS.lib.WordArray
+) => {
+  const cipher = createSegmentCipher(encryptionKey);
+  const tempPath = `${path}${TEMP_FILE_SUFFIX}`;
+  const output = openFileAppender(tempPath);
+  try {
+    await output.append(cipher.header);
+    let pending = CryptoJS.lib.WordArray.create([], 0);
+    let index = 0;
+    for await (const piece of pieces) {
+      pending.concat(piece);
+      // Whether a segment is the last one is only known once the input ends, so one is held back
+      while (pending.sigBytes > cipher.segmentSize) {
+        const [segment, rest] = splitWordArray(pending, cipher.segmentSize);
+        await output.append(cipher.encryptSegment(segment, index++, false));
+        pending = rest;
+        await yieldToEventLoop();
+      }
+    }
+    await output.append(cipher.encryptSegment(pending, index, true));
+  } catch (error) {
+    // A partial temporary file would be taken for the newest version by completeInterruptedWrite
+    await output.close();
+    await FileSystem.deleteAsync(tempPath, { idempotent: true });
+    throw error;
+  }
+  await output.close();
+  await commitTempFile(path);
+};
+
+/**
+ * Decrypts a file in the chunked format one segment at a time, reading only that segment
+ * from disk and giving the UI a turn in between.
+ * @param path The file to read.
+ * @param fileSize The size of the file in bytes.
+ * @param encryptionKey The derived encryption key.
+ * @param onSegment Receives the plaintext of each segment, in order.
+ * @throws DecryptionError if the file is malformed or a segment fails its integrity check.
+ */
+const readChunkedFile = async (
+  path: string,
+  fileSize: number,
+  encryptionKey: CryptoJS.lib.WordArray,
+  onSegment: (plaintext: CryptoJS.lib.WordArray) => void | Promise<void>
+) => {
+  const cipher = createSegmentCipher(encryptionKey, await readFileBytes(path, 0, CHUNKED_HEADER_SIZE));
+  const segmentCount = Math.ceil((fileSize - CHUNKED_HEADER_SIZE) / cipher.storedSegmentSize);
+  if (segmentCount < 1) {
+    throw new DecryptionError('MALFORMED', 'Chunked data has no segments.');
+  }
+  for (let index = 0; index < segmentCount; index++) {
+    const position = CHUNKED_HEADER_SIZE + index * cipher.storedSegmentSize;
+    const stored = await readFileBytes(path, position, Math.min(cipher.storedSegmentSize, fileSize - position));
+    await onSegment(cipher.decryptSegment(stored, index, index === segmentCount - 1));
+    await yieldToEventLoop();
+  }
+};
+
+/**
+ * Encrypts text into a file: in the chunked format if it is long, otherwise as a single
+ * encryptData envelope, which is too small to hold up the UI and readable by older versions.
+ * @param path The file to write.
+ * @param text The plaintext.
+ * @param encryptionKey The derived encryption key.
+ */
+const writeEncryptedText = async (path: string, text: string, encryptionKey: CryptoJS.lib.WordArray) => {
+  if (text.length > CHUNKED_TEXT_THRESHOLD) {
+    await writeChunkedFile(path, textPieces(text), encryptionKey);
+  } else {
+    await writeFileAtomically(path, encryptData(text, encryptionKey));
   }
 };
 
+/**
+ * Decrypts a file in any of the formats: chunked files are read and decrypted segment by
+ * segment, envelope and legacy "iv:ciphertext" files in one piece. The result is a single
+ * string, so it suits notes; attachments go to a file with decryptAttachmentToFile.
+ * @param path The file to read.
+ * @param encryptionKey The derived encryption key.
+ * @param encoding How chunked plaintext is returned: 'utf8' for text, 'base64' for binary data.
+ * Older blobs hold base64 text in an envelope and are returned as they are.
+ * @returns The plaintext.
+ * @throws DecryptionError if the file fails its integrity check.
+ */
+const readEncryptedFile = async (
+  path: string,
+  encryptionKey: CryptoJS.lib.WordArray,
+  encoding: 'utf8' | 'base64' = 'utf8'
+): Promise<string> => {
+  const info = await FileSystem.getInfoAsync(path);
+  if (!info.exists || info.size < CHUNKED_HEADER_SIZE || !isChunkedCiphertext(await readFileBytes(path, 0, 3))) {
+    return decryptData(await FileSystem.readAsStringAsync(path), encryptionKey);
+  }
+
+  const parts: string[] = [];
+  let carry = CryptoJS.lib.WordArray.create([], 0); // Bytes that can't be encoded until the next segment
+  await readChunkedFile(path, info.size, encryptionKey, plaintext => {
+    const bytes = carry.sigBytes > 0 ? carry.concat(plaintext) : plaintext;
+    const end = encoding === 'utf8' ? completeUtf8Length(bytes) : bytes.sigBytes - (bytes.sigBytes % 3);
+    const [complete, rest] = splitWordArray(bytes, end);
+    try {
+      parts.push(complete.toString(encoding === 'utf8' ? CryptoJS.enc.Utf8 : CryptoJS.enc.Base64));
+    } catch (error) {
+      throw new DecryptionError('MALFORMED', 'Decrypted data is not valid UTF-8.');
+    }
+    carry = rest;
+  });
+  if (carry.sigBytes > 0) {
+    if (encoding === 'utf8') {
+      throw new DecryptionError('MALFORMED', 'Decrypted data ends in the middle of a UTF-8 character.');
+    }
+    parts.push(carry.toString(CryptoJS.enc.Base64));
+  }
+  return parts.join('');
+};
+
+// Tail of the queue that runs index mutations one at a time
+let indexMutationQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs a read-modify-write of the index once every mutation queued before it has finished,
+ * so concurrent saves and deletes can't overwrite each other's changes.
+ * Never call it from inside a queued mutation: that one would wait for itself.
+ * @param mutation Reads the index, changes it and writes it.
+ * @returns The mutation's result.
+ */
+const enqueueIndexMutation = <T>(mutation: () => Promise<T>): Promise<T> => {
+  const result = indexMutationQueue.then(mutation);
+  indexMutationQueue = result.catch(() => undefined); // A failed mutation doesn't hold up the rest
+  return result;
+};
+
+// Decrypted index, kept in memory after the first read so the list never re-reads every note.
+// Tied to the key it was decrypted with; clearNoteIndexCache drops it when the vault locks.
+let indexCache: {
+  key: CryptoJS.lib.WordArray;
+  entries: StoredNoteMetadata[];
+  notebooks: Notebook[];
+  trash: TrashedNote[];
+} | null = null;
+
+/**
+ * Drops the decrypted note index from memory. Call whenever the encryption key is cleared.
+ */
+export const clearNoteIndexCache = () => {
+  indexCache = null;
+};
+
+/**
+ * Trims tags, drops empty ones and removes duplicates that differ only in case.
+ * @param tags Tags as entered.
+ * @returns The cleaned-up tags, in their original order.
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags) {
+    const cleaned = tag.trim().replace(/\s+/g, ' ');
+    if (cleaned && !seen.has(cleaned.toLowerCase())) {
+      seen.add(cleaned.toLowerCase());
+      result.push(cleaned);
+    }
+  }
+  return result;
+};
+
+/**
+ * Builds the index entry for a note from its plaintext.
+ * @param note The note being saved.
+ * @param createdAt When the note was first created.
+ * @param existing The note's current entry, whose tags, notebook and type are kept unless the note sets them,
+ * and whose attachments are always kept.
+ * @returns The index entry.
+ */
+const buildIndexEntry = (note: Note, createdAt: number, existing?: StoredNoteMetadata): StoredNoteMetadata => {
+  // Titles and previews show the text as rendered, without Markdown markup
+  const lines = stripMarkdown(note.content).split('\n').map(line => line.trim()).filter(Boolean);
+  const title = (lines[0] ?? '').substring(0, TITLE_MAX_LENGTH);
+  const rest = lines.slice(1).join(' ');
+  const preview = rest.length > PREVIEW_MAX_LENGTH ? `${rest.substring(0, PREVIEW_MAX_LENGTH)}...` : rest;
+  const type = note.type ?? existing?.type ?? 'text';
+  return {
+    id: note.id,
+    timestamp: note.timestamp,
+    createdAt,
+    title,
+    preview,
+    size: CryptoJS.enc.Utf8.parse(note.content).sigBytes,
+    tags: note.tags !== undefined ? normalizeTags(note.tags) : existing?.tags ?? [],
+    notebookId: note.notebookId !== undefined ? note.notebookId : existing?.notebookId ?? null,
+    type,
+    ...(type === 'checklist' ? { checklist: getChecklistProgress(note.content) } : {}),
+    ...(existing?.attachments?.length ? { attachments: existing.attachments } : {}),
+  };
+};
+
+/**
+ * Encrypts and writes the note index, and refreshes the in-memory copy.
+ * @param entries The note entries.
+ * @param encryptionKey The derived encryption key.
+ * @param notebooks The notebook list; defaults to the one already in memory.
+ * @param trash The trashed notes; defaults to the ones already in memory.
+ */
+const writeIndex = async (
+  entries: StoredNoteMetadata[],
+  encryptionKey: CryptoJS.lib.WordArray,
+  notebooks: Notebook[] = indexCache?.key === encryptionKey ? indexCache.notebooks : [],
+  trash: TrashedNote[] = indexCache?.key === encryptionKey ? indexCache.trash : []
+) => {
+  const payload: NoteIndexFile = { version: 1, notes: entries, notebooks, trash };
+  await writeFileAtomically(indexFile(), encryptData(JSON.stringify(payload), encryptionKey), indexBackupFile());
+  indexCache = { key: encryptionKey, entries, notebooks, trash };
+};
+
+/**
+ * Builds the encrypted index from the plaintext metadata.json of older versions,
+ * decrypting each listed note once to get its title and preview, then deletes metadata.json.
+ */
+const migrateLegacyMetadata = async (encryptionKey: CryptoJS.lib.WordArray): Promise<StoredNoteMetadata[]> => {
+  let legacy: { id: string; timestamp: number }[];
+  try {
+    legacy = JSON.parse(await FileSystem.readAsStringAsync(legacyMetadataFile()));
+  } catch (e) {
+    console.warn('WARN: Legacy metadata file unreadable, rebuilding the index from the note files.', e);
+    const rebuilt = await reconcileIndexWithFiles({ version: 1, notes: [] }, encryptionKey);
+    await writeIndex(rebuilt.notes, encryptionKey, [], []);
+    await FileSystem.deleteAsync(legacyMetadataFile(), { idempotent: true });
+    return rebuilt.notes;
+  }
+
+  const entries: StoredNoteMetadata[] = [];
+  for (const { id, timestamp } of legacy) {
+    const content = await loadNoteContent(id, encryptionKey);
+    if (content !== null) {
+      // Note IDs are creation timestamps
+      entries.push(buildIndexEntry({ id, content, timestamp }, Number(id) || timestamp));
+    }
+  }
+
+  await writeIndex(entries, encryptionKey);
+  await FileSystem.deleteAsync(legacyMetadataFile(), { idempotent: true });
+  console.log(`LOG: Migrated ${entries.length} note(s) from metadata.json to the encrypted index.`);
+  return entries;
+};
+
+/**
+ * Decrypts and parses an index file.
+ * @returns The index, or null if the file is missing or unreadable.
+ */
+const tryReadIndexFile = async (path: string, encryptionKey: CryptoJS.lib.WordArray): Promise<NoteIndexFile | null> => {
+  if (!(await FileSystem.getInfoAsync(path)).exists) {
+    return null;
+  }
+  try {
+    const payload: NoteIndexFile = JSON.parse(decryptData(await FileSystem.readAsStringAsync(path), encryptionKey));
+    if (!Array.isArray(payload.notes)) {
+      throw new Error('The index has no note list.');
+    }
+    return payload;
+  } catch (error) {
+    console.warn(`WARN: Index file ${path} is unreadable:`, error);
+    return null;
+  }
+};
+
+/**
+ * Lists the IDs of the note files in a directory.
+ */
+const listNoteFileIds = async (dir: string): Promise<string[]> => {
+  if (!(await FileSystem.getInfoAsync(dir)).exists) {
+    return [];
+  }
+  return (await FileSystem.readDirectoryAsync(dir))
+    .filter(name => name.endsWith(NOTE_FILE_SUFFIX) && name !== INDEX_FILE_NAME)
+    .map(name => name.slice(0, -NOTE_FILE_SUFFIX.length));
+};
+
+/**
+ * Makes an index agree with the note files on disk: entries whose file is gone are dropped,
+ * entries whose file moved into or out of the trash follow it, and files with no entry get
+ * one by decrypting them. Tags and notebooks of notes that had no entry can't be recovered.
+ * @param payload The index to start from (an empty one rebuilds it from scratch).
+ * @param encryptionKey The derived encryption key.
+ * @returns The reconciled index.
+ * @throws Error if there are note files but not one of them decrypts: that means a wrong key,
+ * and an empty index must not be written over the real one.
+ */
+const reconcileIndexWithFiles = async (
+  payload: NoteIndexFile,
+  encryptionKey: CryptoJS.lib.WordArray
+): Promise<Required<NoteIndexFile>> => {
+  const liveIds = new Set(await listNoteFileIds(notesDir()));
+  const trashIds = new Set(await listNoteFileIds(trashDir()));
+  const now = Date.now();
+  const known = [...payload.notes, ...(payload.trash ?? [])];
+
+  const notes: StoredNoteMetadata[] = [];
+  const trash: TrashedNote[] = [];
+  for (const entry of known) {
+    const { deletedAt, ...metadata } = entry as TrashedNote;
+    if (liveIds.has(entry.id) && !notes.some(note => note.id === entry.id)) {
+      notes.push(metadata);
+    } else if (trashIds.has(entry.id) && !trash.some(note => note.id === entry.id)) {
+      trash.push({ ...metadata, deletedAt: deletedAt ?? now });
+    }
+  }
+
+  let unreadable = 0;
+  const addOrphans = async (dir: string, ids: Set<string>, add: (entry: StoredNoteMetadata) => void) => {
+    for (const id of ids) {
+      if (known.some(entry => entry.id === id)) {
+        continue;
+      }
+      try {
+        const filePath = `${dir}${id}${NOTE_FILE_SUFFIX}`;
+        const content = await readEncryptedFile(filePath, encryptionKey);
+        const info = await FileSystem.getInfoAsync(filePath);
+        // Note IDs are creation timestamps
+        const timestamp = info.exists && info.modificationTime ? info.modificationTime * 1000 : Number(id) || now;
+        add(buildIndexEntry({ id, content, timestamp }, Number(id) || timestamp));
+      } catch (error) {
+        unreadable++;
+        console.warn(`WARN: Note file ${id} can't be decrypted, leaving it out of the index:`, error);
+      }
+    }
+  };
+  await addOrphans(notesDir(), liveIds, entry => notes.push(entry));
+  await addOrphans(trashDir(), trashIds, entry => trash.push({ ...entry, deletedAt: now }));
+
+  if (unreadable > 0 && notes.length === 0 && trash.length === 0) {
+    throw new Error('Could not rebuild the note index: none of the note files could be decrypted.');
+  }
+  return { version: 1, notes, notebooks: payload.notebooks ?? [], trash };
+};
+
+/**
+ * Recovers an index that is missing or can't be decrypted: from the copy kept by the last
+ * write if that one is readable, otherwise from the note files alone. Either way the result
+ * is reconciled with the files on disk, then written back so this only happens once.
+ * @param encryptionKey The derived encryption key.
+ * @returns The recovered index.
+ */
+const recoverIndex = async (encryptionKey: CryptoJS.lib.WordArray): Promise<NoteIndexFile> => {
+  const backup = await tryReadIndexFile(indexBackupFile(), encryptionKey);
+  const payload = await reconcileIndexWithFiles(backup ?? { version: 1, notes: [] }, encryptionKey);
+  const indexExisted = (await FileSystem.getInfoAsync(indexFile())).exists;
+  if (!backup && !indexExisted && payload.notes.length === 0 && payload.trash.length === 0) {
+    return payload; // A new vault with nothing saved yet
+  }
+
+  console.warn(
+    backup
+      ? 'WARN: Note index unreadable, restored the copy from before the last write.'
+      : `WARN: Note index unreadable, rebuilt it from ${payload.notes.length + payload.trash.length} note file(s).`
+  );
+  // The damaged file is dropped rather than becoming the backup, which stays the last good copy
+  await FileSystem.deleteAsync(indexFile(), { idempotent: true });
+  await writeFileAtomically(indexFile(), encryptData(JSON.stringify(payload), encryptionKey));
+  return payload;
+};
+
+/**
+ * Reads the note index, decrypting it only on first use after unlock. A damaged or missing
+ * index is recovered (see recoverIndex), never replaced by an empty one.
+ * @param encryptionKey The derived encryption key.
+ * @returns The index entries, unsorted.
+ */
+const readIndex = async (encryptionKey: CryptoJS.lib.WordArray): Promise<StoredNoteMetadata[]> => {
+  if (indexCache && indexCache.key === encryptionKey) {
+    return indexCache.entries;
+  }
+  await ensureDirExists();
+  await completeInterruptedWrite(indexFile());
+
+  let payload = await tryReadIndexFile(indexFile(), encryptionKey);
+  if (!payload) {
+    const hasIndex =
+      (await FileSystem.getInfoAsync(indexFile())).exists || (await FileSystem.getInfoAsync(indexBackupFile())).exists;
+    if (!hasIndex && (await FileSystem.getInfoAsync(legacyMetadataFile())).exists) {
+      return migrateLegacyMetadata(encryptionKey);
+    }
+    payload = await recoverIndex(encryptionKey);
+  }
+
+  // Entries written before tags and notebooks existed have neither
+  const entries = payload.notes.map(entry => ({ ...entry, tags: entry.tags ?? [], notebookId: entry.notebookId ?? null }));
+  indexCache = { key: encryptionKey, entries, notebooks: payload.notebooks ?? [], trash: payload.trash ?? [] };
+  return entries;
+};
+
+const revisionDir = (noteId: string) => `${revisionsDir()}${noteId}/`;
+
+/**
+ * Lists the saved revisions of a note.
+ * @param noteId The ID of the note.
+ * @returns The revisions, newest first.
+ */
+export const listRevisions = async (noteId: string): Promise<NoteRevision[]> => {
+  const dir = revisionDir(noteId);
+  if (!(await FileSystem.getInfoAsync(dir)).exists) {
+    return [];
+  }
+  const fileNames = await FileSystem.readDirectoryAsync(dir);
+  return fileNames
+    .filter(fileName => fileName.endsWith('.encrypted'))
+    .map(fileName => {
+      const id = fileName.replace('.encrypted', '');
+      return { id, timestamp: Number(id) };
+    })
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Loads the text of one revision.
+ * @param noteId The ID of the note.
+ * @param revisionId The ID of the revision.
+ * @param encryptionKey The derived encryption key.
+ * @returns The note content as it was at that revision.
+ * @throws DecryptionError if the revision file fails its integrity check.
+ */
+export const loadRevision = async (
+  noteId: string,
+  revisionId: string,
+  encryptionKey: CryptoJS.lib.WordArray
+): Promise<string> => {
+  const revision: RevisionFile = JSON.parse(
+    await readEncryptedFile(`${revisionDir(noteId)}${revisionId}.encrypted`, encryptionKey)
+  );
+  return revision.content;
+};
+
+/**
+ * Deletes a note's revisions beyond the configured count and age.
+ */
+const pruneRevisions = async (noteId: string) => {
+  const { revisionRetentionCount, revisionRetentionDays } = await getSettings();
+  const revisions = await listRevisions(noteId);
+  const cutoff = revisionRetentionDays === null ? null : Date.now() - revisionRetentionDays * 24 * 60 * 60 * 1000;
+  for (const [index, revision] of revisions.entries()) {
+    const tooMany = revisionRetentionCount !== null && index >= revisionRetentionCount;
+    const tooOld = cutoff !== null && revision.timestamp < cutoff;
+    if (tooMany || tooOld) {
+      await FileSystem.deleteAsync(`${revisionDir(noteId)}${revision.id}.encrypted`, { idempotent: true });
+    }
+  }
+};
+
+/**
+ * Keeps the version of a note that is about to be overwritten as a revision.
+ * Rapid saves are coalesced: within REVISION_COALESCE_MS of the newest revision nothing
+ * new is kept, unless the save removes most of the text (an accidental wipe, say).
+ * @param noteId The ID of the note.
+ * @param previous The content and save time of the version being replaced.
+ * @param nextContent The content about to be saved.
+ * @param encryptionKey The derived encryption key.
+ * @param force Keep it even if it would be coalesced.
+ */
+const archiveRevision = async (
+  noteId: string,
+  previous: RevisionFile,
+  nextContent: string,
+  encryptionKey: CryptoJS.lib.WordArray,
+  force = false
+) => {
+  if (previous.content === nextContent || !previous.content.trim()) {
+    return;
+  }
+  const [newest] = await listRevisions(noteId);
+  const majorChange = nextContent.length < previous.content.length * REVISION_MAJOR_CHANGE_RATIO;
+  if (!force && newest && Date.now() - newest.timestamp < REVISION_COALESCE_MS && !majorChange) {
+    return;
+  }
+
+  const dir = revisionDir(noteId);
+  if (!(await FileSystem.getInfoAsync(dir)).exists) {
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+  }
+  await writeEncryptedText(`${dir}${previous.timestamp}.encrypted`, JSON.stringify(previous), encryptionKey);
+  await pruneRevisions(noteId);
+};
+
+/**
+ * Restores a revision by saving its text as the note's new content. The current text is
+ * always kept as a revision first, so a restore can itself be undone.
+ * @param noteId The ID of the note.
+ * @param revisionId The ID of the revision to restore.
+ * @param encryptionKey The derived encryption key.
+ * @returns The saved note.
+ */
+export const restoreRevision = (
+  noteId: string,
+  revisionId: string,
+  encryptionKey: CryptoJS.lib.WordArray
+): Promise<Note> =>
+  enqueueIndexMutation(async () => {
+    const content = await loadRevision(noteId, revisionId, encryptionKey);
+    const existing = (await readIndex(encryptionKey)).find(entry => entry.id === noteId);
+    const currentContent = await loadNoteContent(noteId, encryptionKey);
+    if (existing && currentContent !== null) {
+      await archiveRevision(noteId, { timestamp: existing.timestamp, content: currentContent }, content, encryptionKey, true);
+    }
+    const note = await writeNote({ id: noteId, content, timestamp: Date.now() }, encryptionKey);
+    console.log(`LOG: Note ${noteId} restored to revision ${revisionId}.`);
+    return note;
+  });
+
+/**
+ * Deletes every revision of a note.
+ * @param noteId The ID of the note.
+ */
+const deleteRevisions = async (noteId: string) => {
+  await FileSystem.deleteAsync(revisionDir(noteId), { idempotent: true });
+};
+
+const attachmentDir = (noteId: string) => `${attachmentsDir()}${noteId}/`;
+const attachmentPath = (noteId: string, attachmentId: string) =>
+  `${attachmentDir(noteId)}${attachmentId}${NOTE_FILE_SUFFIX}`;
+
+/**
+ * Encrypts a file's contents into a note's attachments, in the chunked format, and records it
+ * in the note's entry. An attachment with the same ID is replaced. Must run inside a queued
+ * index mutation.
+ */
+const writeAttachment = async (
+  noteId: string,
+  attachment: NoteAttachment,
+  pieces: AsyncIterable<CryptoJS.lib.WordArray>,
+  encryptionKey: CryptoJS.lib.WordArray
+) => {
+  const entries = await readIndex(encryptionKey);
+  const entry = entries.find(existing => existing.id === noteId);
+  if (!entry) {
+    throw new Error('Save the note before attaching files to it.');
+  }
+  await FileSystem.makeDirectoryAsync(attachmentDir(noteId), { intermediates: true });
+  await writeChunkedFile(attachmentPath(noteId, attachment.id), pieces, encryptionKey);
+
+  const attachments = [...(entry.attachments ?? []).filter(existing => existing.id !== attachment.id), attachment];
+  await writeIndex(
+    entries.map(existing => (existing.id === noteId ? { ...existing, attachments } : existing)),
+    encryptionKey
+  );
+};
+
+/**
+ * Attaches a file to a note. The file is read and encrypted a segment at a time; the caller
+ * should delete its plaintext copy afterwards.
+ * @param noteId The ID of the note, which must already be saved.
+ * @param file The file to attach, as returned by the document picker.
+ * @param encryptionKey The derived encryption key.
+ * @returns The new attachment.
+ * @throws Error if the note is not saved or the file is too large.
+ */
+export const addAttachment = (
+  noteId: string,
+  file: { uri: string; name: string; mimeType?: string },
+  encryptionKey: CryptoJS.lib.WordArray
+): Promise<NoteAttachment> =>
+  enqueueIndexMutation(async () => {
+    const info = await FileSystem.getInfoAsync(file.uri);
+    if (!info.exists) {
+      throw new Error('The file to attach could not be read.');
+    }
+    const size = info.size;
+    if (size > MAX_ATTACHMENT_BYTES) {
+      throw new Error(`Attachments can be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB.`);
+    }
+
+    // IDs are timestamps, unique within the note
+    const entry = (await readIndex(encryptionKey)).find(existing => existing.id === noteId);
+    const taken = new Set(entry?.attachments?.map(existing => existing.id));
+    let id = Date.now();
+    while (taken.has(String(id))) {
+      id++;
+    }
+    const attachment: NoteAttachment = {
+      id: String(id),
+      name: file.name,
+      mimeType: file.mimeType ?? 'application/octet-stream',
+      size,
+      addedAt: Date.now(),
+    };
+    await writeAttachment(noteId, attachment, filePieces(file.uri, size), encryptionKey);
+    console.log(`LOG: Attached a file to note ${noteId}.`);
+    return attachment;
+  });
+
+/**
+ * Puts an attachment back exactly as it was, e.g. from a backup.
+ * @param noteId The ID of the note, which must already be saved.
+ * @param attachment The attachment's details.
+ * @param base64Data The file contents, base64 encoded.
+ * @param encryptionKey The derived encryption key.
+ */
+export const restoreAttachment = (
+  noteId: string,
+  attachment: NoteAttachment,
+  base64Data: string,
+  encryptionKey: CryptoJS.lib.WordArray
+) => enqueueIndexMutation(() => writeAttachment(noteId, attachment, base64Pieces(base64Data), encryptionKey));
+
+/**
+ * Decrypts an attachment into memory. Nothing is written to disk.
+ * @param noteId The ID of the note it is attached to.
+ * @param attachmentId The ID of the attachment.
+ * @param encryptionKey The derived encryption key.
+ * @returns The file contents, base64 encoded.
+ * @throws DecryptionError if the blob fails its integrity check.
+ */
+export const loadAttachment = async (
+  noteId: string,
+  attachmentId: string,
+  encryptionKey: CryptoJS.lib.WordArray
+): Promise<string> => {
+  const path = attachmentPath(noteId, attachmentId);
+  await completeInterruptedWrite(path);
+  return readEncryptedFile(path, encryptionKey, 'base64');
+};
+
+/**
+ * Decrypts an attachment into a plaintext file a segment at a time, so it never has to fit
+ * in memory, e.g. to hand it to the share sheet. The caller deletes the file afterwards.
+ * @param noteId The ID of the note it is attached to.
+ * @param attachmentId The ID of the attachment.
+ * @param destination The file to write; replaced if it exists.
+ * @param encryptionKey The derived encryption key.
+ * @throws DecryptionError if the blob fails its integrity check; nothing is left at the destination then.
+ */
+export const decryptAttachmentToFile = async (
+  noteId: string,
+  attachmentId: string,
+  destination: string,
+  encryptionKey: CryptoJS.lib.WordArray
+) => {
+  const path = attachmentPath(noteId, attachmentId);
+  await completeInterruptedWrite(path);
+  const info = await FileSystem.getInfoAsync(path);
+  if (!info.exists) {
+    throw new Error('The attachment could not be found.');
+  }
+  if (info.size < CHUNKED_HEADER_SIZE || !isChunkedCiphertext(await readFileBytes(path, 0, 3))) {
+    // From before the chunked format: base64 text in one envelope, small by construction
+    const base64Data = decryptData(await FileSystem.readAsStringAsync(path), encryptionKey);
+    await FileSystem.writeAsStringAsync(destination, base64Data, { encoding: FileSystem.EncodingType.Base64 });
+    return;
+  }
+
+  const output = openFileAppender(destination);
+  try {
+    await readChunkedFile(path, info.size, encryptionKey, plaintext => output.append(plaintext));
+  } catch (error) {
+    await output.close();
+    await FileSystem.deleteAsync(destination, { idempotent: true });
+    throw error;
+  }
+  await output.close();
+};
+
+/**
+ * Deletes an attachment and removes it from its note.
+ * @param noteId The ID of the note it is attached to.
+ * @param attachmentId The ID of the attachment.
+ * @param encryptionKey The derived encryption key.
+ */
+export const removeAttachment = (noteId: string, attachmentId: string, encryptionKey: CryptoJS.lib.WordArray) =>
+  enqueueIndexMutation(async () => {
+    const entries = await readIndex(encryptionKey);
+    await FileSystem.deleteAsync(attachmentPath(noteId, attachmentId), { idempotent: true });
+    const withoutAttachment = (entry: StoredNoteMetadata) => {
+      const attachments = (entry.attachments ?? []).filter(existing => existing.id !== attachmentId);
+      return { ...entry, attachments: attachments.length > 0 ? attachments : undefined };
+    };
+    await writeIndex(
+      entries.map(entry => (entry.id === noteId ? withoutAttachment(entry) : entry)),
+      encryptionKey
+    );
+    console.log(`LOG: Removed an attachment from note ${noteId}.`);
+  });
+
+/**
+ * Deletes every attachment of a note.
+ * @param noteId The ID of the note.
+ */
+const deleteAttachments = async (noteId: string) => {
+  await FileSystem.deleteAsync(attachmentDir(noteId), { idempotent: true });
+};
+
 /**
  * Saves or updates a note.
  * @param note The note object to save.
  * @param encryptionKey The derived encryption key.
+ * @param createdAt Creation time to record if the note is new to the index; defaults to its timestamp.
+ * The version being replaced is kept as a revision, subject to coalescing and retention.
  * @returns The updated note object.
  */
-export const saveNote = async (note: Note, encryptionKey: CryptoJS.lib.WordArray): Promise<Note> => {
+export const saveNote = async (note: Note, encryptionKey: CryptoJS.lib.WordArray, createdAt?: number): Promise<Note> => {
   if (!encryptionKey) {
     throw new Error('Encryption key is not available. Cannot save note.');
   }
+  return enqueueIndexMutation(() => writeNote(note, encryptionKey, createdAt));
+};
 
+/**
+ * The body of saveNote, for use inside a queued index mutation.
+ */
+const writeNote = async (note: Note, encryptionKey: CryptoJS.lib.WordArray, createdAt?: number): Promise<Note> => {
   await ensureDirExists();
 
-  // Encrypt the note content
-  const encryptedContent = encryptData(note.content, encryptionKey);
-  const filePath = `${NOTES_DIR}${note.id}.encrypted`;
+  const filePath = `${notesDir()}${note.id}.encrypted`;
 
-  // Write the encrypted content to a file
-  await FileSystem.writeAsStringAsync(filePath, encryptedContent);
+  const entries = await readIndex(encryptionKey);
+  const existing = entries.find(entry => entry.id === note.id);
 
-  // Update or add metadata
-  let metadata: StoredNoteMetadata[] = [];
-  try {
-    const rawMetadata = await FileSystem.readAsStringAsync(METADATA_FILE);
-    metadata = JSON.parse(rawMetadata);
-  } catch (e) {
-    // File doesn't exist or is corrupted, start fresh
-    console.warn('Metadata file not found or corrupted, initializing new metadata.', e);
-    metadata = [];
+  // Keep the version about to be overwritten. History is a safety net, so failing to
+  // archive never blocks the save itself.
+  if (existing) {
+    try {
+      const previousContent = await loadNoteContent(note.id, encryptionKey);
+      if (previousContent !== null) {
+        await archiveRevision(note.id, { timestamp: existing.timestamp, content: previousContent }, note.content, encryptionKey);
+      }
+    } catch (error) {
+      console.warn(`WARN: Could not keep a revision of note ${note.id}:`, error);
+    }
   }
 
-  const existingIndex = metadata.findIndex(m => m.id === note.id);
-  const newMetadata = { id: note.id, timestamp: note.timestamp };
-
-  if (existingIndex !== -1) {
-    metadata[existingIndex] = newMetadata;
-  } else {
-    metadata.push(newMetadata);
-  }
+  // Write the encrypted content to a file. Always in a current format, which also upgrades
+  // notes that were loaded from legacy "iv:ciphertext" files.
+  await writeEncryptedText(filePath, note.content, encryptionKey);
 
-  await FileSystem.writeAsStringAsync(METADATA_FILE, JSON.stringify(metadata));
+  // Update or add the note's index entry
+  const newEntry = buildIndexEntry(note, existing ? existing.createdAt : createdAt ?? note.timestamp, existing);
+  await writeIndex(
+    existing ? entries.map(entry => (entry.id === note.id ? newEntry : entry)) : [...entries, newEntry],
+    encryptionKey
+  );
+  updateSearchDocument(encryptionKey, note);
 
   return note;
 };
@@ -80,80 +1149,904 @@ export const saveNote = async (note: Note, encryptionKey: CryptoJS.lib.WordArray
  * Loads a single note by its ID.
  * @param id The ID of the note to load.
  * @param encryptionKey The derived encryption key.
- * @returns The decrypted note content, or null if not found/decryption fails.
+ * @returns The decrypted note content, or null if not found/unreadable.
+ * @throws DecryptionError if the note file fails its integrity check.
  */
 export const loadNoteContent = async (id: string, encryptionKey: CryptoJS.lib.WordArray): Promise<string | null> => {
   if (!encryptionKey) {
     throw new Error('Encryption key is not available. Cannot load note content.');
   }
 
-  const filePath = `${NOTES_DIR}${id}.encrypted`;
+  const filePath = `${notesDir()}${id}.encrypted`;
   try {
-    const fileInfo = await FileSystem.getInfoAsync(filePath);
-    if (!fileInfo.exists) {
+    if (!(await completeInterruptedWrite(filePath))) {
       return null;
     }
 
-    const encryptedContent = await FileSystem.readAsStringAsync(filePath);
-    const decryptedContent = decryptData(encryptedContent, encryptionKey);
-    return decryptedContent;
+    return await readEncryptedFile(filePath, encryptionKey);
 
   } catch (error) {
+    if (error instanceof DecryptionError) {
+      console.error(`Note ${id} failed to decrypt (${error.code}):`, error.message);
+      throw error;
+    }
     console.error(`Error loading note content for ID ${id}:`, error);
     return null;
   }
 };
 
 /**
- * Gets a list of all notes (metadata only for performance on home screen).
+ * Gets a list of all notes from the encrypted index (titles and previews for the home screen).
  * The actual content is only loaded when a note is opened.
+ * @param encryptionKey The derived encryption key.
  * @returns A sorted array of StoredNoteMetadata.
  */
-export const getAllNoteMetadata = async (): Promise<StoredNoteMetadata[]> => {
-  await ensureDirExists();
-  try {
-    const rawMetadata = await FileSystem.readAsStringAsync(METADATA_FILE);
-    const metadata: StoredNoteMetadata[] = JSON.parse(rawMetadata);
-    // Sort by timestamp, most recent first
-    return metadata.sort((a, b) => b.timestamp - a.timestamp);
-  } catch (e) {
-    console.warn('No metadata file found or corrupted, returning empty list.', e);
-    return [];
+export const getAllNoteMetadata = async (encryptionKey: CryptoJS.lib.WordArray): Promise<StoredNoteMetadata[]> => {
+  if (!encryptionKey) {
+    throw new Error('Encryption key is not available. Cannot read the note index.');
   }
+  const entries = await readIndex(encryptionKey);
+  // Sort by timestamp, most recent first
+  return [...entries].sort((a, b) => b.timestamp - a.timestamp);
 };
 
 /**
- * Deletes a note by its ID.
- * @param id The ID of the note to delete.
+ * Gets a note's index entry, with its tags and notebook.
+ * @param id The ID of the note.
+ * @param encryptionKey The derived encryption key.
+ * @returns The entry, or null if the note isn't in the index.
  */
-export const deleteNote = async (id: string) => {
-  await ensureDirExists();
-  const filePath = `${NOTES_DIR}${id}.encrypted`;
+export const getNoteMetadata = async (
+  id: string,
+  encryptionKey: CryptoJS.lib.WordArray
+): Promise<StoredNoteMetadata | null> => {
+  const entries = await readIndex(encryptionKey);
+  return entries.find(entry => entry.id === id) ?? null;
+};
 
-  try {
-    const fileInfo = await FileSystem.getInfoAsync(filePath);
-    if (fileInfo.exists) {
-      await FileSystem.deleteAsync(filePath);
-      console.log(`Deleted note file: ${filePath}`);
+/**
+ * Gets every notebook, sorted by name.
+ * @param encryptionKey The derived encryption key.
+ */
+export const getNotebooks = async (encryptionKey: CryptoJS.lib.WordArray): Promise<Notebook[]> => {
+  await readIndex(encryptionKey);
+  return [...indexCache!.notebooks].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const assertNotebookNameFree = (notebooks: Notebook[], name: string, exceptId?: string) => {
+  if (!name) {
+    throw new Error('Notebook name cannot be empty.');
+  }
+  if (notebooks.some(notebook => notebook.id !== exceptId && notebook.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`A notebook named "${name}" already exists.`);
+  }
+};
+
+/**
+ * Creates a notebook.
+ * @param name The notebook name; must not match an existing one.
+ * @param encryptionKey The derived encryption key.
+ * @returns The new notebook.
+ */
+export const createNotebook = (name: string, encryptionKey: CryptoJS.lib.WordArray): Promise<Notebook> =>
+  enqueueIndexMutation(async () => {
+    const entries = await readIndex(encryptionKey);
+    const notebooks = indexCache!.notebooks;
+    const trimmed = name.trim();
+    assertNotebookNameFree(notebooks, trimmed);
+
+    const notebook: Notebook = { id: `nb-${generateNoteId()}`, name: trimmed, createdAt: Date.now() };
+    await writeIndex(entries, encryptionKey, [...notebooks, notebook]);
+    console.log(`LOG: Notebook ${notebook.id} created.`);
+    return notebook;
+  });
+
+/**
+ * Renames a notebook. Notes refer to it by ID, so none of them change.
+ * @param id The notebook ID.
+ * @param name The new name; must not match another notebook.
+ * @param encryptionKey The derived encryption key.
+ */
+export const renameNotebook = (id: string, name: string, encryptionKey: CryptoJS.lib.WordArray) =>
+  enqueueIndexMutation(async () => {
+    const entries = await readIndex(encryptionKey);
+    const notebooks = indexCache!.notebooks;
+    const trimmed = name.trim();
+    assertNotebookNameFree(notebooks, trimmed, id);
+    await writeIndex(
+      entries,
+      encryptionKey,
+      notebooks.map(notebook => (notebook.id === id ? { ...notebook, name: trimmed } : notebook))
+    );
+  });
+
+/**
+ * Deletes a notebook. Its notes are kept and moved out of any notebook, in the same index write.
+ * @param id The notebook ID.
+ * @param encryptionKey The derived encryption key.
+ */
+export const deleteNotebook = (id: string, encryptionKey: CryptoJS.lib.WordArray) =>
+  enqueueIndexMutation(async () => {
+    const entries = await readIndex(encryptionKey);
+    const notebooks = indexCache!.notebooks;
+    await writeIndex(
+      entries.map(entry => (entry.notebookId === id ? { ...entry, notebookId: null } : entry)),
+      encryptionKey,
+      notebooks.filter(notebook => notebook.id !== id)
+    );
+    console.log(`LOG: Notebook ${id} deleted.`);
+  });
+
+/**
+ * Adds notebooks from elsewhere (e.g. a backup) to the vault. A notebook whose ID or
+ * name already exists is mapped onto the existing one instead of being duplicated.
+ * @param incoming The notebooks to add.
+ * @param encryptionKey The derived encryption key.
+ * @returns A map from each incoming notebook ID to the ID to use in this vault.
+ */
+export const mergeNotebooks = (
+  incoming: Notebook[],
+  encryptionKey: CryptoJS.lib.WordArray
+): Promise<Map<string, string>> =>
+  enqueueIndexMutation(async () => {
+    const entries = await readIndex(encryptionKey);
+    const notebooks = [...indexCache!.notebooks];
+    const idMap = new Map<string, string>();
+    for (const notebook of incoming) {
+      const match =
+        notebooks.find(existing => existing.id === notebook.id) ??
+        notebooks.find(existing => existing.name.toLowerCase() === notebook.name.toLowerCase());
+      if (match) {
+        idMap.set(notebook.id, match.id);
+      } else {
+        notebooks.push(notebook);
+        idMap.set(notebook.id, notebook.id);
+      }
     }
+    if (notebooks.length !== indexCache!.notebooks.length) {
+      await writeIndex(entries, encryptionKey, notebooks);
+    }
+    return idMap;
+  });
 
-    // Also remove from metadata
-    let metadata: StoredNoteMetadata[] = [];
+/**
+ * Renames a tag on every note that has it, in a single index write. Renaming onto a tag
+ * a note already has merges the two.
+ * @param tag The current tag (matched case-insensitively).
+ * @param newTag The new tag.
+ * @param encryptionKey The derived encryption key.
+ * @returns The number of notes changed.
+ */
+export const renameTag = (tag: string, newTag: string, encryptionKey: CryptoJS.lib.WordArray): Promise<number> =>
+  enqueueIndexMutation(async () => {
+    const [cleaned] = normalizeTags([newTag]);
+    if (!cleaned) {
+      throw new Error('Tag cannot be empty.');
+    }
+    const entries = await readIndex(encryptionKey);
+    let changed = 0;
+    const updated = entries.map(entry => {
+      if (!entry.tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+        return entry;
+      }
+      changed++;
+      const tags = entry.tags.map(existing => (existing.toLowerCase() === tag.toLowerCase() ? cleaned : existing));
+      return { ...entry, tags: normalizeTags(tags) };
+    });
+    if (changed > 0) {
+      await writeIndex(updated, encryptionKey);
+    }
+    return changed;
+  });
+
+/**
+ * Removes a tag from every note that has it, in a single index write.
+ * @param tag The tag (matched case-insensitively).
+ * @param encryptionKey The derived encryption key.
+ * @returns The number of notes changed.
+ */
+export const deleteTag = (tag: string, encryptionKey: CryptoJS.lib.WordArray): Promise<number> =>
+  enqueueIndexMutation(async () => {
+    const entries = await readIndex(encryptionKey);
+    let changed = 0;
+    const updated = entries.map(entry => {
+      const tags = entry.tags.filter(existing => existing.toLowerCase() !== tag.toLowerCase());
+      if (tags.length === entry.tags.length) {
+        return entry;
+      }
+      changed++;
+      return { ...entry, tags };
+    });
+    if (changed > 0) {
+      await writeIndex(updated, encryptionKey);
+    }
+    return changed;
+  });
+
+/**
+ * Decrypts every note once and loads them into the in-memory search index.
+ * Does nothing if the index was already built with this key; saveNote, trashNote and restoreNote keep it current.
+ * @param encryptionKey The derived encryption key.
+ */
+export const buildSearchIndex = async (encryptionKey: CryptoJS.lib.WordArray) => {
+  if (isSearchIndexReady(encryptionKey)) {
+    return;
+  }
+  const epoch = getSearchIndexEpoch();
+  const entries = await readIndex(encryptionKey);
+  const notes: Note[] = [];
+  for (const entry of entries) {
     try {
-      const rawMetadata = await FileSystem.readAsStringAsync(METADATA_FILE);
-      metadata = JSON.parse(rawMetadata);
-    } catch (e) {
-      // Ignore, metadata might not exist, or be corrupted, but we're deleting anyway
+      const content = await loadNoteContent(entry.id, encryptionKey);
+      if (content !== null) {
+        notes.push({ id: entry.id, content, timestamp: entry.timestamp });
+      }
+    } catch (error) {
+      // An unreadable note just won't show up in search results
+      console.warn(`WARN: Note ${entry.id} left out of the search index:`, error);
     }
+  }
+  setSearchDocuments(encryptionKey, notes, epoch);
+};
 
-    const updatedMetadata = metadata.filter(m => m.id !== id);
-    await FileSystem.writeAsStringAsync(METADATA_FILE, JSON.stringify(updatedMetadata));
-    console.log(`Removed note ID ${id} from metadata.`);
+/**
+ * Moves a note to the trash. Its file, revisions and index entry are kept, so it can be
+ * restored until it is deleted for good or purged.
+ * @param id The ID of the note to trash.
+ * @param encryptionKey The derived encryption key, needed to update the index.
+ */
+export const trashNote = (id: string, encryptionKey: CryptoJS.lib.WordArray) =>
+  enqueueIndexMutation(async () => {
+    await ensureDirExists();
+    try {
+      const entries = await readIndex(encryptionKey);
+      const entry = entries.find(existing => existing.id === id);
+      if (!entry) {
+        console.warn(`WARN: trashNote - Note ${id} is not in the index.`);
+        return;
+      }
+
+      const filePath = `${notesDir()}${id}.encrypted`;
+      if ((await FileSystem.getInfoAsync(filePath)).exists) {
+        await FileSystem.makeDirectoryAsync(trashDir(), { intermediates: true });
+        await FileSystem.deleteAsync(`${trashDir()}${id}.encrypted`, { idempotent: true });
+        await FileSystem.moveAsync({ from: filePath, to: `${trashDir()}${id}.encrypted` });
+      }
+
+      await writeIndex(
+        entries.filter(existing => existing.id !== id),
+        encryptionKey,
+        indexCache!.notebooks,
+        [...indexCache!.trash, { ...entry, deletedAt: Date.now() }]
+      );
+      removeSearchDocument(encryptionKey, id);
+      console.log(`LOG: Note ${id} moved to the trash.`);
+    } catch (error) {
+      console.error(`Error trashing note ${id}:`, error);
+      throw new Error(`Failed to delete note.`);
+    }
+  });
+
+/**
+ * Lists the notes in the trash.
+ * @param encryptionKey The derived encryption key.
+ * @returns The trashed notes, most recently deleted first.
+ */
+export const getTrashedNotes = async (encryptionKey: CryptoJS.lib.WordArray): Promise<TrashedNote[]> => {
+  await readIndex(encryptionKey);
+  return [...indexCache!.trash].sort((a, b) => b.deletedAt - a.deletedAt);
+};
+
+/**
+ * Moves a note out of the trash, back into the note list. If its notebook was deleted
+ * in the meantime, it comes back without one.
+ * @param id The ID of the trashed note.
+ * @param encryptionKey The derived encryption key.
+ * @throws Error if the note is not in the trash or a note with the same ID exists.
+ */
+export const restoreNote = (id: string, encryptionKey: CryptoJS.lib.WordArray) =>
+  enqueueIndexMutation(async () => {
+    const entries = await readIndex(encryptionKey);
+    const { notebooks, trash } = indexCache!;
+    const trashed = trash.find(existing => existing.id === id);
+    if (!trashed) {
+      throw new Error('This note is no longer in the trash.');
+    }
+    if (entries.some(existing => existing.id === id)) {
+      throw new Error('A note with the same ID already exists.');
+    }
 
+    const trashPath = `${trashDir()}${id}.encrypted`;
+    if ((await FileSystem.getInfoAsync(trashPath)).exists) {
+      await FileSystem.moveAsync({ from: trashPath, to: `${notesDir()}${id}.encrypted` });
+    }
+
+    const { deletedAt, ...entry } = trashed;
+    const notebookId = notebooks.some(notebook => notebook.id === entry.notebookId) ? entry.notebookId : null;
+    await writeIndex(
+      [...entries, { ...entry, notebookId }],
+      encryptionKey,
+      notebooks,
+      trash.filter(existing => existing.id !== id)
+    );
+
+    const content = await loadNoteContent(id, encryptionKey);
+    if (content !== null) {
+      updateSearchDocument(encryptionKey, { id, content, timestamp: entry.timestamp });
+    }
+    console.log(`LOG: Note ${id} restored from the trash.`);
+  });
+
+/**
+ * Permanently deletes trashed notes: their files, revisions, attachments and trash entries.
+ * Revisions and attachments are kept when a live note has the same ID, since they are
+ * stored by ID alone and may be that note's.
+ * @param ids The IDs of the trashed notes.
+ * @param encryptionKey The derived encryption key.
+ */
+export const deleteTrashedNotes = (ids: string[], encryptionKey: CryptoJS.lib.WordArray) =>
+  enqueueIndexMutation(async () => {
+    if (ids.length === 0) {
+      return;
+    }
+    const entries = await readIndex(encryptionKey);
+    const liveIds = new Set(entries.map(entry => entry.id));
+    for (const id of ids) {
+      await FileSystem.deleteAsync(`${trashDir()}${id}.encrypted`, { idempotent: true });
+      if (liveIds.has(id)) {
+        console.warn(`WARN: A live note shares the ID of trashed note ${id}; keeping its revisions and attachments.`);
+        continue;
+      }
+      await deleteRevisions(id);
+      await deleteAttachments(id);
+    }
+    const deleted = new Set(ids);
+    await writeIndex(
+      entries,
+      encryptionKey,
+      indexCache!.notebooks,
+      indexCache!.trash.filter(existing => !deleted.has(existing.id))
+    );
+    console.log(`LOG: Permanently deleted ${ids.length} note(s) from the trash.`);
+  });
+
+/**
+ * Permanently deletes trashed notes older than the configured retention period.
+ * Run at unlock.
+ * @param encryptionKey The derived encryption key.
+ * @returns How many notes were purged.
+ */
+export const purgeExpiredTrash = async (encryptionKey: CryptoJS.lib.WordArray): Promise<number> => {
+  const { trashRetentionDays } = await getSettings();
+  if (trashRetentionDays === null) {
+    return 0;
+  }
+  const cutoff = Date.now() - trashRetentionDays * 24 * 60 * 60 * 1000;
+  const expired = (await getTrashedNotes(encryptionKey)).filter(note => note.deletedAt < cutoff);
+  await deleteTrashedNotes(expired.map(note => note.id), encryptionKey);
+  return expired.length;
+};
+
+/**
+ * Checks the whole vault: decrypts and verifies every note file, live and trashed, and
+ * compares the files on disk with the index. Changes nothing except recovering an
+ * unreadable index, which readIndex always does.
+ * @param encryptionKey The derived encryption key.
+ * @param onProgress Optional callback reporting how many files have been verified.
+ * @returns What was found.
+ */
+export const checkVault = (
+  encryptionKey: CryptoJS.lib.WordArray,
+  onProgress?: (done: number, total: number) => void
+): Promise<VaultCheckReport> =>
+  enqueueIndexMutation(async () => {
+    await ensureDirExists();
+    // Re-read from disk rather than trusting the copy in memory
+    const indexRecovered =
+      (await FileSystem.getInfoAsync(indexFile())).exists && (await tryReadIndexFile(indexFile(), encryptionKey)) === null;
+    indexCache = null;
+    const entries = await readIndex(encryptionKey);
+    const trash = indexCache!.trash;
+
+    const report: VaultCheckReport = {
+      checkedAt: Date.now(),
+      verifiedNotes: 0,
+      indexRecovered,
+      orphanedFiles: [],
+      danglingEntries: [],
+      undecryptableNotes: [],
+    };
+    const locations = [
+      { dir: notesDir(), inTrash: false, known: entries as StoredNoteMetadata[], ids: await listNoteFileIds(notesDir()) },
+      { dir: trashDir(), inTrash: true, known: trash as StoredNoteMetadata[], ids: await listNoteFileIds(trashDir()) },
+    ];
+    const total = locations.reduce((sum, location) => sum + location.ids.length, 0);
+    let done = 0;
+
+    for (const { dir, inTrash, known, ids } of locations) {
+      for (const id of ids) {
+        const entry = known.find(existing => existing.id === id);
+        try {
+          const content = await readEncryptedFile(`${dir}${id}${NOTE_FILE_SUFFIX}`, encryptionKey);
+          if (entry) {
+            report.verifiedNotes++;
+          } else {
+            const title = stripMarkdown(content).split('\n').map(line => line.trim()).find(Boolean) ?? '';
+            report.orphanedFiles.push({ id, title: title.substring(0, TITLE_MAX_LENGTH), inTrash });
+          }
+        } catch (error) {
+          report.undecryptableNotes.push({
+            id,
+            title: entry?.title ?? '',
+            inTrash,
+            reason: error instanceof DecryptionError ? error.code : 'UNREADABLE',
+          });
+        }
+        onProgress?.(++done, total);
+      }
+      for (const entry of known) {
+        if (!ids.includes(entry.id)) {
+          report.danglingEntries.push({ id: entry.id, title: entry.title, inTrash });
+        }
+      }
+    }
+
+    console.log(
+      `LOG: Vault check: ${report.verifiedNotes} verified, ${report.orphanedFiles.length} orphaned, ` +
+        `${report.danglingEntries.length} dangling, ${report.undecryptableNotes.length} undecryptable.`
+    );
+    return report;
+  });
+
+/**
+ * Rebuilds the index from the note files: orphaned files get an entry, entries without a
+ * file are dropped, and the title and preview of every note are refreshed from its content.
+ * Tags, notebooks, note types, attachments and creation dates are kept for notes the index already knew.
+ * Notes that don't decrypt are left out; quarantine them first to keep them aside.
+ * @param encryptionKey The derived encryption key.
+ * @returns How many notes the rebuilt index lists, live and trashed.
+ */
+export const rebuildIndexFromFiles = (encryptionKey: CryptoJS.lib.WordArray): Promise<number> =>
+  enqueueIndexMutation(async () => {
+    const entries = await readIndex(encryptionKey);
+    const { notebooks, trash } = indexCache!;
+    const rebuilt = await reconcileIndexWithFiles({ version: 1, notes: [] }, encryptionKey);
+
+    const previous = new Map<string, StoredNoteMetadata>([...entries, ...trash].map(entry => [entry.id, entry]));
+    const keepOrganization = <T extends StoredNoteMetadata>(entry: T): T => {
+      const known = previous.get(entry.id);
+      return known
+        ? {
+            ...entry,
+            createdAt: known.createdAt,
+            timestamp: known.timestamp,
+            tags: known.tags,
+            notebookId: known.notebookId,
+            type: known.type,
+            checklist: known.checklist,
+            attachments: known.attachments,
+          }
+        : entry;
+    };
+    const trashedAt = new Map(trash.map(entry => [entry.id, entry.deletedAt]));
+    const notes = rebuilt.notes.map(keepOrganization);
+    const rebuiltTrash = rebuilt.trash.map(entry => ({
+      ...keepOrganization(entry),
+      deletedAt: trashedAt.get(entry.id) ?? entry.deletedAt,
+    }));
+
+    await writeIndex(notes, encryptionKey, notebooks, rebuiltTrash);
+    clearSearchIndex();
+    console.log(`LOG: Index rebuilt from ${notes.length + rebuiltTrash.length} note file(s).`);
+    return notes.length + rebuiltTrash.length;
+  });
+
+/**
+ * Moves note files that no longer decrypt out of the vault into a quarantine directory and
+ * drops their index entries. The files are kept as they are, not deleted.
+ * @param items The undecryptable notes from a vault check.
+ * @param encryptionKey The derived encryption key.
+ */
+export const quarantineNotes = (items: VaultCheckItem[], encryptionKey: CryptoJS.lib.WordArray) =>
+  enqueueIndexMutation(async () => {
+    const entries = await readIndex(encryptionKey);
+    await FileSystem.makeDirectoryAsync(quarantineDir(), { intermediates: true });
+    for (const item of items) {
+      const from = `${item.inTrash ? trashDir() : notesDir()}${item.id}${NOTE_FILE_SUFFIX}`;
+      if ((await FileSystem.getInfoAsync(from)).exists) {
+        // Timestamped, so quarantining a later note with the same ID never replaces one
+        await FileSystem.moveAsync({ from, to: `${quarantineDir()}${item.id}-${Date.now()}${NOTE_FILE_SUFFIX}` });
+      }
+      removeSearchDocument(encryptionKey, item.id);
+    }
+    await writeIndex(
+      entries.filter(entry => !items.some(item => !item.inTrash && item.id === entry.id)),
+      encryptionKey,
+      indexCache!.notebooks,
+      indexCache!.trash.filter(entry => !items.some(item => item.inTrash && item.id === entry.id))
+    );
+    console.log(`LOG: Quarantined ${items.length} undecryptable note file(s).`);
+  });
+
+/**
+ * Removes index entries whose note file is missing.
+ * @param items The dangling entries from a vault check.
+ * @param encryptionKey The derived encryption key.
+ */
+export const dropDanglingEntries = (items: VaultCheckItem[], encryptionKey: CryptoJS.lib.WordArray) =>
+  enqueueIndexMutation(async () => {
+    const entries = await readIndex(encryptionKey);
+    // Only entries that still have no file: one may have been restored since the check
+    const missing = async (item: VaultCheckItem) =>
+      !(await FileSystem.getInfoAsync(`${item.inTrash ? trashDir() : notesDir()}${item.id}${NOTE_FILE_SUFFIX}`)).exists;
+    const dropped: VaultCheckItem[] = [];
+    for (const item of items) {
+      if (await missing(item)) {
+        dropped.push(item);
+        removeSearchDocument(encryptionKey, item.id);
+      }
+    }
+    await writeIndex(
+      entries.filter(entry => !dropped.some(item => !item.inTrash && item.id === entry.id)),
+      encryptionKey,
+      indexCache!.notebooks,
+      indexCache!.trash.filter(entry => !dropped.some(item => item.inTrash && item.id === entry.id))
+    );
+    console.log(`LOG: Dropped ${dropped.length} dangling index entries.`);
+  });
+
+/**
+ * Makes sure the note list of older versions (the plaintext metadata.json) has been moved into
+ * the encrypted index, and deletes it. Idempotent: a file left behind by an interrupted
+ * move is only deleted once the index exists.
+ * @param encryptionKey The derived encryption key.
+ */
+export const migrateLegacyNoteList = async (encryptionKey: CryptoJS.lib.WordArray) => {
+  await readIndex(encryptionKey); // Builds the index from metadata.json if there is none yet
+  if ((await FileSystem.getInfoAsync(legacyMetadataFile())).exists) {
+    await FileSystem.deleteAsync(legacyMetadataFile(), { idempotent: true });
+    console.log('LOG: Deleted the legacy metadata file.');
+  }
+};
+
+/**
+ * Rewrites the note and attachment files that aren't in the format this version writes:
+ * legacy "iv:ciphertext" notes, long notes kept in a single envelope, and attachments from
+ * before the chunked format. Files already up to date are skipped without being decrypted,
+ * so an interrupted run just starts over. Files that don't decrypt are left for the vault check.
+ * @param encryptionKey The derived encryption key.
+ * @param onProgress Optional callback reporting how many files have been looked at.
+ * @returns How many files were rewritten.
+ */
+export const upgradeFileFormats = async (
+  encryptionKey: CryptoJS.lib.WordArray,
+  onProgress?: (done: number, total: number) => void
+): Promise<number> => {
+  const isChunked = async (path: string) => {
+    const info = await FileSystem.getInfoAsync(path);
+    return info.exists && info.size >= CHUNKED_HEADER_SIZE && isChunkedCiphertext(await readFileBytes(path, 0, 3));
+  };
+  const upgradeNote = async (path: string) => {
+    const encrypted = await FileSystem.readAsStringAsync(path);
+    // An envelope's base64 is longer than its plaintext, so a short one can't need chunking
+    if (!isLegacyCiphertext(encrypted) && (encrypted.length * 3) / 4 <= CHUNKED_TEXT_THRESHOLD) {
+      return false;
+    }
+    const content = decryptData(encrypted, encryptionKey);
+    if (!isLegacyCiphertext(encrypted) && content.length <= CHUNKED_TEXT_THRESHOLD) {
+      return false;
+    }
+    await writeEncryptedText(path, content, encryptionKey);
+    return true;
+  };
+  const upgradeAttachment = async (path: string) => {
+    // Before the chunked format an attachment was its base64 text in an envelope
+    const base64Data = decryptData(await FileSystem.readAsStringAsync(path), encryptionKey);
+    await writeChunkedFile(path, base64Pieces(base64Data), encryptionKey);
+    return true;
+  };
+
+  const files: { path: string; upgrade: (path: string) => Promise<boolean> }[] = [];
+  for (const dir of [notesDir(), trashDir()]) {
+    for (const id of await listNoteFileIds(dir)) {
+      files.push({ path: `${dir}${id}${NOTE_FILE_SUFFIX}`, upgrade: upgradeNote });
+    }
+  }
+  if ((await FileSystem.getInfoAsync(attachmentsDir())).exists) {
+    for (const noteId of await FileSystem.readDirectoryAsync(attachmentsDir())) {
+      for (const name of await FileSystem.readDirectoryAsync(attachmentDir(noteId))) {
+        if (name.endsWith(NOTE_FILE_SUFFIX)) {
+          files.push({ path: `${attachmentDir(noteId)}${name}`, upgrade: upgradeAttachment });
+        }
+      }
+    }
+  }
+
+  let upgraded = 0;
+  for (const [index, { path, upgrade }] of files.entries()) {
+    try {
+      // Queued, so a save can't land between reading a file and writing it back
+      const rewritten = await enqueueIndexMutation(async () => !(await isChunked(path)) && (await upgrade(path)));
+      if (rewritten) {
+        upgraded++;
+      }
+    } catch (error) {
+      console.warn(`WARN: Could not upgrade ${path}, leaving it as it is:`, error);
+    }
+    onProgress?.(index + 1, files.length);
+  }
+  console.log(`LOG: Upgraded ${upgraded} of ${files.length} file(s) to the current formats.`);
+  return upgraded;
+};
+
+/**
+ * Puts the original note files back after a failed swap. The journal is deleted first,
+ * so a crash part-way through restoring is still recovered as a rollback.
+ */
+const rollBackReencryption = async () => {
+  await FileSystem.deleteAsync(rekeyJournalFile(), { idempotent: true });
+  const oldFiles = await FileSystem.readDirectoryAsync(rekeyOldDir());
+  for (const fileName of oldFiles) {
+    await FileSystem.deleteAsync(`${notesDir()}${fileName}`, { idempotent: true });
+    await FileSystem.moveAsync({ from: `${rekeyOldDir()}${fileName}`, to: `${notesDir()}${fileName}` });
+  }
+  await FileSystem.deleteAsync(rekeyDir(), { idempotent: true });
+  console.log(`LOG: Re-encryption rolled back, ${oldFiles.length} original note(s) restored.`);
+};
+
+/**
+ * Moves the staged files listed in the journal into place. Safe to run repeatedly:
+ * files that were already swapped on an earlier, interrupted run are skipped.
+ */
+const swapInStagedFiles = async (fileNames: string[]) => {
+  for (const fileName of fileNames) {
+    const stagedPath = `${rekeyStagedDir()}${fileName}`;
+    if (!(await FileSystem.getInfoAsync(stagedPath)).exists) {
+      continue; // Already swapped
+    }
+    const livePath = `${notesDir()}${fileName}`;
+    const oldPath = `${rekeyOldDir()}${fileName}`;
+    if ((await FileSystem.getInfoAsync(livePath)).exists) {
+      if ((await FileSystem.getInfoAsync(oldPath)).exists) {
+        await FileSystem.deleteAsync(livePath);
+      } else {
+        await FileSystem.moveAsync({ from: livePath, to: oldPath });
+      }
+    }
+    await FileSystem.moveAsync({ from: stagedPath, to: livePath });
+  }
+};
+
+/**
+ * Re-encrypts every note listed in the index, and the index itself, under a new key, crash-safely.
+ * Revisions, attachments and the trash are not included: this is only used to move legacy
+ * vaults onto the vault key, and all three only exist in vaults created after that.
+ * 1. Stage: each note is decrypted with oldKey and written re-encrypted to a staging directory.
+ * 2. Journal: once everything is staged, a journal is written. From here an interrupted run rolls forward.
+ * 3. Swap: originals are moved aside, staged files moved into place, then options.commit() runs.
+ * A failure while staging discards the staging directory; a failure during the swap or commit
+ * runs options.rollBack() and restores the original files. No note is ever left under a
+ * different key from the rest, nor under a key other than the one the stored key material opens.
+ * @param oldKey The key the notes are currently encrypted with.
+ * @param newKey The key to re-encrypt the notes with.
+ * @param options Commit callback, journal payload and optional progress callback.
+ */
+export const reencryptAllNotes = async (
+  oldKey: CryptoJS.lib.WordArray,
+  newKey: CryptoJS.lib.WordArray,
+  options: ReencryptOptions
+) => {
+  await ensureDirExists();
+  await FileSystem.deleteAsync(rekeyDir(), { idempotent: true });
+  await FileSystem.makeDirectoryAsync(rekeyStagedDir(), { intermediates: true });
+  await FileSystem.makeDirectoryAsync(rekeyOldDir(), { intermediates: true });
+
+  const metadata = await getAllNoteMetadata(oldKey);
+  const fileNames: string[] = [];
+  try {
+    for (const [index, entry] of metadata.entries()) {
+      const content = await loadNoteContent(entry.id, oldKey);
+      if (content === null) {
+        console.warn(`WARN: reencryptAllNotes - Note ${entry.id} has no file, skipping.`);
+      } else {
+        const fileName = `${entry.id}.encrypted`;
+        await writeEncryptedText(`${rekeyStagedDir()}${fileName}`, content, newKey);
+        fileNames.push(fileName);
+      }
+      options.onProgress?.(index + 1, metadata.length);
+    }
+    const indexPayload: NoteIndexFile = { version: 1, notes: metadata, notebooks: await getNotebooks(oldKey) };
+    await FileSystem.writeAsStringAsync(`${rekeyStagedDir()}${INDEX_FILE_NAME}`, encryptData(JSON.stringify(indexPayload), newKey));
+    fileNames.push(INDEX_FILE_NAME);
+  } catch (error) {
+    console.error('ERROR: reencryptAllNotes - Staging failed, discarding staged notes:', error);
+    await FileSystem.deleteAsync(rekeyDir(), { idempotent: true });
+    throw error;
+  }
+
+  // Write then rename, so a crash can never leave a half-written journal behind
+  const journal: RekeyJournal = { fileNames, payload: options.journalPayload };
+  await FileSystem.writeAsStringAsync(`${rekeyDir()}journal.tmp`, JSON.stringify(journal));
+  await FileSystem.moveAsync({ from: `${rekeyDir()}journal.tmp`, to: rekeyJournalFile() });
+
+  clearNoteIndexCache();
+  try {
+    await swapInStagedFiles(fileNames);
+    await options.commit();
   } catch (error) {
-    console.error(`Error deleting note ${id}:`, error);
-    throw new Error(`Failed to delete note.`);
+    console.error('ERROR: reencryptAllNotes - Swap or commit failed, rolling back:', error);
+    // While the journal is there, a crash in here still rolls forward to a consistent state
+    await options.rollBack?.();
+    await rollBackReencryption();
+    throw error;
+  }
+
+  await FileSystem.deleteAsync(rekeyDir(), { idempotent: true });
+  // The copy of the previous index is under the old key, so it could no longer restore anything
+  await FileSystem.deleteAsync(indexBackupFile(), { idempotent: true });
+  console.log(`LOG: Re-encrypted ${fileNames.length - 1} note(s) and the index under the new key.`);
+};
+
+/**
+ * Finishes or undoes a re-encryption that was interrupted by a crash or the app being killed.
+ * Must run before the vault is unlocked.
+ * @param applyJournalPayload Completes the commit (e.g. stores the new key material) from the journal payload.
+ * @returns What was done: nothing, the new key was rolled forward, or the originals were restored.
+ */
+export const recoverInterruptedReencryption = async (
+  applyJournalPayload: (payload: string) => Promise<void>
+): Promise<'none' | 'rolled-forward' | 'rolled-back'> => {
+  if (!(await FileSystem.getInfoAsync(rekeyDir())).exists) {
+    return 'none';
+  }
+
+  const journalInfo = await FileSystem.getInfoAsync(rekeyJournalFile());
+  if (!journalInfo.exists) {
+    await FileSystem.makeDirectoryAsync(rekeyOldDir(), { intermediates: true });
+    await rollBackReencryption();
+    return 'rolled-back';
+  }
+
+  const journal: RekeyJournal = JSON.parse(await FileSystem.readAsStringAsync(rekeyJournalFile()));
+  await swapInStagedFiles(journal.fileNames);
+  await applyJournalPayload(journal.payload);
+  await FileSystem.deleteAsync(rekeyDir(), { idempotent: true });
+  console.log(`LOG: Interrupted re-encryption rolled forward for ${journal.fileNames.length} file(s).`);
+  return 'rolled-forward';
+};
+
+/**
+ * Lists every file under a directory, depth first.
+ */
+const listFilesRecursively = async (dir: string): Promise<{ uri: string; size: number }[]> => {
+  const files: { uri: string; size: number }[] = [];
+  for (const name of await FileSystem.readDirectoryAsync(dir)) {
+    const uri = `${dir}${name}`;
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) {
+      continue;
+    }
+    if (info.isDirectory) {
+      files.push(...(await listFilesRecursively(`${uri}/`)));
+    } else {
+      files.push({ uri, size: info.size });
+    }
+  }
+  return files;
+};
+
+/**
+ * Overwrites every file in the notes directory (notes, index, revisions, trash and any
+ * leftovers of an interrupted re-encryption) with random data, deletes it, then removes
+ * the directory. Used when the vault is erased; safe to run again after an interruption,
+ * since files are deleted as they are done.
+ * Flash storage may put an overwrite somewhere else than the original data, so this is
+ * best effort; the files are ciphertext, and the key material is removed before this runs.
+ * @param onProgress Optional callback reporting how many files are done.
+ * @param directory The notes directory to shred; defaults to the active vault's.
+ * @returns How many files and bytes were overwritten.
+ */
+export const shredAllNotes = async (
+  onProgress?: (done: number, total: number) => void,
+  directory: string = notesDir()
+): Promise<{ files: number; bytes: number }> => {
+  if (directory === notesDir()) {
+    clearNoteIndexCache();
+  }
+  if (!(await FileSystem.getInfoAsync(directory)).exists) {
+    return { files: 0, bytes: 0 };
+  }
+
+  const files = await listFilesRecursively(directory);
+  let bytes = 0;
+  for (const [index, file] of files.entries()) {
+    if (file.size > 0) {
+      // Random base64 is one byte per character, so the same length overwrites every byte
+      const random = CryptoJS.enc.Base64.stringify(CryptoJS.lib.WordArray.random(Math.ceil((file.size * 3) / 4)));
+      await FileSystem.writeAsStringAsync(file.uri, random.substring(0, file.size));
+      bytes += file.size;
+    }
+    await FileSystem.deleteAsync(file.uri, { idempotent: true });
+    onProgress?.(index + 1, files.length);
+  }
+
+  await FileSystem.deleteAsync(directory, { idempotent: true });
+  console.log(`LOG: Overwrote and deleted ${files.length} file(s), ${bytes} byte(s), from the notes directory.`);
+  return { files: files.length, bytes };
+};
+
+/**
+ * Times one benchmarked operation, and the longest the UI would have been frozen during it:
+ * a timer ticks throughout, and the largest gap between ticks is how long it was held up.
+ */
+const measureOperation = async (operation: () => Promise<unknown>): Promise<BenchmarkTiming> => {
+  let longestStallMs = 0;
+  let lastTick = Date.now();
+  const ticker = setInterval(() => {
+    const now = Date.now();
+    longestStallMs = Math.max(longestStallMs, now - lastTick);
+    lastTick = now;
+  }, BENCHMARK_TICK_MS);
+  const start = Date.now();
+  try {
+    await operation();
+  } finally {
+    clearInterval(ticker);
+  }
+  const end = Date.now();
+  return { ms: end - start, longestStallMs: Math.max(longestStallMs, end - lastTick) };
+};
+
+/**
+ * Compares the single-envelope format with the chunked format on this device: encrypting
+ * text to a file and decrypting it again, through the same helpers notes use. Only temporary
+ * files in the cache directory are touched.
+ * @param encryptionKey The derived encryption key.
+ * @param sizes Lengths of sample text to try, in characters.
+ * @returns The timings for each size.
+ * @throws Error if either format doesn't give back the text it was given.
+ */
+export const benchmarkEncryption = async (
+  encryptionKey: CryptoJS.lib.WordArray,
+  sizes: number[] = BENCHMARK_SIZES
+): Promise<EncryptionBenchmarkResult[]> => {
+  const envelopePath = `${FileSystem.cacheDirectory}benchmark-envelope${NOTE_FILE_SUFFIX}`;
+  const chunkedPath = `${FileSystem.cacheDirectory}benchmark-chunked${NOTE_FILE_SUFFIX}`;
+  const results: EncryptionBenchmarkResult[] = [];
+  try {
+    for (const size of sizes) {
+      // Mixed one- to four-byte UTF-8 characters, so segments split characters too
+      const text = 'Lorem ipsum dolor sit amet, ünïcødé 🔐 text.\n'.repeat(Math.ceil(size / 45)).substring(0, size);
+      let envelopeText = '';
+      let chunkedText = '';
+      const result: EncryptionBenchmarkResult = {
+        size,
+        envelopeWrite: await measureOperation(() => writeFileAtomically(envelopePath, encryptData(text, encryptionKey))),
+        envelopeRead: await measureOperation(async () => {
+          envelopeText = decryptData(await FileSystem.readAsStringAsync(envelopePath), encryptionKey);
+        }),
+        chunkedWrite: await measureOperation(() => writeChunkedFile(chunkedPath, textPieces(text), encryptionKey)),
+        chunkedRead: await measureOperation(async () => {
+          chunkedText = await readEncryptedFile(chunkedPath, encryptionKey);
+        }),
+      };
+      if (envelopeText !== text || chunkedText !== text) {
+        throw new Error(`Benchmark text of ${size} characters did not survive the round trip.`);
+      }
+      console.log(
+        `LOG: Encryption benchmark, ${size} characters (write/read, longest stall in brackets): ` +
+          `envelope ${result.envelopeWrite.ms} (${result.envelopeWrite.longestStallMs})/` +
+          `${result.envelopeRead.ms} (${result.envelopeRead.longestStallMs}) ms, ` +
+          `chunked ${result.chunkedWrite.ms} (${result.chunkedWrite.longestStallMs})/` +
+          `${result.chunkedRead.ms} (${result.chunkedRead.longestStallMs}) ms.`
+      );
+      results.push(result);
+    }
+  } finally {
+    await FileSystem.deleteAsync(envelopePath, { idempotent: true });
+    await FileSystem.deleteAsync(chunkedPath, { idempotent: true });
   }
+  return results;
 };
 
 /**
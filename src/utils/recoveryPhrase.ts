@@ -0,0 +1,63 @@
+// src/utils/recoveryPhrase.ts
+import * as ExpoCrypto from 'expo-crypto';
+import { RECOVERY_WORDLIST } from './wordlist';
+
+// 12 words from a 2048 word list: 12 * 11 = 132 bits of entropy
+export const RECOVERY_PHRASE_WORD_COUNT = 12;
+const BITS_PER_WORD = 11; // log2(2048)
+
+/**
+ * Generates a new random recovery phrase.
+ * Each word is picked with 11 uniformly random bits, so there is no modulo bias.
+ * @returns The phrase as an array of words.
+ */
+export const generateRecoveryPhrase = (): string[] => {
+  const bytes = ExpoCrypto.getRandomBytes(RECOVERY_PHRASE_WORD_COUNT * 2);
+  const words: string[] = [];
+  for (let i = 0; i < RECOVERY_PHRASE_WORD_COUNT; i++) {
+    const index = ((bytes[i * 2] << 8) | bytes[i * 2 + 1]) & ((1 << BITS_PER_WORD) - 1);
+    words.push(RECOVERY_WORDLIST[index]);
+  }
+  return words;
+};
+
+/**
+ * Normalizes user input into the canonical phrase form used for key derivation:
+ * lowercase words separated by single spaces.
+ * @param input The phrase as typed or pasted by the user.
+ * @returns The normalized phrase.
+ */
+export const normalizeRecoveryPhrase = (input: string): string => {
+  return input.trim().toLowerCase().split(/\s+/).filter(Boolean).join(' ');
+};
+
+/**
+ * Checks that a phrase has the right number of words and that every word is in the word list.
+ * Catches typos before an expensive key derivation is attempted.
+ * @param input The phrase as typed by the user.
+ * @returns An error message, or null if the phrase is well-formed.
+ */
+export const validateRecoveryPhrase = (input: string): string | null => {
+  const words = normalizeRecoveryPhrase(input).split(' ').filter(Boolean);
+  if (words.length !== RECOVERY_PHRASE_WORD_COUNT) {
+    return `A recovery phrase has ${RECOVERY_PHRASE_WORD_COUNT} words; you entered ${words.length}.`;
+  }
+  const unknown = words.find(word => !RECOVERY_WORDLIST.includes(word));
+  if (unknown) {
+    return `"${unknown}" is not a recovery phrase word. Check the spelling.`;
+  }
+  return null;
+};
+
+/**
+ * Picks distinct word positions the user must re-enter to confirm they wrote the phrase down.
+ * @param count How many positions to pick.
+ * @returns Sorted zero-based word indexes.
+ */
+export const pickConfirmationIndexes = (count: number = 3): number[] => {
+  const indexes = new Set<number>();
+  while (indexes.size < count) {
+    indexes.add(ExpoCrypto.getRandomBytes(1)[0] % RECOVERY_PHRASE_WORD_COUNT);
+  }
+  return Array.from(indexes).sort((a, b) => a - b);
+};
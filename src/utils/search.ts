@@ -0,0 +1,307 @@
+// src/utils/search.ts
+import CryptoJS from 'crypto-js'; // For type inference of encryptionKey
+
+// A word in a note, with where it sits in the original text (for highlighting)
+interface Token {
+  term: string; // Lower-cased
+  start: number;
+  end: number;
+}
+
+interface IndexedNote {
+  id: string;
+  content: string;
+  timestamp: number;
+  title: string;
+  titleEnd: number; // Offset where the title line ends; matches before it rank higher
+  tokens: Token[];
+  positions: Map<string, number[]>; // Term -> indexes into tokens
+}
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  id: string;
+  title: string;
+  timestamp: number;
+  score: number;
+  snippet: SnippetSegment[];
+}
+
+// One clause of a parsed query. Every clause must match for a note to be a result.
+type QueryClause =
+  | { kind: 'term'; term: string; prefix: boolean }
+  | { kind: 'phrase'; terms: string[] };
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const TITLE_BOOST = 2;
+const PREFIX_WEIGHT = 0.6; // A prefix hit counts for less than the whole word
+const SNIPPET_CONTEXT_BEFORE = 40;
+const SNIPPET_LENGTH = 160;
+
+// Plaintext search index, held in memory only and tied to the key it was built with.
+// Nothing in here is ever written to disk; clearSearchIndex drops it when the vault locks.
+let searchIndex: { key: CryptoJS.lib.WordArray; notes: Map<string, IndexedNote> } | null = null;
+// Bumped by clearSearchIndex, so a build that was still decrypting when the vault locked is discarded
+let searchIndexEpoch = 0;
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    tokens.push({ term: match[0].toLowerCase(), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+};
+
+const indexNote = (id: string, content: string, timestamp: number): IndexedNote => {
+  const tokens = tokenize(content);
+  const positions = new Map<string, number[]>();
+  tokens.forEach((token, index) => {
+    const list = positions.get(token.term);
+    if (list) {
+      list.push(index);
+    } else {
+      positions.set(token.term, [index]);
+    }
+  });
+
+  const titleStart = content.search(/\S/);
+  const titleEndIndex = titleStart === -1 ? -1 : content.indexOf('\n', titleStart);
+  const titleEnd = titleStart === -1 ? 0 : titleEndIndex === -1 ? content.length : titleEndIndex;
+  const title = titleStart === -1 ? '' : content.substring(titleStart, titleEnd).trim();
+
+  return { id, content, timestamp, title, titleEnd, tokens, positions };
+};
+
+/**
+ * Checks whether the search index has been built for this key.
+ */
+export const isSearchIndexReady = (encryptionKey: CryptoJS.lib.WordArray): boolean => {
+  return searchIndex !== null && searchIndex.key === encryptionKey;
+};
+
+/**
+ * Returns a marker to pass to setSearchDocuments when a build starts.
+ */
+export const getSearchIndexEpoch = (): number => searchIndexEpoch;
+
+/**
+ * Replaces the search index with the given decrypted notes.
+ * @param encryptionKey The key the notes were decrypted with.
+ * @param notes Every note in the vault.
+ * @param epoch getSearchIndexEpoch() from when the build started; stale builds are dropped.
+ */
+export const setSearchDocuments = (
+  encryptionKey: CryptoJS.lib.WordArray,
+  notes: { id: string; content: string; timestamp: number }[],
+  epoch: number
+) => {
+  if (epoch !== searchIndexEpoch) {
+    console.log('LOG: Vault locked while building the search index, discarding it.');
+    return;
+  }
+  const indexed = new Map<string, IndexedNote>();
+  for (const note of notes) {
+    indexed.set(note.id, indexNote(note.id, note.content, note.timestamp));
+  }
+  searchIndex = { key: encryptionKey, notes: indexed };
+  console.log(`LOG: Search index built for ${indexed.size} note(s).`);
+};
+
+/**
+ * Adds or refreshes one note in the search index. Ignored until the index is built for this key.
+ */
+export const updateSearchDocument = (
+  encryptionKey: CryptoJS.lib.WordArray,
+  note: { id: string; content: string; timestamp: number }
+) => {
+  if (isSearchIndexReady(encryptionKey)) {
+    searchIndex!.notes.set(note.id, indexNote(note.id, note.content, note.timestamp));
+  }
+};
+
+/**
+ * Removes one note from the search index.
+ */
+export const removeSearchDocument = (encryptionKey: CryptoJS.lib.WordArray, id: string) => {
+  if (isSearchIndexReady(encryptionKey)) {
+    searchIndex!.notes.delete(id);
+  }
+};
+
+/**
+ * Drops the search index and every decrypted note text it holds.
+ * Call whenever the encryption key is cleared.
+ */
+export const clearSearchIndex = () => {
+  searchIndex = null;
+  searchIndexEpoch++;
+};
+
+/**
+ * Parses a query into clauses. Quoted text is a phrase; other words match whole words,
+ * or any word starting with them if they end in "*". The last word also matches as a
+ * prefix while it is still being typed.
+ */
+const parseQuery = (query: string): QueryClause[] => {
+  const clauses: QueryClause[] = [];
+  const chunks = Array.from(query.matchAll(/"([^"]*)"?|(\S+)/g));
+  const stillTyping = !/\s$/.test(query);
+
+  chunks.forEach((chunk, index) => {
+    const isLast = index === chunks.length - 1;
+    if (chunk[1] !== undefined) {
+      const terms = tokenize(chunk[1]).map(token => token.term);
+      if (terms.length > 0) {
+        clauses.push({ kind: 'phrase', terms });
+      }
+      return;
+    }
+    const raw = chunk[2];
+    const terms = tokenize(raw).map(token => token.term);
+    if (terms.length > 1) {
+      // "e-mail" and the like: the parts must appear next to each other
+      clauses.push({ kind: 'phrase', terms });
+    } else if (terms.length === 1) {
+      clauses.push({ kind: 'term', term: terms[0], prefix: raw.endsWith('*') || (isLast && stillTyping) });
+    }
+  });
+  return clauses;
+};
+
+// Token indexes where a clause matches in a note, with the weight of each hit
+interface ClauseMatch {
+  hits: { start: number; end: number; weight: number }[]; // start/end are token indexes
+}
+
+const matchClause = (note: IndexedNote, clause: QueryClause): ClauseMatch => {
+  const hits: ClauseMatch['hits'] = [];
+  if (clause.kind === 'term') {
+    for (const index of note.positions.get(clause.term) ?? []) {
+      hits.push({ start: index, end: index, weight: 1 });
+    }
+    if (clause.prefix) {
+      for (const [term, indexes] of note.positions) {
+        if (term !== clause.term && term.startsWith(clause.term)) {
+          indexes.forEach(index => hits.push({ start: index, end: index, weight: PREFIX_WEIGHT }));
+        }
+      }
+    }
+    return { hits };
+  }
+
+  const [first, ...rest] = clause.terms;
+  for (const index of note.positions.get(first) ?? []) {
+    if (rest.every((term, offset) => note.tokens[index + offset + 1]?.term === term)) {
+      // A phrase hit is worth more than its words found apart
+      hits.push({ start: index, end: index + rest.length, weight: clause.terms.length });
+    }
+  }
+  return { hits };
+};
+
+/**
+ * Builds a snippet around the first match in the note body (or the title, if that's
+ * the only match), with every match inside it marked for highlighting.
+ */
+const buildSnippet = (note: IndexedNote, ranges: { start: number; end: number }[]): SnippetSegment[] => {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const anchor = sorted.find(range => range.start >= note.titleEnd) ?? sorted[0];
+
+  let start = Math.max(note.titleEnd, anchor.start - SNIPPET_CONTEXT_BEFORE);
+  if (anchor.start < note.titleEnd) {
+    start = anchor.start;
+  } else if (start > note.titleEnd) {
+    // Don't start in the middle of a word
+    const space = note.content.indexOf(' ', start);
+    start = space !== -1 && space < anchor.start ? space + 1 : start;
+  }
+  const end = Math.min(note.content.length, start + SNIPPET_LENGTH);
+
+  const segments: SnippetSegment[] = [];
+  let cursor = start;
+  for (const range of sorted) {
+    if (range.end <= cursor || range.start >= end) {
+      continue;
+    }
+    if (range.start > cursor) {
+      segments.push({ text: note.content.substring(cursor, range.start), highlight: false });
+    }
+    segments.push({ text: note.content.substring(Math.max(range.start, cursor), Math.min(range.end, end)), highlight: true });
+    cursor = Math.min(range.end, end);
+  }
+  if (cursor < end) {
+    segments.push({ text: note.content.substring(cursor, end), highlight: false });
+  }
+
+  if (segments.length > 0) {
+    const skipped = note.content.substring(anchor.start < note.titleEnd ? 0 : note.titleEnd, start);
+    if (/\S/.test(skipped)) {
+      segments[0].text = `...${segments[0].text}`;
+    }
+    if (end < note.content.length) {
+      segments[segments.length - 1].text += '...';
+    }
+  }
+  const collapsed = segments.map(segment => ({ ...segment, text: segment.text.replace(/\s+/g, ' ') }));
+  if (collapsed.length > 0) {
+    collapsed[0].text = collapsed[0].text.trimStart();
+  }
+  return collapsed;
+};
+
+/**
+ * Searches the decrypted notes in memory. Every clause of the query must match.
+ * Results are ranked by how often and how rarely-used the matched words are, with
+ * matches in the title counting double, then by most recent.
+ * @param query The search text.
+ * @returns Matching notes, best first; empty if the index isn't built yet.
+ */
+export const searchNotes = (query: string): SearchResult[] => {
+  const clauses = parseQuery(query);
+  if (!searchIndex || clauses.length === 0) {
+    return [];
+  }
+  const notes = Array.from(searchIndex.notes.values());
+
+  // Match every clause against every note first, so rarer clauses can be weighted higher
+  const matches = notes.map(note => clauses.map(clause => matchClause(note, clause)));
+  const docFrequency = clauses.map((_, clauseIndex) =>
+    matches.filter(noteMatches => noteMatches[clauseIndex].hits.length > 0).length
+  );
+
+  const results: SearchResult[] = [];
+  notes.forEach((note, noteIndex) => {
+    const noteMatches = matches[noteIndex];
+    if (noteMatches.some(match => match.hits.length === 0)) {
+      return;
+    }
+
+    let score = 0;
+    const ranges: { start: number; end: number }[] = [];
+    noteMatches.forEach((match, clauseIndex) => {
+      const idf = Math.log(1 + notes.length / docFrequency[clauseIndex]);
+      let clauseWeight = 0;
+      for (const hit of match.hits) {
+        const range = { start: note.tokens[hit.start].start, end: note.tokens[hit.end].end };
+        ranges.push(range);
+        clauseWeight += hit.weight * (range.start < note.titleEnd ? TITLE_BOOST : 1);
+      }
+      // Diminishing returns for repeated hits
+      score += idf * (1 + Math.log(clauseWeight));
+    });
+
+    results.push({
+      id: note.id,
+      title: note.title,
+      timestamp: note.timestamp,
+      score,
+      snippet: buildSnippet(note, ranges),
+    });
+  });
+
+  return results.sort((a, b) => b.score - a.score || b.timestamp - a.timestamp);
+};
@@ -0,0 +1,51 @@
+// src/utils/settings.ts
+import * as SecureStore from 'expo-secure-store';
+import { getVaultStoreKey } from './vaultRegistry';
+
+const SETTINGS_KEY = 'settings'; // Key name for storing user preferences
+
+// User preferences, per vault. Not secret, but kept in SecureStore with the rest of the app's state.
+export interface AppSettings {
+  autoLockTimeoutMs: number | null; // Lock after this much inactivity; null = never
+  backgroundGraceMs: number; // Lock once the app has been in the background this long; 0 = immediately
+  wipeAfterFailedAttempts: number | null; // Opt-in: erase the vault after this many consecutive failures
+  revisionRetentionCount: number | null; // Revisions kept per note; null = no limit
+  revisionRetentionDays: number | null; // Revisions older than this are pruned; null = kept forever
+  trashRetentionDays: number | null; // Trashed notes are purged this long after deletion; null = never
+  biometricPasswordIntervalDays: number | null; // Biometric unlock needs a password unlock this recently; null = no limit
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  autoLockTimeoutMs: 5 * 60 * 1000,
+  backgroundGraceMs: 0,
+  wipeAfterFailedAttempts: null,
+  revisionRetentionCount: 20,
+  revisionRetentionDays: 30,
+  trashRetentionDays: 30,
+  biometricPasswordIntervalDays: 7,
+};
+
+/**
+ * Loads the stored settings, filling in defaults for anything missing.
+ * @returns The current settings.
+ */
+export const getSettings = async (): Promise<AppSettings> => {
+  try {
+    const raw = await SecureStore.getItemAsync(getVaultStoreKey(SETTINGS_KEY));
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : { ...DEFAULT_SETTINGS };
+  } catch (error) {
+    console.error('ERROR: Failed to load settings, using defaults:', error);
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+/**
+ * Updates some settings and persists the result.
+ * @param changes The settings to change.
+ * @returns The full, updated settings.
+ */
+export const updateSettings = async (changes: Partial<AppSettings>): Promise<AppSettings> => {
+  const updated = { ...(await getSettings()), ...changes };
+  await SecureStore.setItemAsync(getVaultStoreKey(SETTINGS_KEY), JSON.stringify(updated));
+  return updated;
+};
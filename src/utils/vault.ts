@@ -0,0 +1,587 @@
+// src/utils/vault.ts
+import CryptoJS from 'crypto-js';
+import * as FileSystem from 'expo-file-system';
+import * as SecureStore from 'expo-secure-store';
+import {
+  completeLegacyVaultMigration,
+  getKeyWrapper,
+  hasMasterPassword,
+  isLegacyVault,
+  KeyWrapperRecord,
+  prepareLegacyVaultMigration,
+  revertLegacyVaultMigration,
+  setMasterPassword,
+  storeKeyWrapper,
+  unwrapVaultKeyWithPassphrase,
+  upgradeWeakKeyWrapper,
+  verifyLegacyMasterPassword,
+  verifyMasterPassword,
+  wrapVaultKeyWithPassphrase,
+} from './crypto';
+import { clearNoteIndexCache, reencryptAllNotes, recoverInterruptedReencryption, shredAllNotes } from './noteStorage';
+import { normalizeRecoveryPhrase } from './recoveryPhrase';
+import { assertNotLockedOut, recordFailedAttempt, resetFailedAttempts } from './lockout';
+import { getSettings, updateSettings } from './settings';
+import { clearSearchIndex } from './search';
+import { assertSchemaVersionSupported, markSchemaVersionCurrent } from './migrations';
+import {
+  closeHiddenVault,
+  DEFAULT_VAULT_ID,
+  getActiveVaultId,
+  getVaultNotesDir,
+  getVaultStoreKey,
+  listVaults,
+  loadActiveVault,
+  openHiddenVault,
+  removeVault,
+  replaceVault,
+  selectVault,
+  VaultInfo,
+} from './vaultRegistry';
+import {
+  checkDuressPassword,
+  clearDuressPassword,
+  DecoyAccess,
+  ensureDuressRecord,
+  getDecoyVaultId,
+  recordDecoyVaultId,
+  resealDuressRecord,
+} from './duress';
+import {
+  deleteBiometricKey,
+  getBiometricUnlockState,
+  recordPasswordUnlock,
+  unwrapVaultKeyWithBiometrics,
+} from './biometric';
+
+// Every SecureStore value a vault keeps (crypto.ts, lockout.ts, settings.ts, migrations.ts, duress.ts,
+// biometric.ts), by name; see getVaultStoreKey. SecureStore can't list its keys, so a new one must be
+// added here to be erased. Device-wide values (the KDF calibration and the vault registry) are not
+// erased. The key behind the biometric prompt is in a keychain service of its own, deleted separately.
+const VAULT_SECURE_STORE_NAMES = [
+  'wrapper_password',
+  'wrapper_recovery',
+  'wrapper_biometric',
+  'salt',
+  'test_data',
+  'failed_attempts',
+  'settings',
+  'schema_version',
+  'duress',
+  'last_password_unlock',
+];
+
+// Device-wide: vaults whose erase a duress unlock started, each with the decoy that takes its
+// place. Kept in SecureStore rather than a file, so nothing on disk shows that it happened.
+const PENDING_WIPES_KEY = 'ciphernote_pending_wipes';
+
+interface PendingWipe {
+  vaultId: string;
+  replacementId: string;
+}
+
+// Tail of the queue that reads and changes the pending wipes one step at a time, so two runs
+// never shred the same files at once and a wipe added during a run is not written over
+let pendingWipesQueue: Promise<unknown> = Promise.resolve();
+
+const readPendingWipes = async (): Promise<PendingWipe[]> => {
+  const raw = await SecureStore.getItemAsync(PENDING_WIPES_KEY);
+  return raw ? JSON.parse(raw) : [];
+};
+
+/**
+ * Runs a step on the pending wipes once every step queued before it has finished.
+ * @param step Reads the pending wipes, and changes or finishes them.
+ * @returns The step's result.
+ */
+const enqueuePendingWipesStep = <T>(step: () => Promise<T>): Promise<T> => {
+  const result = pendingWipesQueue.then(step);
+  pendingWipesQueue = result.catch(() => undefined); // A failed run is retried on the next launch
+  return result;
+};
+
+// The decoy vault that is open in place of the active vault, if any
+let openDecoy: { ownerVaultId: string; access: DecoyAccess } | null = null;
+
+// The result of checking an unlock password: the vault key it opened, and the decoy access
+// when it was the duress password
+interface PasswordUnlock {
+  vaultKey: CryptoJS.lib.WordArray;
+  decoy: DecoyAccess | null;
+}
+
+// Written before an erase starts and deleted once it is done, so an erase the app was
+// killed in the middle of is finished on the next launch. Lives outside every notes directory.
+const ERASE_MARKER_FILE = `${FileSystem.documentDirectory}erase-in-progress.json`;
+
+interface EraseMarker {
+  startedAt: number;
+  vaultId?: string; // Absent in markers written before multiple vaults existed: the default vault
+  deleteVault?: boolean; // The vault is removed from the list once erased
+}
+
+export interface VaultEraseReport {
+  secureStoreKeys: string[]; // SecureStore keys that held a value and were deleted
+  files: number; // Files overwritten and deleted from the notes directory
+  bytes: number;
+}
+
+/**
+ * Raised when too many failed unlock attempts caused the opt-in self-destruct to erase the vault.
+ */
+export class VaultWipedError extends Error {
+  constructor() {
+    super('Too many failed attempts. The vault has been erased.');
+    this.name = 'VaultWipedError';
+  }
+}
+
+/**
+ * Deletes every SecureStore value of a vault.
+ * @param vaultId The vault.
+ * @returns The keys that held a value.
+ */
+const deleteVaultSecureStoreKeys = async (vaultId: string): Promise<string[]> => {
+  const deleted: string[] = [];
+  for (const name of VAULT_SECURE_STORE_NAMES) {
+    const key = getVaultStoreKey(name, vaultId);
+    if ((await SecureStore.getItemAsync(key)) !== null) {
+      deleted.push(key);
+    }
+    await SecureStore.deleteItemAsync(key);
+  }
+  await deleteBiometricKey(vaultId);
+  return deleted;
+};
+
+/**
+ * Shreds a vault's notes directory, then removes the vault's own directory.
+ * @param vaultId The vault.
+ * @param onProgress Optional callback reporting how many files have been shredded.
+ */
+const shredVaultFiles = async (
+  vaultId: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ files: number; bytes: number }> => {
+  const result = await shredAllNotes(onProgress, getVaultNotesDir(vaultId));
+  if (vaultId !== DEFAULT_VAULT_ID) {
+    // Only the emptied notes directory is left in the vault's own directory
+    await FileSystem.deleteAsync(`${FileSystem.documentDirectory}vaults/${vaultId}/`, { idempotent: true });
+  }
+  return result;
+};
+
+/**
+ * Erases a vault's keys and files by its ID, after its decoy vault (and the decoy's own).
+ * Needs neither the vault key nor the vault to be in the list, so it reaches hidden vaults too.
+ * The decoy goes first: once the vault's keys are deleted, nothing leads to it.
+ * @param vaultId The vault.
+ * @param onProgress Optional callback reporting how many of the vault's files have been shredded.
+ */
+const eraseVaultStorage = async (
+  vaultId: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<VaultEraseReport> => {
+  const decoyId = await getDecoyVaultId(vaultId);
+  // A decoy that took its owner's place is in the list, an ordinary vault that must stay
+  if (decoyId && decoyId !== vaultId && !(await listVaults()).some(vault => vault.id === decoyId)) {
+    await eraseVaultStorage(decoyId);
+  }
+  const secureStoreKeys = await deleteVaultSecureStoreKeys(vaultId);
+  const { files, bytes } = await shredVaultFiles(vaultId, onProgress);
+  return { secureStoreKeys, files, bytes };
+};
+
+/**
+ * Erases the active vault, along with its decoy vault if it has a duress password: its keys,
+ * settings and counters, then its notes. Key material goes first, so the notes are unreadable
+ * from that point on; then every file in the notes directory is overwritten and deleted. Other
+ * vaults on the device are untouched. Resumable: see resumeInterruptedErase.
+ * @param onProgress Optional callback reporting how many files have been shredded.
+ * @param options deleteVault: also remove the vault from the list once it is erased.
+ * vaultKey: the unlocked vault key, when at hand; it finds the decoy of a vault whose duress
+ * record is from before the decoy's ID was kept in the clear.
+ * @returns What was removed.
+ */
+export const eraseVault = async (
+  onProgress?: (done: number, total: number) => void,
+  options: { deleteVault?: boolean; vaultKey?: CryptoJS.lib.WordArray } = {}
+): Promise<VaultEraseReport> => {
+  const { deleteVault = false, vaultKey } = options;
+  if (vaultKey) {
+    await recordDecoyVaultId(vaultKey);
+  }
+  const vaultId = getActiveVaultId();
+  const marker: EraseMarker = { startedAt: Date.now(), vaultId, deleteVault };
+  await FileSystem.writeAsStringAsync(ERASE_MARKER_FILE, JSON.stringify(marker));
+  clearSearchIndex();
+  clearNoteIndexCache();
+
+  const report = await eraseVaultStorage(vaultId, onProgress);
+  if (deleteVault) {
+    await removeVault(vaultId);
+  }
+  await FileSystem.deleteAsync(ERASE_MARKER_FILE, { idempotent: true });
+  console.log(`LOG: Vault ${vaultId} erased: ${report.secureStoreKeys.length} key(s), ${report.files} file(s).`);
+  return report;
+};
+
+/**
+ * Finishes the erases started by duress unlocks: the vault's keys go, the decoy takes its place
+ * in the list, and its files are shredded. Logged like any other erase, but never reported
+ * to the user. Resumable, and run again on every launch until done; queued, so a run started
+ * while another is going waits for it.
+ */
+const finishPendingWipes = () =>
+  enqueuePendingWipesStep(async () => {
+    const pending = await readPendingWipes();
+    for (const [index, wipe] of pending.entries()) {
+      await deleteVaultSecureStoreKeys(wipe.vaultId);
+      await replaceVault(wipe.vaultId, wipe.replacementId);
+      await shredVaultFiles(wipe.vaultId);
+      await SecureStore.setItemAsync(PENDING_WIPES_KEY, JSON.stringify(pending.slice(index + 1)));
+    }
+    if (pending.length > 0) {
+      await SecureStore.deleteItemAsync(PENDING_WIPES_KEY);
+      console.log(`LOG: Finished ${pending.length} pending vault erase(s).`);
+    }
+  });
+
+/**
+ * Finishes an erase that was interrupted by a crash or the app being killed. The vault is
+ * erased by its ID, so this works for an open decoy vault too, which is not in the list.
+ * A listed vault is then made the active one, so the user sees it needs a new master password;
+ * a decoy's erase is finished without a word, as its owner vault is all the Login screen shows.
+ * Must run on launch before anything reads the vault.
+ * @returns What the resumed erase removed, or null if no erase of a listed vault was interrupted.
+ */
+export const resumeInterruptedErase = async (): Promise<VaultEraseReport | null> => {
+  await finishPendingWipes();
+  if (!(await FileSystem.getInfoAsync(ERASE_MARKER_FILE)).exists) {
+    return null;
+  }
+  console.warn('WARN: Found an interrupted vault erase, finishing it.');
+  const marker: EraseMarker = JSON.parse(await FileSystem.readAsStringAsync(ERASE_MARKER_FILE));
+  const vaultId = marker.vaultId ?? DEFAULT_VAULT_ID;
+  clearSearchIndex();
+  clearNoteIndexCache();
+
+  const report = await eraseVaultStorage(vaultId);
+  const listed = (await listVaults()).some(vault => vault.id === vaultId);
+  if (listed && marker.deleteVault) {
+    await removeVault(vaultId);
+  } else if (listed) {
+    await selectVault(vaultId);
+  }
+  await FileSystem.deleteAsync(ERASE_MARKER_FILE, { idempotent: true });
+  console.log(`LOG: Vault ${vaultId} erased: ${report.secureStoreKeys.length} key(s), ${report.files} file(s).`);
+  return listed ? report : null;
+};
+
+/**
+ * Deletes the active vault for good: erases it and removes it from the list. Needs the
+ * vault's master password, checked under the same brute-force protection as an unlock.
+ * A vault that never had a master password set can be deleted without one.
+ * @param password The vault's master password.
+ * @returns The vault that is active afterwards, or null if the password is incorrect.
+ * @throws LockoutError while a back-off delay is running, VaultWipedError after a self-destruct.
+ */
+export const deleteVault = async (password: string): Promise<VaultInfo | null> => {
+  let vaultKey: CryptoJS.lib.WordArray | undefined;
+  if (await hasMasterPassword()) {
+    const verified = await guardUnlockAttempt(async () =>
+      (await isLegacyVault()) ? verifyLegacyMasterPassword(password) : verifyMasterPassword(password)
+    );
+    if (!verified) {
+      return null;
+    }
+    vaultKey = verified;
+  }
+  const vaultId = getActiveVaultId();
+  await eraseVault(undefined, { deleteVault: true, vaultKey });
+  console.log(`LOG: Vault ${vaultId} deleted.`);
+  return loadActiveVault();
+};
+
+/**
+ * Creates a new vault protected by a master password, at the current schema version.
+ * @param password The new master password.
+ * @returns The new vault key.
+ */
+export const createVault = async (password: string): Promise<CryptoJS.lib.WordArray> => {
+  const vaultKey = await setMasterPassword(password);
+  await markSchemaVersionCurrent();
+  await ensureDuressRecord();
+  await recordPasswordUnlock();
+  return vaultKey;
+};
+
+/**
+ * Runs an unlock attempt under brute-force protection. The attempt is counted as failed
+ * up-front and only cleared once it succeeds; the back-off delay is enforced before any
+ * key derivation, and the opt-in self-destruct runs when the configured limit is reached.
+ * @param attempt Performs the actual unlock and resolves to null on a wrong secret.
+ * @returns The attempt's result.
+ * @throws UnsupportedSchemaError for a vault written by a newer app version, LockoutError while
+ * a back-off delay is running, VaultWipedError after a self-destruct.
+ */
+const guardUnlockAttempt = async <T>(attempt: () => Promise<T | null>): Promise<T | null> => {
+  await assertSchemaVersionSupported(); // Not even a failed attempt is recorded against a vault we can't read
+  await assertNotLockedOut();
+  const { failedAttempts } = await recordFailedAttempt();
+
+  const result = await attempt();
+  if (result) {
+    await resetFailedAttempts();
+    return result;
+  }
+
+  const { wipeAfterFailedAttempts } = await getSettings();
+  if (wipeAfterFailedAttempts !== null && failedAttempts >= wipeAfterFailedAttempts) {
+    console.warn(`WARN: ${failedAttempts} failed unlock attempts, erasing vault.`);
+    await eraseVault();
+    throw new VaultWipedError();
+  }
+  return null;
+};
+
+/**
+ * Unlocks the vault with the master password, subject to brute-force protection.
+ * Legacy vaults, whose notes are encrypted directly with the password-derived key, are
+ * migrated once: every note is re-encrypted under a new random vault key that is then
+ * stored wrapped by the password-derived key.
+ * The vault's duress password, if one is set, unlocks too: its decoy vault is opened in
+ * place of this one, and this one is erased if the user chose so. Callers can't tell the
+ * two apart, and nor can anyone watching.
+ * @param password The master password entered by the user.
+ * @param onProgress Optional callback reporting migration progress.
+ * @returns The vault key, or null if the password is incorrect.
+ * @throws LockoutError while a back-off delay is running, VaultWipedError after a self-destruct.
+ */
+export const unlockVault = async (
+  password: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<CryptoJS.lib.WordArray | null> => {
+  const result = await guardUnlockAttempt(() => unlockWithPassword(password, onProgress));
+  if (!result) {
+    return null;
+  }
+  await recordPasswordUnlock();
+  if (result.decoy) {
+    await openDecoyVault(result.decoy);
+  } else {
+    await recordDecoyVaultId(result.vaultKey);
+  }
+  return result.vaultKey;
+};
+
+/**
+ * Unlocks the vault with biometrics, if biometric unlock is set up and the password was
+ * entered recently enough (see AppSettings.biometricPasswordIntervalDays). Always opens this
+ * vault, never a decoy. Failed prompts are rate-limited by the system, not counted here; a
+ * successful one clears the failed password attempts, as a password unlock does.
+ * @returns The vault key, or null if biometric unlock isn't allowed or the prompt was cancelled.
+ * @throws UnsupportedSchemaError for a vault written by a newer app version,
+ * BiometricInvalidatedError if the enrolled biometrics changed since it was set up.
+ */
+export const unlockVaultWithBiometrics = async (): Promise<CryptoJS.lib.WordArray | null> => {
+  await assertSchemaVersionSupported();
+  const { biometricPasswordIntervalDays } = await getSettings();
+  if ((await getBiometricUnlockState(biometricPasswordIntervalDays)) !== 'ready') {
+    return null;
+  }
+  const vaultKey = await unwrapVaultKeyWithBiometrics();
+  if (vaultKey) {
+    // The owner is back: earlier typos must not count towards the back-off or the self-destruct
+    await resetFailedAttempts();
+    await recordDecoyVaultId(vaultKey);
+  }
+  return vaultKey;
+};
+
+const unlockWithPassword = async (
+  password: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<PasswordUnlock | null> => {
+  await ensureDuressRecord();
+  const legacy = await isLegacyVault();
+  const key = legacy ? await verifyLegacyMasterPassword(password) : await verifyMasterPassword(password);
+  // Checked whatever the outcome above, so every unlock costs the same two key derivations
+  const decoy = await checkDuressPassword(password);
+
+  if (!key) {
+    return decoy ? { vaultKey: CryptoJS.enc.Hex.parse(decoy.vaultKey), decoy } : null;
+  }
+  if (!legacy) {
+    await upgradeWeakKeyWrapper('password', key, password);
+    return { vaultKey: key, decoy: null };
+  }
+
+  console.log('LOG: Migrating legacy vault to a wrapped vault key...');
+  const { vaultKey, passwordWrapper } = await prepareLegacyVaultMigration(key);
+  await reencryptAllNotes(key, vaultKey, {
+    journalPayload: JSON.stringify(passwordWrapper),
+    commit: () => completeLegacyVaultMigration(passwordWrapper),
+    // The notes go back to the legacy key, so the wrapper of the new vault key must go too
+    rollBack: () => revertLegacyVaultMigration(passwordWrapper, key),
+    onProgress,
+  });
+  // The migrated wrapper still uses the legacy KDF parameters
+  await upgradeWeakKeyWrapper('password', vaultKey, password);
+  return { vaultKey, decoy: null };
+};
+
+/**
+ * Opens a decoy vault in place of the active vault, until closeDecoyVault. The first time,
+ * it gets the keys of an ordinary vault and a copy of the real vault's settings. If the user
+ * chose so, the real vault is then erased in the background, and the decoy takes its place.
+ * @param access What the duress password opened.
+ */
+const openDecoyVault = async (access: DecoyAccess) => {
+  const ownerVaultId = getActiveVaultId();
+  const ownerSettings = await getSettings();
+  openHiddenVault(access.vaultId);
+  openDecoy = { ownerVaultId, access };
+
+  if (!(await getKeyWrapper('password'))) {
+    await storeKeyWrapper(access.passwordWrapper);
+    await markSchemaVersionCurrent();
+    await ensureDuressRecord();
+    await updateSettings(ownerSettings);
+  }
+
+  if (access.wipe === 1) {
+    await enqueuePendingWipesStep(async () => {
+      const pending = await readPendingWipes();
+      pending.push({ vaultId: ownerVaultId, replacementId: access.vaultId });
+      await SecureStore.setItemAsync(PENDING_WIPES_KEY, JSON.stringify(pending));
+    });
+    openDecoy = null; // Once the wipe is done, the decoy is an ordinary vault
+    finishPendingWipes().catch(error => console.error('ERROR: Could not finish erasing the vault:', error));
+  }
+};
+
+/**
+ * Goes back from an open decoy vault to the active vault. Call when the vault key is dropped;
+ * safe to call when no decoy is open.
+ */
+export const closeDecoyVault = () => {
+  openDecoy = null;
+  closeHiddenVault();
+};
+
+/**
+ * Turns off the duress password of the unlocked vault and erases its decoy vault.
+ * @param vaultKey The vault key.
+ */
+export const removeDuressPassword = async (vaultKey: CryptoJS.lib.WordArray) => {
+  await recordDecoyVaultId(vaultKey);
+  const decoyId = await getDecoyVaultId();
+  if (decoyId) {
+    await eraseVaultStorage(decoyId);
+  }
+  await clearDuressPassword();
+};
+
+/**
+ * Changes the master password.
+ * Only the password wrapper of the vault key is replaced, so notes are not re-encrypted
+ * and the change is a single atomic write.
+ * @param oldPassword The current master password.
+ * @param newPassword The new master password.
+ * @returns The vault key, unchanged.
+ */
+export const changeMasterPassword = async (
+  oldPassword: string,
+  newPassword: string
+): Promise<CryptoJS.lib.WordArray> => {
+  if (!newPassword) {
+    throw new Error('Password cannot be empty.');
+  }
+
+  // A duress password is not the current password here: it counts as a failed attempt, and
+  // its decoy is never opened
+  const result = await guardUnlockAttempt(async () => {
+    const unlock = await unlockWithPassword(oldPassword);
+    return unlock && !unlock.decoy ? unlock : null;
+  });
+  if (!result) {
+    throw new Error('Current master password is incorrect.');
+  }
+
+  const passwordWrapper = await wrapVaultKeyWithPassphrase('password', result.vaultKey, newPassword);
+  await storeKeyWrapper(passwordWrapper);
+  if (openDecoy) {
+    // The new password must keep opening this decoy from the Login screen
+    openDecoy.access = { ...openDecoy.access, passwordWrapper };
+    await resealDuressRecord(openDecoy.ownerVaultId, openDecoy.access, newPassword);
+  }
+  console.log('LOG: Master password changed.');
+  return result.vaultKey;
+};
+
+/**
+ * Checks whether a recovery phrase has been set up for this vault.
+ * @returns True if a recovery wrapper of the vault key exists.
+ */
+export const hasRecoveryPhrase = async (): Promise<boolean> => {
+  return (await getKeyWrapper('recovery')) !== null;
+};
+
+/**
+ * Lets a recovery phrase unlock the vault, replacing any previous phrase.
+ * Only a wrapped copy of the vault key is stored; the phrase itself never is.
+ * @param vaultKey The unlocked vault key.
+ * @param phrase The recovery phrase words, as shown to the user.
+ */
+export const setRecoveryPhrase = async (vaultKey: CryptoJS.lib.WordArray, phrase: string[]) => {
+  const normalized = normalizeRecoveryPhrase(phrase.join(' '));
+  await storeKeyWrapper(await wrapVaultKeyWithPassphrase('recovery', vaultKey, normalized));
+  console.log('LOG: Recovery phrase set.');
+};
+
+/**
+ * Resets a forgotten master password using the recovery phrase.
+ * The phrase unwraps the vault key, which is then re-wrapped under the new password.
+ * The recovery phrase stays valid afterwards.
+ * @param phrase The recovery phrase as entered by the user.
+ * @param newPassword The new master password.
+ * @returns The vault key, or null if the phrase is wrong.
+ * @throws LockoutError while a back-off delay is running, VaultWipedError after a self-destruct.
+ */
+export const resetMasterPasswordWithRecoveryPhrase = async (
+  phrase: string,
+  newPassword: string
+): Promise<CryptoJS.lib.WordArray | null> => {
+  if (!newPassword) {
+    throw new Error('Password cannot be empty.');
+  }
+
+  const normalized = normalizeRecoveryPhrase(phrase);
+  const vaultKey = await guardUnlockAttempt(() => unwrapVaultKeyWithPassphrase('recovery', normalized));
+  if (!vaultKey) {
+    return null;
+  }
+  await upgradeWeakKeyWrapper('recovery', vaultKey, normalized);
+  await recordPasswordUnlock();
+
+  await storeKeyWrapper(await wrapVaultKeyWithPassphrase('password', vaultKey, newPassword));
+  console.log('LOG: Master password reset with recovery phrase.');
+  return vaultKey;
+};
+
+/**
+ * Completes or rolls back a vault re-encryption (legacy migration) that was interrupted by a crash.
+ * Should be called on launch before the user is asked for their password.
+ * @throws UnsupportedSchemaError for a vault written by a newer app version.
+ */
+export const recoverInterruptedRekey = async () => {
+  await assertSchemaVersionSupported();
+  const result = await recoverInterruptedReencryption(async (payload) => {
+    const passwordWrapper: KeyWrapperRecord = JSON.parse(payload);
+    await completeLegacyVaultMigration(passwordWrapper);
+  });
+  if (result !== 'none') {
+    console.log(`LOG: Recovered interrupted vault re-encryption (${result}).`);
+  }
+};
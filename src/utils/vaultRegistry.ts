@@ -0,0 +1,220 @@
+// src/utils/vaultRegistry.ts
+import * as FileSystem from 'expo-file-system';
+import * as SecureStore from 'expo-secure-store';
+
+// A device can hold several independent vaults. Each one has its own SecureStore keys (key
+// wrappers, settings, failed attempts, schema version) and its own notes directory; every
+// other module reads and writes those of the active vault only.
+export interface VaultInfo {
+  id: string;
+  name: string; // Shown on the Login screen, so stored outside the vault's encryption
+  createdAt: number;
+}
+
+interface VaultRegistryFile {
+  vaults: VaultInfo[];
+  activeId: string; // The vault that was open last, selected again on launch
+}
+
+const REGISTRY_KEY = 'ciphernote_vaults';
+// The vault of versions before multiple vaults existed. It keeps the SecureStore keys and
+// notes directory it always had, so it needs no migration.
+export const DEFAULT_VAULT_ID = 'default';
+const DEFAULT_VAULT: VaultInfo = { id: DEFAULT_VAULT_ID, name: 'My Notes', createdAt: 0 };
+const VAULT_NAME_MAX_LENGTH = 40;
+
+let activeVaultId = DEFAULT_VAULT_ID;
+// A vault outside the list (the decoy opened by a duress password) whose storage is in use
+// instead of the active vault's until it is locked
+let hiddenVaultId: string | null = null;
+
+/**
+ * Returns the SecureStore key under which the active vault keeps one of its values.
+ * @param name The value's name, e.g. 'settings'.
+ * @param vaultId The vault; defaults to the active one.
+ * @returns The full SecureStore key.
+ */
+export const getVaultStoreKey = (name: string, vaultId: string = getActiveVaultId()): string =>
+  vaultId === DEFAULT_VAULT_ID ? `ciphernote_${name}` : `ciphernote_vault_${vaultId}_${name}`;
+
+/**
+ * Returns the directory holding the active vault's notes.
+ * @param vaultId The vault; defaults to the active one.
+ */
+export const getVaultNotesDir = (vaultId: string = getActiveVaultId()): string =>
+  vaultId === DEFAULT_VAULT_ID
+    ? `${FileSystem.documentDirectory}notes/`
+    : `${FileSystem.documentDirectory}vaults/${vaultId}/notes/`;
+
+/**
+ * Reads the registry. Devices that never had a second vault have none stored.
+ */
+const readRegistry = async (): Promise<VaultRegistryFile> => {
+  const raw = await SecureStore.getItemAsync(REGISTRY_KEY);
+  if (!raw) {
+    return { vaults: [DEFAULT_VAULT], activeId: DEFAULT_VAULT_ID };
+  }
+  return JSON.parse(raw);
+};
+
+const writeRegistry = async (registry: VaultRegistryFile) => {
+  await SecureStore.setItemAsync(REGISTRY_KEY, JSON.stringify(registry));
+};
+
+/**
+ * Checks a vault name: not empty, not too long, and not the name of another vault.
+ */
+const assertVaultNameFree = (vaults: VaultInfo[], name: string, exceptId?: string) => {
+  if (!name) {
+    throw new Error('Vault name cannot be empty.');
+  }
+  if (name.length > VAULT_NAME_MAX_LENGTH) {
+    throw new Error(`Vault names can be at most ${VAULT_NAME_MAX_LENGTH} characters.`);
+  }
+  if (vaults.some(vault => vault.id !== exceptId && vault.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`A vault named "${name}" already exists.`);
+  }
+};
+
+/**
+ * Lists the vaults on this device.
+ * @returns Every vault, in the order they were created.
+ */
+export const listVaults = async (): Promise<VaultInfo[]> => (await readRegistry()).vaults;
+
+/**
+ * Returns the ID of the vault whose storage is in use: the active vault, or the hidden vault
+ * opened in its place.
+ */
+export const getActiveVaultId = (): string => hiddenVaultId ?? activeVaultId;
+
+/**
+ * Makes a new vault ID, in the same form for listed and hidden vaults.
+ * @param taken IDs that are already in use.
+ */
+export const createVaultId = (taken: string[] = []): string => {
+  let id = Date.now();
+  while (taken.includes(String(id))) {
+    id++;
+  }
+  return String(id);
+};
+
+/**
+ * Uses a vault that is not in the list in place of the active one, until closeHiddenVault.
+ * The list and the active vault shown on the Login screen stay as they are.
+ * @param id The hidden vault.
+ */
+export const openHiddenVault = (id: string) => {
+  hiddenVaultId = id;
+};
+
+/**
+ * Goes back to the active vault's storage. Safe to call when no hidden vault is open.
+ */
+export const closeHiddenVault = () => {
+  hiddenVaultId = null;
+};
+
+/**
+ * Makes the vault that was open last the active one. Must run on launch before anything
+ * touches a vault.
+ * @returns The active vault.
+ */
+export const loadActiveVault = async (): Promise<VaultInfo> => {
+  const { vaults, activeId } = await readRegistry();
+  const active = vaults.find(vault => vault.id === activeId) ?? vaults[0];
+  activeVaultId = active.id;
+  return active;
+};
+
+/**
+ * Makes another vault the active one. The caller must drop the previous vault's key and
+ * everything decrypted with it first.
+ * @param id The vault to switch to.
+ * @returns The vault.
+ * @throws Error if there is no such vault.
+ */
+export const selectVault = async (id: string): Promise<VaultInfo> => {
+  const registry = await readRegistry();
+  const vault = registry.vaults.find(existing => existing.id === id);
+  if (!vault) {
+    throw new Error('This vault no longer exists.');
+  }
+  await writeRegistry({ ...registry, activeId: id });
+  activeVaultId = id;
+  console.log(`LOG: Switched to vault ${id}.`);
+  return vault;
+};
+
+/**
+ * Adds a new, empty vault. Its master password is set the first time it is opened.
+ * @param name The vault name; must not match an existing one.
+ * @returns The new vault.
+ */
+export const addVault = async (name: string): Promise<VaultInfo> => {
+  const registry = await readRegistry();
+  const trimmed = name.trim();
+  assertVaultNameFree(registry.vaults, trimmed);
+  const id = createVaultId(registry.vaults.map(vault => vault.id));
+  const vault: VaultInfo = { id, name: trimmed, createdAt: Date.now() };
+  await writeRegistry({ ...registry, vaults: [...registry.vaults, vault] });
+  console.log(`LOG: Vault ${vault.id} added.`);
+  return vault;
+};
+
+/**
+ * Renames a vault.
+ * @param id The vault ID.
+ * @param name The new name; must not match another vault.
+ */
+export const renameVault = async (id: string, name: string) => {
+  const registry = await readRegistry();
+  const trimmed = name.trim();
+  assertVaultNameFree(registry.vaults, trimmed, id);
+  await writeRegistry({
+    ...registry,
+    vaults: registry.vaults.map(vault => (vault.id === id ? { ...vault, name: trimmed } : vault)),
+  });
+};
+
+/**
+ * Removes a vault from the list once its keys and files are gone (see deleteVault in vault.ts).
+ * Removing the last vault leaves the device as if freshly installed.
+ * @param id The vault ID.
+ * @returns The vault that is active afterwards.
+ */
+export const removeVault = async (id: string): Promise<VaultInfo> => {
+  const registry = await readRegistry();
+  const vaults = registry.vaults.filter(vault => vault.id !== id);
+  if (vaults.length === 0) {
+    await SecureStore.deleteItemAsync(REGISTRY_KEY);
+    activeVaultId = DEFAULT_VAULT_ID;
+    return DEFAULT_VAULT;
+  }
+  const active = vaults.find(vault => vault.id === registry.activeId) ?? vaults[0];
+  await writeRegistry({ vaults, activeId: active.id });
+  activeVaultId = active.id;
+  console.log(`LOG: Vault ${id} removed.`);
+  return active;
+};
+
+/**
+ * Puts a hidden vault in the place of a listed one, under the listed vault's name, once the
+ * listed vault has been erased. The hidden vault is then an ordinary vault.
+ * @param id The listed vault.
+ * @param replacementId The hidden vault taking its place.
+ */
+export const replaceVault = async (id: string, replacementId: string) => {
+  const registry = await readRegistry();
+  await writeRegistry({
+    vaults: registry.vaults.map(vault => (vault.id === id ? { ...vault, id: replacementId } : vault)),
+    activeId: registry.activeId === id ? replacementId : registry.activeId,
+  });
+  if (activeVaultId === id) {
+    activeVaultId = replacementId;
+  }
+  if (hiddenVaultId === replacementId) {
+    hiddenVaultId = null;
+  }
+};